@@ -1,15 +1,31 @@
 #!/usr/bin/env node
 import * as path from 'path';
-import { program } from 'commander';
+import { Option, program } from 'commander';
 import { ConfigManager } from './config.js';
 import { TypesGenerator } from './generator/index.js';
+import { SchemaDiffer } from './diff/schema-differ.js';
+import { DocumentValidator, DocumentViolation } from './validate/document-validator.js';
+import { AppwriteCollection } from './generator/type-converters.js';
+import { SchemaEmitter, AppwriteProject } from './schema/schema-emitter.js';
 import { FileSystemUtils } from './utils/file-system.js';
-import { GeneratorError } from './utils/errors.js';
+import { FileWatcher } from './utils/file-watcher.js';
+import { TextDiff } from './utils/text-diff.js';
+import { GeneratorError, ConfigurationError, FileSystemError } from './utils/errors.js';
 
 /**
  * Command-line interface for Appwrite Types Generator
  */
 export class CLI {
+  /** Quiet period before regenerating in watch mode */
+  private static WATCH_DEBOUNCE_MS = 200;
+
+  /** Extensions of document files read by the validate command, by format */
+  private static DOCUMENT_FORMATS: Record<string, 'json' | 'ndjson'> = {
+    '.json': 'json',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson'
+  };
+
   /**
    * Initialize and configure CLI parser
    */
@@ -18,57 +34,563 @@ export class CLI {
       .name('appwrite-types-gen')
       .description('Generate TypeScript types from Appwrite project configuration')
       .version('0.1.0')
+      // Let subcommands define options like -c and -o themselves
+      .enablePositionalOptions()
       .option('-c, --config <path>', 'Path to custom configuration file')
       .option('-o, --output <path>', 'Custom output path for generated types')
+      .option('-d, --output-dir <path>', 'Write one module per collection into a directory')
+      .option('--pull', 'Pull the schema from an Appwrite server instead of reading appwrite.json')
+      .option('--endpoint <url>', 'Appwrite API endpoint to pull from (default: $APPWRITE_ENDPOINT)')
+      .option('--project <id>', 'Appwrite project ID to pull (default: $APPWRITE_PROJECT_ID)')
+      .option('--key <key>', 'Appwrite API key used to pull (default: $APPWRITE_API_KEY)')
+      .option('--save [path]', 'Save the pulled schema, to the input path unless a path is given')
       .option('--no-enums', 'Disable enum generation')
       .option('--no-interfaces', 'Disable interface generation')
       .option('--no-database', 'Disable Database constant generation')
       .option('--no-collections', 'Disable Collection constants generation')
-      .parse(process.argv);
+      .option('--no-buckets', 'Disable Bucket constants generation')
+      .option('--payload-types', 'Generate Create, Update and Document types for every collection')
+      .option('--zod', 'Generate Zod schemas for every collection')
+      .option('--type-guards', 'Generate runtime type guards for every collection')
+      .option('--client', 'Generate a typed database repository for every collection')
+      .option('--queries', 'Generate type-safe query builders for every collection')
+      .option('--mocks', 'Generate seeded mock data factories for every collection')
+      .option('--json-schema', 'Generate JSON Schema documents for every collection')
+      .option('--storage', 'Generate storage bucket metadata, extension types and upload checks')
+      .option('--permissions', 'Generate permission and role types, builders and collection permission constants')
+      .option('--functions', 'Generate Appwrite Functions metadata, a typed executeFunction helper and handler types')
+      .option('--realtime', 'Generate realtime channel and event types and a typed subscribe wrapper')
+      // Deprecated alias of --targets dart
+      .addOption(new Option('--dart').hideHelp())
+      .option('--targets <targets>', 'Comma-separated targets to emit besides TypeScript (dart, python, graphql)')
+      .option('-w, --watch', 'Regenerate types whenever the schema or config file changes')
+      .option('--check', 'Exit with a non-zero code and print a diff when the output file is outdated')
+      .option('--dry-run', 'Print a diff of the changes without writing the output file')
+      .action(options => this.generate(options));
+
+    program
+      .command('diff')
+      .description('Compare two Appwrite schemas and report breaking type changes')
+      .argument('<old>', 'Path to the previous appwrite.json')
+      .argument('<new>', 'Path to the new appwrite.json')
+      .option('--json', 'Print the report as JSON')
+      .action((oldPath, newPath, options) => this.diff(oldPath, newPath, options));
+
+    program
+      .command('validate')
+      .description('Validate seed or fixture documents against a collection of the schema')
+      .argument('<collection>', 'Collection ID or name, optionally prefixed with its database ID (main/users)')
+      .argument('<path>', 'JSON or NDJSON file, or a directory of them')
+      .option('-c, --config <path>', 'Path to custom configuration file')
+      .option('--json', 'Print the violations as JSON')
+      .action((collection, inputPath, options) => this.validate(collection, inputPath, options));
+
+    program
+      .command('emit-schema')
+      .description('Write the collections defined with defineCollection into appwrite.json')
+      .argument('<schema>', 'TypeScript or JavaScript module exporting the collections')
+      .option('-c, --config <path>', 'Path to custom configuration file')
+      .option('-o, --output <path>', 'appwrite.json to update (default: the configured inputPath)')
+      .option('--database <id>', 'Database of collections without a databaseId (default: the only database)')
+      .option('--dry-run', 'Print a diff of the changes without writing the file')
+      .action((schemaPath, options) => this.emitSchema(schemaPath, options));
 
-    return program.opts();
+    return program;
   }
 
   /**
-   * Run the types generation process
+   * Parse the command line and run the selected command
    */
   static async run() {
+    await this.configure().parseAsync(process.argv);
+  }
+
+  /**
+   * Run the types generation process
+   * 
+   * @param options - Parsed CLI options
+   */
+  static async generate(options: Record<string, any>) {
+    if (options.watch) {
+      return this.watch(options);
+    }
+
+    if (options.check || options.dryRun) {
+      return this.check(options);
+    }
+
     try {
-      // In CLI.run()
-      // Parse CLI options
-      const options = this.configure();
+      const { outputPath } = await this.generateOnce(options);
+      console.log(`✅ Types generated successfully at ${outputPath}`);
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
 
-      console.log(options)
-      
-      // Load configuration
-      const config = await ConfigManager.loadConfig(options.config);
-      
-      // Override config with CLI options
-      if (options.output) config.outputPath = options.output;
-      config.generateEnums = options.enums ?? config.generateEnums;
-      config.generateInterfaces = options.interfaces ?? config.generateInterfaces;
+  /**
+   * Compare freshly generated types with the output file without writing it
+   * In check mode, an outdated output file sets a non-zero exit code
+   * 
+   * @param options - Parsed CLI options
+   */
+  static async check(options: Record<string, any>) {
+    try {
+      const { outputLocation, files, staleFiles } = await this.render(options);
+      const changes: Array<{ filePath: string; existing: string; generated: string }> = [];
+
+      for (const file of files) {
+        let existing = '';
+        try {
+          existing = await FileSystemUtils.readFile(file.path);
+        } catch {
+          // A missing output file is reported as entirely new
+        }
+
+        if (TypesGenerator.normalizeForComparison(existing) !== TypesGenerator.normalizeForComparison(file.content)) {
+          changes.push({ filePath: file.path, existing, generated: file.content });
+        }
+      }
+
+      for (const filePath of staleFiles) {
+        changes.push({ filePath, existing: await FileSystemUtils.readFile(filePath), generated: '' });
+      }
+
+      if (changes.length === 0) {
+        console.log(`✅ Types at ${outputLocation} are up to date`);
+        return;
+      }
+
+      changes.forEach(change => {
+        const label = path.relative(process.cwd(), path.resolve(process.cwd(), change.filePath));
+        process.stdout.write(TextDiff.unified(change.existing, change.generated, {
+          oldLabel: `a/${label}`,
+          newLabel: `b/${label}`
+        }));
+      });
+
+      if (options.check) {
+        console.error(`❌ Types at ${outputLocation} are outdated, run appwrite-types-gen to update them`);
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
 
-      // Validate input file exists
+  /**
+   * Regenerate types whenever the schema or configuration file changes
+   * Errors are reported without terminating the process
+   * 
+   * @param options - Parsed CLI options
+   */
+  static async watch(options: Record<string, any>) {
+    const watcher = new FileWatcher(() => regenerate(), this.WATCH_DEBOUNCE_MS);
+    let inputPath: string | undefined;
+
+    const regenerate = async () => {
+      try {
+        const { outputPath, written } = await this.generateOnce(options);
+        console.log(written 
+          ? `✅ Types generated successfully at ${outputPath}`
+          : `✔ Types at ${outputPath} are up to date`);
+      } catch (error) {
+        this.reportError(error);
+      }
+
+      // Follow the input file and config file, which may have been renamed
+      inputPath = await this.updateWatchedFiles(watcher, options, inputPath);
+    };
+
+    await regenerate();
+    console.log('👀 Watching for changes...');
+  }
+
+  /**
+   * Point the watcher at the current input and configuration files
+   * The configuration file is always watched, so an invalid configuration can be fixed without restarting
+   * 
+   * @param watcher - Watcher to update
+   * @param options - Parsed CLI options
+   * @param lastInputPath - Input file watched so far, kept while the configuration is invalid
+   * @returns Input file now being watched, if any
+   */
+  private static async updateWatchedFiles(
+    watcher: FileWatcher,
+    options: Record<string, any>,
+    lastInputPath?: string
+  ): Promise<string | undefined> {
+    // An explicit configuration file is watched even while it is missing
+    const configPath = await ConfigManager.findConfigPath(options.config) ?? options.config;
+    let inputPath = lastInputPath;
+
+    try {
+      const config = await this.loadConfig(options);
+      // A pulled schema has no local file to follow
+      inputPath = config.pull ? undefined : config.inputPath;
+    } catch {
+      // Keep watching the last known input file until the config is fixed
+    }
+
+    watcher.watch([configPath, inputPath].filter((filePath): filePath is string => Boolean(filePath)));
+    return inputPath;
+  }
+
+  /**
+   * Generate types once and write them when they changed
+   * 
+   * @param options - Parsed CLI options
+   * @returns Output path and whether the output file was written
+   */
+  private static async generateOnce(options: Record<string, any>) {
+    const { outputLocation, files, staleFiles } = await this.render(options);
+    let written = false;
+
+    // Write generated types, ignoring the generation timestamp when comparing
+    for (const file of files) {
+      written = await FileSystemUtils.writeFileIfChanged(
+        file.path, 
+        file.content,
+        TypesGenerator.normalizeForComparison
+      ) || written;
+    }
+
+    // Remove modules of collections that no longer exist
+    for (const filePath of staleFiles) {
+      await FileSystemUtils.removeFile(filePath);
+      written = true;
+    }
+
+    return { outputPath: outputLocation, written };
+  }
+
+  /**
+   * Generate types in memory
+   * 
+   * @param options - Parsed CLI options
+   * @returns Output location, files to write and previously generated files to remove
+   */
+  private static async render(options: Record<string, any>) {
+    const config = await this.loadConfig(options);
+
+    // Validate input file exists, unless the schema is pulled from the server
+    if (!config.pull) {
       await FileSystemUtils.validateFileExists(config.inputPath);
+    }
 
-      // Generate types
-      const generator = new TypesGenerator(config);
-      const generatedTypes = await generator.generate();
+    // Generate types, including files added by plugins
+    const generator = new TypesGenerator(config);
+    const outputRoot = config.outputDir ?? path.dirname(config.outputPath);
+    const files = (await generator.generateFiles()).map(file => ({
+      path: path.join(outputRoot, file.path),
+      content: file.content
+    }));
 
-      // Write generated types
-      await FileSystemUtils.writeFile(
-        path.resolve(process.cwd(), config.outputPath), 
-        generatedTypes
-      );
+    if (!config.outputDir) {
+      return { outputLocation: config.outputPath, files, staleFiles: [] as string[] };
+    }
+
+    // Only files carrying the generated header of their type are considered stale
+    const generatedPaths = new Set(files.map(file => path.resolve(process.cwd(), file.path)));
+    const staleFiles: string[] = [];
+    for (const filePath of await FileSystemUtils.listFiles(config.outputDir)) {
+      if (
+        !generatedPaths.has(path.resolve(process.cwd(), filePath)) &&
+        TypesGenerator.isGeneratedFile(filePath, await FileSystemUtils.readFile(filePath))
+      ) {
+        staleFiles.push(filePath);
+      }
+    }
+
+    return { outputLocation: config.outputDir, files, staleFiles };
+  }
+
+  /**
+   * Load configuration and apply CLI overrides
+   * 
+   * @param options - Parsed CLI options
+   * @returns Generator configuration
+   */
+  private static async loadConfig(options: Record<string, any>) {
+    const config = await ConfigManager.loadConfig(options.config);
+    
+    // Override config with CLI options; an explicit output file replaces multi-file output
+    if (options.output) {
+      config.outputPath = options.output;
+      config.outputDir = undefined;
+    }
+    if (options.outputDir) config.outputDir = options.outputDir;
+    if (options.pull || options.endpoint || options.project || options.key) {
+      config.pull = {
+        ...config.pull,
+        ...(options.endpoint && { endpoint: options.endpoint }),
+        ...(options.project && { projectId: options.project }),
+        ...(options.key && { apiKey: options.key })
+      };
+    }
+    if (options.save && config.pull) {
+      config.pull = { ...config.pull, savePath: options.save === true ? config.inputPath : options.save };
+    }
+    if (options.enums === false) config.enumConfig = { ...config.enumConfig, generateEnums: false };
+    if (options.interfaces === false) config.interfaceConfig = { ...config.interfaceConfig, generateInterfaces: false };
+    if (options.database === false) {
+      config.idConstantsConfig = { ...config.idConstantsConfig, generateDatabaseConstants: false };
+    }
+    if (options.collections === false) {
+      config.idConstantsConfig = { ...config.idConstantsConfig, generateCollectionConstants: false };
+    }
+    if (options.buckets === false) {
+      config.idConstantsConfig = { ...config.idConstantsConfig, generateBucketConstants: false };
+    }
+    if (options.payloadTypes) {
+      config.interfaceConfig = {
+        ...config.interfaceConfig,
+        generateCreateTypes: true,
+        generateUpdateTypes: true,
+        generateDocumentTypes: true
+      };
+    }
+    if (options.zod) config.zodConfig = { ...config.zodConfig, generateSchemas: true };
+    if (options.typeGuards) config.typeGuardConfig = { ...config.typeGuardConfig, generateTypeGuards: true };
+    if (options.client) config.clientConfig = { ...config.clientConfig, generateClient: true };
+    if (options.queries) config.queryConfig = { ...config.queryConfig, generateQueryBuilders: true };
+    if (options.mocks) config.mockConfig = { ...config.mockConfig, generateMockFactories: true };
+    if (options.jsonSchema) config.jsonSchemaConfig = { ...config.jsonSchemaConfig, generateJsonSchema: true };
+    if (options.storage) {
+      config.storageConfig = { ...config.storageConfig, generateBucketTypes: true, generateUploadValidators: true };
+    }
+    if (options.permissions) {
+      config.permissionConfig = {
+        ...config.permissionConfig,
+        generatePermissionTypes: true,
+        generateCollectionPermissions: true
+      };
+    }
+    if (options.functions) {
+      config.functionConfig = {
+        ...config.functionConfig,
+        generateFunctionTypes: true,
+        generateExecuteHelper: true,
+        generateHandlerTypes: true
+      };
+    }
+    if (options.realtime) {
+      config.realtimeConfig = { ...config.realtimeConfig, generateRealtimeTypes: true, generateSubscribeHelper: true };
+    }
+    if (options.targets) {
+      config.targets = options.targets.split(',').map((target: string) => target.trim()).filter(Boolean);
+    }
+    if (options.dart && !config.targets?.includes('dart')) {
+      config.targets = [...(config.targets ?? []), 'dart'];
+    }
+
+    return config;
+  }
+
+  /**
+   * Compare two Appwrite schemas and report breaking type changes
+   * Exits with a non-zero code when breaking changes are found
+   * 
+   * @param oldPath - Path to the previous schema
+   * @param newPath - Path to the new schema
+   * @param options - Parsed command options
+   */
+  static async diff(oldPath: string, newPath: string, options: { json?: boolean }) {
+    try {
+      // Parse both schemas exactly like type generation does
+      const [oldSchema, newSchema] = await Promise.all([
+        new TypesGenerator({ inputPath: oldPath }).loadSchema(),
+        new TypesGenerator({ inputPath: newPath }).loadSchema()
+      ]);
+
+      const diff = SchemaDiffer.diff(oldSchema.collections, newSchema.collections);
+
+      console.log(options.json 
+        ? JSON.stringify(diff, null, 2) 
+        : SchemaDiffer.formatReport(diff));
 
-      console.log(`✅ Types generated successfully at ${config.outputPath}`);
+      if (diff.breaking) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Validate documents against a collection of the schema
+   * Exits with a non-zero code when a document violates the schema
+   * 
+   * @param collectionName - Collection ID or name, optionally prefixed with its database ID
+   * @param inputPath - JSON or NDJSON file, or a directory of them
+   * @param options - Parsed command options
+   */
+  static async validate(collectionName: string, inputPath: string, options: { config?: string; json?: boolean }) {
+    try {
+      // Parse the schema exactly like type generation does
+      const config = await ConfigManager.loadConfig(options.config);
+      const { collections } = await new TypesGenerator(config).loadSchema();
+      const collection = this.findCollection(collections, collectionName);
+
+      const files = await this.listDocumentFiles(inputPath);
+      const violations: DocumentViolation[] = [];
+      let documents = 0;
+
+      for (const filePath of files) {
+        const format = this.DOCUMENT_FORMATS[path.extname(filePath).toLowerCase()] ?? 'json';
+        const parsed = DocumentValidator.parseDocuments(await FileSystemUtils.readFile(filePath), format);
+        const source = path.relative(process.cwd(), path.resolve(process.cwd(), filePath));
+
+        documents += parsed.documents.length;
+        violations.push(
+          ...[...parsed.violations, ...DocumentValidator.validate(collection, parsed.documents, collections)]
+            .sort((a, b) => a.index - b.index)
+            .map(violation => ({ source, ...violation }))
+        );
+      }
+
+      console.log(options.json
+        ? JSON.stringify({ collection: collection.$id, documents, violations }, null, 2)
+        : DocumentValidator.formatReport({ documents, violations }));
+
+      if (violations.length > 0) {
+        process.exitCode = 1;
+      }
     } catch (error) {
-      if (error instanceof GeneratorError) {
-        console.error(`❌ Generation Error: ${error.message}`);
-      } else {
-        console.error(`❌ Unexpected Error: ${error instanceof Error ? error.message : error}`);
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Write the collections of a schema module into appwrite.json
+   * The collections section is replaced; projects, buckets, functions and other settings are kept
+   * 
+   * @param schemaPath - Module exporting collections defined with defineCollection
+   * @param options - Parsed command options
+   */
+  static async emitSchema(
+    schemaPath: string,
+    options: { config?: string; output?: string; database?: string; dryRun?: boolean }
+  ) {
+    try {
+      const config = await ConfigManager.loadConfig(options.config);
+      const outputPath = options.output ?? config.inputPath;
+
+      let existing = '';
+      let project: AppwriteProject = {};
+      if (await FileSystemUtils.fileExists(outputPath)) {
+        existing = await FileSystemUtils.readFile(outputPath);
+        try {
+          project = JSON.parse(existing);
+        } catch (error) {
+          throw new ConfigurationError(`Unable to parse ${outputPath}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      // Collections without a database go to the only database of the project
+      const databases = project.databases ?? [];
+      const databaseId = options.database ?? (databases.length === 1 ? databases[0].$id : undefined);
+
+      // Relationships may point to collections that are not defined in code
+      const definitions = await SchemaEmitter.loadDefinitions(schemaPath);
+      const collections = SchemaEmitter.emitCollections(definitions, { databaseId, existingCollections: project.collections });
+      const { project: updated, removed } = SchemaEmitter.applyToProject(project, collections);
+      const content = `${JSON.stringify(updated, null, 2)}\n`;
+
+      removed.forEach(item => console.error(`⚠️  ${options.dryRun ? 'Would remove' : 'Removing'} ${item}`));
+
+      if (options.dryRun) {
+        const label = path.relative(process.cwd(), path.resolve(process.cwd(), outputPath));
+        const diff = TextDiff.unified(existing, content, { oldLabel: `a/${label}`, newLabel: `b/${label}` });
+        process.stdout.write(diff || `✔ ${outputPath} is up to date\n`);
+        return;
       }
-      process.exit(1);
+
+      const written = await FileSystemUtils.writeFileIfChanged(outputPath, content);
+      console.log(written
+        ? `✅ Wrote ${definitions.length} collection${definitions.length === 1 ? '' : 's'} to ${outputPath}`
+        : `✔ ${outputPath} is up to date`);
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * Find a collection by ID or name, optionally prefixed with its database ID
+   * 
+   * @param collections - Parsed collections
+   * @param name - Collection ID or name, e.g. `users` or `main/users`
+   * @returns Matching collection
+   * @throws {ConfigurationError} If no collection or more than one collection matches
+   */
+  private static findCollection(collections: AppwriteCollection[], name: string): AppwriteCollection {
+    const [databaseId, collectionName] = name.includes('/') ? name.split('/', 2) : [undefined, name];
+    const candidates = collections.filter(collection => !databaseId || collection.databaseId === databaseId);
+    const byId = candidates.filter(collection => collection.$id === collectionName);
+    const matches = byId.length > 0
+      ? byId
+      : candidates.filter(collection => collection.name === collectionName);
+
+    const describe = (collection: AppwriteCollection) => `${collection.databaseId}/${collection.$id}`;
+
+    if (matches.length === 0) {
+      throw new ConfigurationError(
+        `Unknown collection "${name}", available: ${collections.map(describe).join(', ') || 'none'}`
+      );
+    }
+    if (matches.length > 1) {
+      throw new ConfigurationError(
+        `Collection "${name}" is ambiguous, use one of: ${matches.map(describe).join(', ')}`
+      );
+    }
+
+    return matches[0];
+  }
+
+  /**
+   * List the document files to validate
+   * Directories are searched recursively for JSON and NDJSON files
+   * 
+   * @param inputPath - File or directory
+   * @returns Document files in a stable order
+   * @throws {FileSystemError} If the file does not exist or the directory holds no document files
+   */
+  private static async listDocumentFiles(inputPath: string): Promise<string[]> {
+    if (!await FileSystemUtils.isDirectory(inputPath)) {
+      await FileSystemUtils.validateFileExists(inputPath);
+      return [inputPath];
+    }
+
+    const files = (await FileSystemUtils.listFiles(inputPath))
+      .filter(filePath => path.extname(filePath).toLowerCase() in this.DOCUMENT_FORMATS)
+      .sort();
+
+    if (files.length === 0) {
+      throw new FileSystemError(`No .json, .ndjson or .jsonl files found in ${inputPath}`);
+    }
+
+    return files;
+  }
+
+  /**
+   * Report an error and terminate the process
+   * 
+   * @param error - Error encountered while running a command
+   */
+  private static handleError(error: unknown): never {
+    this.reportError(error);
+    process.exit(1);
+  }
+
+  /**
+   * Report an error without terminating the process
+   * 
+   * @param error - Error encountered while running a command
+   */
+  private static reportError(error: unknown) {
+    if (error instanceof GeneratorError) {
+      console.error(`❌ Generation Error: ${error.message}`);
+    } else {
+      console.error(`❌ Unexpected Error: ${error instanceof Error ? error.message : error}`);
     }
   }
 }
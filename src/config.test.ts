@@ -0,0 +1,118 @@
+// src/config.test.ts
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from './config.js';
+import { ConfigurationError } from './utils/errors.js';
+
+describe('ConfigManager.loadConfig', () => {
+  let workingDir: string;
+  const originalDir = process.cwd();
+
+  before(async () => {
+    workingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+    // TypeScript configuration files are compiled with the project's own compiler
+    await fs.symlink(path.join(originalDir, 'node_modules'), path.join(workingDir, 'node_modules'), 'dir');
+    process.chdir(workingDir);
+  });
+
+  after(async () => {
+    process.chdir(originalDir);
+    await fs.rm(workingDir, { recursive: true, force: true });
+  });
+
+  test('loads TypeScript configuration files with functions', async () => {
+    await fs.writeFile(path.join(workingDir, 'appwrite-types.config.ts'), `
+const upper = (name: string): string => name.toUpperCase();
+
+export default {
+  outputPath: './types.ts',
+  idConstantsConfig: { namingTransform: upper }
+};
+`);
+
+    try {
+      const config = await ConfigManager.loadConfig();
+
+      assert.equal(config.outputPath, './types.ts');
+      assert.equal(config.inputPath, './appwrite.json');
+      assert.equal(config.idConstantsConfig?.namingTransform?.('users'), 'USERS');
+    } finally {
+      await fs.rm(path.join(workingDir, 'appwrite-types.config.ts'));
+    }
+  });
+
+  test('loads configurations exported as an async factory', async () => {
+    await fs.writeFile(
+      path.join(workingDir, 'factory.config.mjs'),
+      `export default async () => ({ outputDir: './types', headerStyle: 'hash' });`
+    );
+
+    const config = await ConfigManager.loadConfig('./factory.config.mjs');
+
+    assert.equal(config.outputDir, './types');
+    assert.equal(config.headerStyle, 'hash');
+  });
+
+  test('resolves relative plugin paths against the configuration directory', async () => {
+    await fs.mkdir(path.join(workingDir, 'config'), { recursive: true });
+    await fs.writeFile(
+      path.join(workingDir, 'config', 'plugins.json'),
+      JSON.stringify({ plugins: ['./plugin.mjs', ['appwrite-types-plugin-x', { mode: 'strict' }]] })
+    );
+
+    const config = await ConfigManager.loadConfig('./config/plugins.json');
+
+    assert.deepEqual(config.plugins, [
+      path.join(workingDir, 'config', 'plugin.mjs'),
+      ['appwrite-types-plugin-x', { mode: 'strict' }]
+    ]);
+  });
+
+  test('reports unknown keys and invalid values with their path', async () => {
+    await fs.writeFile(
+      path.join(workingDir, 'invalid.json'),
+      JSON.stringify({ enumConfg: {}, interfaceConfig: { relationshipMode: 'ids' } })
+    );
+
+    await assert.rejects(
+      ConfigManager.loadConfig('./invalid.json'),
+      (error: unknown) => error instanceof ConfigurationError &&
+        /interfaceConfig\.relationshipMode: Invalid enum value/.test(error.message) &&
+        /\(root\): Unrecognized key\(s\) in object: 'enumConfg'/.test(error.message)
+    );
+  });
+
+  test('maps deprecated top-level options to their nested configuration', async (t) => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    await fs.writeFile(path.join(workingDir, 'legacy.json'), JSON.stringify({
+      generateEnums: false,
+      generateInterfaces: false,
+      generateDatabaseConstants: false,
+      generateCollectionConstants: true,
+      idConstantsConfig: { generateCollectionConstants: false, constantPrefix: 'APP_' }
+    }));
+
+    const config = await ConfigManager.loadConfig('./legacy.json');
+
+    assert.deepEqual(config.enumConfig, { generateEnums: false });
+    assert.deepEqual(config.interfaceConfig, { generateInterfaces: false });
+    // Nested options win over the deprecated ones
+    assert.deepEqual(config.idConstantsConfig, {
+      generateDatabaseConstants: false,
+      generateCollectionConstants: false,
+      constantPrefix: 'APP_'
+    });
+    assert.equal(warn.mock.callCount(), 4);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /"generateEnums" is deprecated, use "enumConfig\.generateEnums" instead/);
+  });
+
+  test('reports an explicit configuration path that does not exist', async () => {
+    await assert.rejects(
+      ConfigManager.loadConfig('./missing.json'),
+      (error: unknown) => error instanceof ConfigurationError && /not found: \.\/missing\.json/.test(error.message)
+    );
+  });
+});
@@ -1,23 +1,200 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { z } from 'zod';
+import type { TypeGeneratorConfig, TypeTransformer } from './generator/index.js';
+import type { GeneratorPlugin } from './generator/plugins.js';
+import { ConfigurationError } from './utils/errors.js';
+import { ModuleLoader } from './utils/module-loader.js';
+
+/**
+ * Accepts any function of the given type
+ * @param name Description used in error messages
+ * @returns Schema validating that a value is a function
+ */
+const fn = <T extends (...args: any[]) => any>(name: string) =>
+  z.custom<T>(value => typeof value === 'function', { message: `Expected ${name} to be a function` });
+
+/**
+ * Deprecated top-level options and the nested options that replaced them
+ */
+const LEGACY_KEYS: Record<string, [section: string, key: string]> = {
+  generateEnums: ['enumConfig', 'generateEnums'],
+  generateInterfaces: ['interfaceConfig', 'generateInterfaces'],
+  generateDatabaseConstants: ['idConstantsConfig', 'generateDatabaseConstants'],
+  generateCollectionConstants: ['idConstantsConfig', 'generateCollectionConstants']
+};
 
 /**
  * Schema for validating generator configuration
+ * Mirrors `TypeGeneratorConfig`; unknown keys are rejected so typos don't go unnoticed
  */
 const ConfigSchema = z.object({
+  $schema: z.string().optional(),
   inputPath: z.string().default('./appwrite.json'),
   outputPath: z.string().default('./src/lib/appwrite/types.ts'),
-  generateEnums: z.boolean().default(true),
-  generateInterfaces: z.boolean().default(true),
-  generateDatabaseConstants: z.boolean().default(true),
-  generateCollectionConstants: z.boolean().default(true),
-});
+  outputDir: z.string().optional(),
+  pull: z.object({
+    endpoint: z.string().url().optional(),
+    projectId: z.string().optional(),
+    apiKey: z.string().optional(),
+    savePath: z.string().optional(),
+  }).strict().optional(),
+  headerStyle: z.enum(['timestamp', 'hash']).optional(),
+  enumConfig: z.object({
+    generateEnums: z.boolean().optional(),
+    generateUnionTypes: z.boolean().optional(),
+    namingStrategy: z.enum(['pascal', 'camel', 'snake']).optional(),
+  }).strict().optional(),
+  interfaceConfig: z.object({
+    generateInterfaces: z.boolean().optional(),
+    includeMetadata: z.boolean().optional(),
+    optionalMetadata: z.boolean().optional(),
+    interfacePrefix: z.string().optional(),
+    interfaceSuffix: z.string().optional(),
+    generateCreateTypes: z.boolean().optional(),
+    generateUpdateTypes: z.boolean().optional(),
+    generateDocumentTypes: z.boolean().optional(),
+    relationshipMode: z.enum(['populated', 'id']).optional(),
+    generateRelationshipTypes: z.boolean().optional(),
+    permissionType: z.string().optional(),
+  }).strict().optional(),
+  idConstantsConfig: z.object({
+    generateDatabaseConstants: z.boolean().optional(),
+    generateCollectionConstants: z.boolean().optional(),
+    generateBucketConstants: z.boolean().optional(),
+    generateFunctionConstants: z.boolean().optional(),
+    generateTeamConstants: z.boolean().optional(),
+    constantPrefix: z.string().optional(),
+    constantSuffix: z.string().optional(),
+    namingTransform: fn<(name: string) => string>('namingTransform').optional(),
+    includeComments: z.boolean().optional(),
+    generateNestedConstants: z.boolean().optional(),
+  }).strict().optional(),
+  zodConfig: z.object({
+    generateSchemas: z.boolean().optional(),
+    generateInferredTypes: z.boolean().optional(),
+    includeMetadata: z.boolean().optional(),
+    strict: z.boolean().optional(),
+    schemaSuffix: z.string().optional(),
+  }).strict().optional(),
+  typeGuardConfig: z.object({
+    generateTypeGuards: z.boolean().optional(),
+    generateAttributeGuards: z.boolean().optional(),
+    guardPrefix: z.string().optional(),
+  }).strict().optional(),
+  clientConfig: z.object({
+    generateClient: z.boolean().optional(),
+    sdkPackage: z.enum(['appwrite', 'node-appwrite']).optional(),
+    repositorySuffix: z.string().optional(),
+    pageSize: z.number().int().positive().optional(),
+  }).strict().optional(),
+  queryConfig: z.object({
+    generateQueryBuilders: z.boolean().optional(),
+    querySuffix: z.string().optional(),
+  }).strict().optional(),
+  mockConfig: z.object({
+    generateMockFactories: z.boolean().optional(),
+    factoryPrefix: z.string().optional(),
+    defaultDepth: z.number().int().nonnegative().optional(),
+    seed: z.number().int().optional(),
+  }).strict().optional(),
+  jsonSchemaConfig: z.object({
+    generateJsonSchema: z.boolean().optional(),
+    directory: z.string().optional(),
+    generateBundle: z.boolean().optional(),
+    includeMetadata: z.boolean().optional(),
+    strict: z.boolean().optional(),
+    baseUri: z.string().optional(),
+  }).strict().optional(),
+  storageConfig: z.object({
+    generateBucketTypes: z.boolean().optional(),
+    generateUploadValidators: z.boolean().optional(),
+  }).strict().optional(),
+  permissionConfig: z.object({
+    generatePermissionTypes: z.boolean().optional(),
+    generateCollectionPermissions: z.boolean().optional(),
+  }).strict().optional(),
+  functionConfig: z.object({
+    generateFunctionTypes: z.boolean().optional(),
+    generateExecuteHelper: z.boolean().optional(),
+    generateHandlerTypes: z.boolean().optional(),
+    payloads: z.record(z.object({
+      request: z.string().optional(),
+      response: z.string().optional(),
+    }).strict()).optional(),
+  }).strict().optional(),
+  realtimeConfig: z.object({
+    generateRealtimeTypes: z.boolean().optional(),
+    generateSubscribeHelper: z.boolean().optional(),
+  }).strict().optional(),
+  dartConfig: z.object({
+    // Deprecated alias of the dart target
+    generateDart: z.boolean().optional(),
+    outputPath: z.string().optional(),
+    includeMetadata: z.boolean().optional(),
+  }).strict().optional(),
+  pythonConfig: z.object({
+    directory: z.string().optional(),
+    enumStyle: z.enum(['enum', 'literal']).optional(),
+    includeMetadata: z.boolean().optional(),
+  }).strict().optional(),
+  graphqlConfig: z.object({
+    outputPath: z.string().optional(),
+    includeMetadata: z.boolean().optional(),
+    generateInputTypes: z.boolean().optional(),
+  }).strict().optional(),
+  targets: z.array(z.enum(['dart', 'python', 'graphql'])).optional(),
+  databaseConfig: z.object({
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+    namespaces: z.enum(['auto', 'always', 'never']).optional(),
+  }).strict().optional(),
+  transformers: z.array(fn<TypeTransformer>('transformer')).optional(),
+  plugins: z.array(z.union([
+    z.string(),
+    z.custom<[string, Record<string, unknown>]>(
+      value => Array.isArray(value) && value.length === 2 &&
+        typeof value[0] === 'string' && typeof value[1] === 'object' && value[1] !== null,
+      { message: 'Expected a [modulePath, options] pair' }
+    ),
+    z.custom<GeneratorPlugin>(
+      value => typeof value === 'object' && value !== null && typeof (value as GeneratorPlugin).name === 'string',
+      { message: 'Expected a module path or a plugin object with a name' }
+    )
+  ])).optional(),
+}).strict();
+
+/**
+ * Configuration type for the Appwrite Types Generator, with defaults applied
+ */
+export type GeneratorConfig = z.output<typeof ConfigSchema>;
+
+/**
+ * Configuration accepted in configuration files and by `defineConfig`
+ */
+export type UserConfig = z.input<typeof ConfigSchema>;
+
+/**
+ * Compile-time check that the schema accepts exactly the generator configuration
+ */
+type Mirrors<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+const schemaMirrorsGeneratorConfig: Mirrors<
+  Omit<UserConfig, '$schema'>,
+  Partial<TypeGeneratorConfig>
+> = true;
+void schemaMirrorsGeneratorConfig;
 
 /**
- * Configuration type for the Appwrite Types Generator
+ * Declares a configuration with type checking and editor completion
+ * @param config Generator configuration
+ * @returns The same configuration
+ * @example
+ * // appwrite-types.config.ts
+ * export default defineConfig({ outputDir: './src/lib/appwrite/types' });
  */
-export type GeneratorConfig = z.infer<typeof ConfigSchema>;
+export function defineConfig(config: UserConfig): UserConfig {
+  return config;
+}
 
 /**
  * Configuration loader and validator
@@ -27,36 +204,146 @@ export class ConfigManager {
    * Load configuration from a specified path or use defaults
    * @param configPath Optional path to configuration file
    * @returns Validated configuration object
+   * @throws {ConfigurationError} If the configuration file cannot be loaded or is invalid
    */
   static async loadConfig(configPath?: string): Promise<GeneratorConfig> {
-    try {
-      // Use provided path or look for default config files
-      const searchPaths = [
-        configPath,
-        './appwrite-types.config.json',
-        './appwrite-types.json',
-        './types-generator.config.json'
-      ].filter(Boolean);
-
-      for (const searchPath of searchPaths) {
-        try {
-          const configContent = await fs.readFile(
-            path.resolve(process.cwd(), searchPath as string), 
-            'utf8'
-          );
-          const rawConfig = JSON.parse(configContent);
-          return ConfigSchema.parse(rawConfig);
-        } catch {
-          // Continue to next path if loading fails
-          continue;
-        }
+    const foundPath = await this.findConfigPath(configPath);
+
+    if (!foundPath) {
+      if (configPath) {
+        throw new ConfigurationError(`Configuration file not found: ${configPath}`);
       }
 
       // If no config found, return default configuration
       return ConfigSchema.parse({});
+    }
+
+    const rawConfig = this.migrateLegacyKeys(await this.readConfigFile(foundPath), foundPath);
+    const result = ConfigSchema.safeParse(rawConfig);
+
+    if (!result.success) {
+      const issues = result.error.issues
+        .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('\n');
+      throw new ConfigurationError(`Invalid configuration in ${foundPath}:\n${issues}`);
+    }
+
+    return this.resolvePluginPaths(result.data, foundPath);
+  }
+
+  /**
+   * Find the configuration file that loadConfig would read
+   * @param configPath Optional path to configuration file
+   * @returns Path of the first existing configuration file, if any
+   */
+  static async findConfigPath(configPath?: string): Promise<string | undefined> {
+    for (const searchPath of this.getSearchPaths(configPath)) {
+      try {
+        await fs.access(path.resolve(process.cwd(), searchPath), fs.constants.R_OK);
+        return searchPath;
+      } catch {
+        continue;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read a configuration file according to its extension
+   * JSON files are parsed, JavaScript and TypeScript modules are imported
+   * @param configPath Path of the configuration file
+   * @returns Unvalidated configuration
+   * @throws {ConfigurationError} If the file cannot be read, parsed or imported
+   */
+  private static async readConfigFile(configPath: string): Promise<unknown> {
+    const resolvedPath = path.resolve(process.cwd(), configPath);
+    const extension = path.extname(resolvedPath);
+
+    try {
+      if (extension === '.json') {
+        return JSON.parse(await fs.readFile(resolvedPath, 'utf8'));
+      }
+
+      const module = await ModuleLoader.importFile(resolvedPath);
+      const exported = module.default ?? module.config;
+
+      // Configurations may be exported as a (async) factory
+      return typeof exported === 'function' ? await exported() : exported;
     } catch (error) {
-      throw new Error(`Invalid configuration: ${error instanceof Error ? error.message : error}`);
+      throw new ConfigurationError(
+        `Unable to load ${configPath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Move deprecated top-level options into their nested configuration, warning about each
+   * Nested options that are set explicitly take precedence
+   * @param rawConfig Unvalidated configuration
+   * @param configPath Path of the configuration file, used in warnings
+   * @returns Configuration without deprecated top-level options
+   */
+  private static migrateLegacyKeys(rawConfig: unknown, configPath: string): unknown {
+    if (typeof rawConfig !== 'object' || rawConfig === null || Array.isArray(rawConfig)) {
+      return rawConfig;
+    }
+
+    const config: Record<string, any> = { ...rawConfig };
+    Object.entries(LEGACY_KEYS)
+      .filter(([legacyKey]) => legacyKey in config)
+      .forEach(([legacyKey, [section, key]]) => {
+        console.warn(`⚠️  ${configPath}: "${legacyKey}" is deprecated, use "${section}.${key}" instead`);
+        config[section] = { [key]: config[legacyKey], ...config[section] };
+        delete config[legacyKey];
+      });
+
+    return config;
+  }
+
+  /**
+   * Resolve relative plugin module paths against the configuration file's directory
+   * @param config Parsed configuration
+   * @param configPath Path of the configuration file
+   * @returns Configuration with absolute plugin module paths
+   */
+  private static resolvePluginPaths(config: GeneratorConfig, configPath: string): GeneratorConfig {
+    if (!config.plugins) {
+      return config;
     }
+
+    const configDir = path.dirname(path.resolve(process.cwd(), configPath));
+    const resolve = (moduleId: string) =>
+      moduleId.startsWith('.') ? path.resolve(configDir, moduleId) : moduleId;
+
+    return {
+      ...config,
+      plugins: config.plugins.map(plugin => {
+        if (typeof plugin === 'string') return resolve(plugin);
+        if (Array.isArray(plugin)) return [resolve(plugin[0]), plugin[1]];
+        return plugin;
+      })
+    };
+  }
+
+  /**
+   * Build the ordered list of configuration file candidates
+   * @param configPath Optional path to configuration file
+   * @returns Candidate paths, the explicit path first
+   */
+  private static getSearchPaths(configPath?: string): string[] {
+    if (configPath) {
+      return [configPath];
+    }
+
+    return [
+      './appwrite-types.config.ts',
+      './appwrite-types.config.mjs',
+      './appwrite-types.config.js',
+      './appwrite-types.config.json',
+      './appwrite-types.json',
+      './types-generator.config.json'
+    ];
   }
 
   /**
@@ -64,7 +351,7 @@ export class ConfigManager {
    * @param config Partial configuration object
    * @returns Fully validated configuration
    */
-  static validateConfig(config: Partial<GeneratorConfig>): GeneratorConfig {
+  static validateConfig(config: UserConfig): GeneratorConfig {
     return ConfigSchema.parse(config);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,130 @@
+// src/diff/schema-differ.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SchemaDiffer } from './schema-differ.js';
+import { AppwriteAttribute, AppwriteCollection } from '../generator/type-converters.js';
+
+/**
+ * Builds a collection of the `main` database
+ * @param $id - Collection ID
+ * @param attributes - Attributes of the collection
+ * @returns Collection
+ */
+function collection($id: string, attributes: AppwriteAttribute[]): AppwriteCollection {
+  return { $id, databaseId: 'main', name: $id, attributes, indexes: [] };
+}
+
+/**
+ * Builds an attribute
+ * @param key - Attribute key
+ * @param overrides - Attribute settings
+ * @returns Optional single string attribute with the overrides applied
+ */
+function attribute(key: string, overrides: Partial<AppwriteAttribute> = {}): AppwriteAttribute {
+  return { key, type: 'string', required: false, array: false, ...overrides };
+}
+
+/**
+ * Diffs two versions of a `posts` collection
+ * @param oldAttributes - Previous attributes
+ * @param newAttributes - New attributes
+ * @returns Kind and breaking flag of each change
+ */
+function classify(oldAttributes: AppwriteAttribute[], newAttributes: AppwriteAttribute[]) {
+  return SchemaDiffer.diff([collection('posts', oldAttributes)], [collection('posts', newAttributes)])
+    .changes.map(({ kind, breaking }) => ({ kind, breaking }));
+}
+
+describe('SchemaDiffer.diff', () => {
+  test('reports no changes for identical schemas', () => {
+    const posts = collection('posts', [attribute('title')]);
+
+    assert.deepEqual(SchemaDiffer.diff([posts], [posts]), { breaking: false, changes: [] });
+  });
+
+  test('treats removed collections as breaking and added ones as not', () => {
+    const diff = SchemaDiffer.diff([collection('posts', [])], [collection('users', [])]);
+
+    assert.equal(diff.breaking, true);
+    assert.deepEqual(diff.changes.map(({ kind, breaking, collection }) => ({ kind, breaking, collection })), [
+      { kind: 'collection-removed', breaking: true, collection: 'posts' },
+      { kind: 'collection-added', breaking: false, collection: 'users' }
+    ]);
+  });
+
+  test('matches collections by database as well as ID', () => {
+    const analytics = { ...collection('posts', []), databaseId: 'analytics' };
+
+    assert.deepEqual(
+      SchemaDiffer.diff([collection('posts', [])], [analytics]).changes.map(change => change.kind),
+      ['collection-removed', 'collection-added']
+    );
+  });
+
+  test('treats only new required attributes as breaking', () => {
+    assert.deepEqual(classify([], [attribute('title', { required: true }), attribute('subtitle')]), [
+      { kind: 'attribute-added', breaking: true },
+      { kind: 'attribute-added', breaking: false }
+    ]);
+  });
+
+  test('treats removed attributes and changed types, requirements and arrays as breaking', () => {
+    assert.deepEqual(classify([attribute('title')], []), [{ kind: 'attribute-removed', breaking: true }]);
+    assert.deepEqual(classify([attribute('count')], [attribute('count', { type: 'integer' })]), [
+      { kind: 'attribute-type-changed', breaking: true }
+    ]);
+    assert.deepEqual(classify([attribute('title')], [attribute('title', { required: true, array: true })]), [
+      { kind: 'attribute-required-changed', breaking: true },
+      { kind: 'attribute-array-changed', breaking: true }
+    ]);
+  });
+
+  test('treats removed enum values as breaking and added ones as not', () => {
+    const status = (elements: string[]) => attribute('status', { format: 'enum', elements });
+
+    assert.deepEqual(classify([status(['draft', 'live'])], [status(['draft', 'archived'])]), [
+      { kind: 'enum-values-removed', breaking: true },
+      { kind: 'enum-values-added', breaking: false }
+    ]);
+  });
+
+  test('treats a string becoming an enum as a type change', () => {
+    assert.deepEqual(classify([attribute('status')], [attribute('status', { format: 'enum', elements: ['draft'] })]), [
+      { kind: 'attribute-type-changed', breaking: true }
+    ]);
+  });
+
+  test('treats relationship changes as breaking except for onDelete', () => {
+    const author = (overrides: Partial<AppwriteAttribute>) => attribute('author', {
+      type: 'relationship',
+      relatedCollection: 'users',
+      relationType: 'manyToOne',
+      side: 'parent',
+      twoWay: false,
+      onDelete: 'restrict',
+      ...overrides
+    });
+
+    assert.deepEqual(classify([author({})], [author({ relationType: 'manyToMany' })]), [
+      { kind: 'relationship-changed', breaking: true }
+    ]);
+    assert.deepEqual(classify([author({})], [author({ onDelete: 'cascade' })]), [
+      { kind: 'relationship-changed', breaking: false }
+    ]);
+  });
+});
+
+describe('SchemaDiffer.formatReport', () => {
+  test('groups breaking and non-breaking changes', () => {
+    const diff = SchemaDiffer.diff(
+      [collection('posts', [attribute('title')])],
+      [collection('posts', [attribute('subtitle')])]
+    );
+
+    assert.equal(
+      SchemaDiffer.formatReport(diff),
+      'Breaking changes (1):\n  ✖ Attribute "posts.title" was removed\n\n' +
+      'Non-breaking changes (1):\n  ✔ Optional attribute "posts.subtitle" was added'
+    );
+  });
+});
@@ -0,0 +1,286 @@
+// src/diff/schema-differ.ts
+import { AppwriteAttribute, AppwriteCollection } from '../generator/type-converters.js';
+
+/**
+ * Kinds of changes detected between two schemas
+ */
+export type SchemaChangeKind =
+  | 'collection-added'
+  | 'collection-removed'
+  | 'attribute-added'
+  | 'attribute-removed'
+  | 'attribute-type-changed'
+  | 'attribute-required-changed'
+  | 'attribute-array-changed'
+  | 'enum-values-added'
+  | 'enum-values-removed'
+  | 'relationship-changed';
+
+/**
+ * Represents a single change between two schemas
+ */
+export interface SchemaChange {
+  /** Kind of change */
+  kind: SchemaChangeKind;
+
+  /** Whether the change breaks consumers of the generated types */
+  breaking: boolean;
+
+  /** Database the affected collection belongs to */
+  databaseId: string;
+
+  /** Name of the affected collection */
+  collection: string;
+
+  /** Key of the affected attribute, if any */
+  attribute?: string;
+
+  /** Human-readable description of the change */
+  message: string;
+}
+
+/**
+ * Result of comparing two schemas
+ */
+export interface SchemaDiff {
+  /** Whether any change is breaking */
+  breaking: boolean;
+
+  /** All detected changes */
+  changes: SchemaChange[];
+}
+
+/**
+ * Schema comparison utility
+ * Classifies changes between two Appwrite schemas as breaking or non-breaking
+ */
+export class SchemaDiffer {
+  /** Relationship properties whose change alters the generated types */
+  private static RELATIONSHIP_FIELDS: Array<keyof AppwriteAttribute> = [
+    'relatedCollection',
+    'relationType',
+    'side',
+    'twoWay',
+    'twoWayKey'
+  ];
+
+  /**
+   * Compares two sets of collections
+   *
+   * @param oldCollections - Collections of the previous schema
+   * @param newCollections - Collections of the new schema
+   * @returns Detected changes and whether any of them is breaking
+   */
+  static diff(
+    oldCollections: AppwriteCollection[],
+    newCollections: AppwriteCollection[]
+  ): SchemaDiff {
+    const changes: SchemaChange[] = [];
+    const oldByKey = this.indexCollections(oldCollections);
+    const newByKey = this.indexCollections(newCollections);
+
+    oldByKey.forEach((oldCollection, key) => {
+      const newCollection = newByKey.get(key);
+
+      if (!newCollection) {
+        changes.push(this.createChange('collection-removed', true, oldCollection, undefined,
+          `Collection "${oldCollection.name}" was removed`));
+        return;
+      }
+
+      changes.push(...this.diffCollection(oldCollection, newCollection));
+    });
+
+    newByKey.forEach((newCollection, key) => {
+      if (!oldByKey.has(key)) {
+        changes.push(this.createChange('collection-added', false, newCollection, undefined,
+          `Collection "${newCollection.name}" was added`));
+      }
+    });
+
+    return {
+      breaking: changes.some(change => change.breaking),
+      changes
+    };
+  }
+
+  /**
+   * Formats a schema diff as a human-readable report
+   *
+   * @param diff - Schema diff to format
+   * @returns Report text
+   */
+  static formatReport(diff: SchemaDiff): string {
+    if (diff.changes.length === 0) {
+      return 'No schema changes detected';
+    }
+
+    const breaking = diff.changes.filter(change => change.breaking);
+    const nonBreaking = diff.changes.filter(change => !change.breaking);
+    const sections: string[] = [];
+
+    if (breaking.length > 0) {
+      sections.push(`Breaking changes (${breaking.length}):\n${breaking.map(change => `  ✖ ${change.message}`).join('\n')}`);
+    }
+
+    if (nonBreaking.length > 0) {
+      sections.push(`Non-breaking changes (${nonBreaking.length}):\n${nonBreaking.map(change => `  ✔ ${change.message}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Compares the attributes of a collection present in both schemas
+   *
+   * @param oldCollection - Collection in the previous schema
+   * @param newCollection - Collection in the new schema
+   * @returns Detected attribute changes
+   */
+  private static diffCollection(
+    oldCollection: AppwriteCollection,
+    newCollection: AppwriteCollection
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const newAttributes = new Map(newCollection.attributes.map(attr => [attr.key, attr]));
+    const oldKeys = new Set(oldCollection.attributes.map(attr => attr.key));
+    const name = newCollection.name;
+
+    oldCollection.attributes.forEach(oldAttr => {
+      const newAttr = newAttributes.get(oldAttr.key);
+
+      if (!newAttr) {
+        changes.push(this.createChange('attribute-removed', true, newCollection, oldAttr.key,
+          `Attribute "${name}.${oldAttr.key}" was removed`));
+        return;
+      }
+
+      changes.push(...this.diffAttribute(newCollection, oldAttr, newAttr));
+    });
+
+    newCollection.attributes
+      .filter(attr => !oldKeys.has(attr.key))
+      .forEach(attr => {
+        // New required attributes break code that creates documents
+        changes.push(this.createChange('attribute-added', attr.required, newCollection, attr.key,
+          `${attr.required ? 'Required' : 'Optional'} attribute "${name}.${attr.key}" was added`));
+      });
+
+    return changes;
+  }
+
+  /**
+   * Compares an attribute present in both schemas
+   *
+   * @param collection - Collection the attribute belongs to
+   * @param oldAttr - Attribute in the previous schema
+   * @param newAttr - Attribute in the new schema
+   * @returns Detected attribute changes
+   */
+  private static diffAttribute(
+    collection: AppwriteCollection,
+    oldAttr: AppwriteAttribute,
+    newAttr: AppwriteAttribute
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+    const path = `${collection.name}.${newAttr.key}`;
+
+    if (this.describeType(oldAttr) !== this.describeType(newAttr)) {
+      changes.push(this.createChange('attribute-type-changed', true, collection, newAttr.key,
+        `Attribute "${path}" changed type from ${this.describeType(oldAttr)} to ${this.describeType(newAttr)}`));
+    }
+
+    if (oldAttr.required !== newAttr.required) {
+      changes.push(this.createChange('attribute-required-changed', true, collection, newAttr.key,
+        `Attribute "${path}" became ${newAttr.required ? 'required' : 'optional'}`));
+    }
+
+    if (Boolean(oldAttr.array) !== Boolean(newAttr.array)) {
+      changes.push(this.createChange('attribute-array-changed', true, collection, newAttr.key,
+        `Attribute "${path}" ${newAttr.array ? 'became an array' : 'is no longer an array'}`));
+    }
+
+    if (oldAttr.format === 'enum' && newAttr.format === 'enum') {
+      const oldElements = oldAttr.elements ?? [];
+      const newElements = newAttr.elements ?? [];
+      const removed = oldElements.filter(element => !newElements.includes(element));
+      const added = newElements.filter(element => !oldElements.includes(element));
+
+      if (removed.length > 0) {
+        changes.push(this.createChange('enum-values-removed', true, collection, newAttr.key,
+          `Enum "${path}" lost values: ${removed.join(', ')}`));
+      }
+
+      if (added.length > 0) {
+        changes.push(this.createChange('enum-values-added', false, collection, newAttr.key,
+          `Enum "${path}" gained values: ${added.join(', ')}`));
+      }
+    }
+
+    if (oldAttr.type === 'relationship' && newAttr.type === 'relationship') {
+      const changedFields = this.RELATIONSHIP_FIELDS.filter(field => oldAttr[field] !== newAttr[field]);
+
+      if (changedFields.length > 0) {
+        const details = changedFields
+          .map(field => `${field} ${String(oldAttr[field])} → ${String(newAttr[field])}`)
+          .join(', ');
+        changes.push(this.createChange('relationship-changed', true, collection, newAttr.key,
+          `Relationship "${path}" changed: ${details}`));
+      }
+
+      if (oldAttr.onDelete !== newAttr.onDelete) {
+        changes.push(this.createChange('relationship-changed', false, collection, newAttr.key,
+          `Relationship "${path}" changed onDelete from ${oldAttr.onDelete} to ${newAttr.onDelete}`));
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Describes the base type of an attribute, treating enums as their own type
+   *
+   * @param attribute - Attribute to describe
+   * @returns Type description
+   */
+  private static describeType(attribute: AppwriteAttribute): string {
+    return attribute.format === 'enum' ? 'enum' : attribute.type;
+  }
+
+  /**
+   * Indexes collections by database and collection ID
+   *
+   * @param collections - Collections to index
+   * @returns Collections keyed by `databaseId/collectionId`
+   */
+  private static indexCollections(collections: AppwriteCollection[]): Map<string, AppwriteCollection> {
+    return new Map(collections.map(collection => [`${collection.databaseId}/${collection.$id}`, collection]));
+  }
+
+  /**
+   * Creates a schema change entry
+   *
+   * @param kind - Kind of change
+   * @param breaking - Whether the change is breaking
+   * @param collection - Affected collection
+   * @param attribute - Affected attribute key
+   * @param message - Human-readable description
+   * @returns Schema change entry
+   */
+  private static createChange(
+    kind: SchemaChangeKind,
+    breaking: boolean,
+    collection: AppwriteCollection,
+    attribute: string | undefined,
+    message: string
+  ): SchemaChange {
+    return {
+      kind,
+      breaking,
+      databaseId: collection.databaseId,
+      collection: collection.name,
+      ...(attribute ? { attribute } : {}),
+      message
+    };
+  }
+}
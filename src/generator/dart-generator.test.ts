@@ -0,0 +1,56 @@
+// src/generator/dart-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateModules } from '../testing/generated-code.js';
+import { BLOG_SCHEMA, MULTI_DATABASE_SCHEMA } from '../testing/fixtures.js';
+
+describe('Dart generation', () => {
+  test('emits a model class per collection with typed fields', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['dart'] });
+    const library = files['appwrite_models.dart'];
+
+    assert.match(library, /^class User \{$/m);
+    assert.match(library, /^  final String name;$/m);
+    assert.match(library, /^  final UserRole\? role;$/m);
+    assert.match(library, /^  final int\? age;$/m);
+    assert.match(library, /^  final double\? score;$/m);
+    assert.match(library, /^  final DateTime\? lastSeen;$/m);
+    assert.match(library, /^  final List<String>\? tags;$/m);
+    assert.match(library, /^  final List<Post>\? posts;$/m);
+    assert.match(library, /^  final User\? author;$/m);
+    assert.match(library, /^    required this\.title,$/m);
+    assert.match(library, /status: PostStatus\.fromValue\(map\['status'\] as String\),/);
+  });
+
+  test('emits enums and ID constant classes', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['dart'] });
+    const library = files['appwrite_models.dart'];
+
+    assert.match(library, /^enum UserRole \{\n  admin\('admin'\),\n  member\('member'\);$/m);
+    assert.match(library, /^  static const sendEmail = 'send-email';$/m);
+    assert.match(library, /^class CollectionIds \{$/m);
+  });
+
+  test('prefixes classes with the database when databases are namespaced', async () => {
+    const files = await generateModules(MULTI_DATABASE_SCHEMA, { targets: ['dart'] });
+    const library = files['appwrite_models.dart'];
+
+    assert.match(library, /^class MainUser \{$/m);
+    assert.match(library, /^class AnalyticsUser \{$/m);
+  });
+
+  test('omits metadata fields when disabled', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      targets: ['dart'],
+      dartConfig: { includeMetadata: false, outputPath: 'lib/models.dart' }
+    });
+
+    assert.doesNotMatch(files['lib/models.dart'], /\$createdAt/);
+  });
+
+  test('still accepts the deprecated generateDart option', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { dartConfig: { generateDart: true } });
+
+    assert.match(files['appwrite_models.dart'], /^class User \{$/m);
+  });
+});
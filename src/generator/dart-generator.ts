@@ -0,0 +1,425 @@
+// src/generator/dart-generator.ts
+import { TypeConverter, AppwriteAttribute, AppwriteCollection } from './type-converters.js';
+import { EnumGenerator } from './enum-generator.js';
+import { IDConstantsGenerator, IDConstantsGenerationConfig } from './id-constants-generator.js';
+import { GeneratedFile } from './module-linker.js';
+
+/**
+ * Configuration for Dart model generation
+ */
+export interface DartGenerationConfig {
+  /**
+   * Whether to emit Dart models for Flutter and Dart clients
+   * @deprecated Add `dart` to `targets` instead
+   */
+  generateDart?: boolean;
+
+  /** Path of the Dart library, relative to the output directory */
+  outputPath?: string;
+
+  /** Whether models include the `$id`, `$createdAt`, `$updatedAt` and `$permissions` metadata fields */
+  includeMetadata?: boolean;
+}
+
+/**
+ * A collection to emit a Dart model for
+ */
+export interface DartModelEntry {
+  /** Collection the model describes */
+  collection: AppwriteCollection;
+
+  /** Name of the model class */
+  className: string;
+
+  /** Prefix of the collection's enum names, set when databases are namespaced */
+  enumPrefix: string;
+}
+
+/**
+ * Dart model generation utility
+ * Generates immutable model classes with `fromMap`/`toMap`, enums and ID constant classes
+ */
+export class DartGenerator {
+  /** Default configuration for Dart model generation */
+  private static DEFAULT_CONFIG: Required<Omit<DartGenerationConfig, 'generateDart'>> = {
+    outputPath: 'appwrite_models.dart',
+    includeMetadata: true
+  };
+
+  /** First line of the generated library, marking files the generator owns */
+  static HEADER_TITLE = '// Auto-generated Appwrite models';
+
+  /** Dart types of Appwrite attribute types */
+  private static TYPE_MAP: Record<string, string> = {
+    string: 'String',
+    integer: 'int',
+    float: 'double',
+    boolean: 'bool',
+    datetime: 'DateTime'
+  };
+
+  /** Document metadata fields with their Dart types and descriptions */
+  private static METADATA_FIELDS: Array<[string, string, string]> = [
+    ['$id', 'String', 'Document ID'],
+    ['$createdAt', 'DateTime', 'Creation time of the document'],
+    ['$updatedAt', 'DateTime', 'Last update time of the document'],
+    ['$permissions', 'List<String>', 'Permissions of the document']
+  ];
+
+  /** Words that cannot be used as identifiers, and members every model or enum already has */
+  private static RESERVED_WORDS = new Set([
+    'abstract', 'as', 'assert', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+    'covariant', 'default', 'deferred', 'do', 'dynamic', 'else', 'enum', 'export', 'extends', 'extension',
+    'external', 'factory', 'false', 'final', 'finally', 'for', 'Function', 'get', 'hide', 'if', 'implements',
+    'import', 'in', 'interface', 'is', 'late', 'library', 'mixin', 'new', 'null', 'on', 'operator', 'part',
+    'required', 'rethrow', 'return', 'set', 'show', 'static', 'super', 'switch', 'sync', 'this', 'throw',
+    'true', 'try', 'typedef', 'var', 'void', 'while', 'with', 'yield',
+    'fromMap', 'toMap', 'fromValue', 'value', 'values', 'index', 'hashCode', 'runtimeType', 'toString', 'noSuchMethod'
+  ]);
+
+  /**
+   * Generates a Dart library with a model class per collection
+   *
+   * @param entries - Collections with their class and enum names
+   * @param inputConfig - Parsed Appwrite configuration, for the ID constants
+   * @param config - Optional configuration for Dart model generation
+   * @param idConstantsConfig - ID constant configuration deciding which ID classes are emitted
+   * @returns The generated library with its path relative to the output directory
+   */
+  static generateDartFiles(
+    entries: DartModelEntry[],
+    inputConfig: any,
+    config: DartGenerationConfig = {},
+    idConstantsConfig: IDConstantsGenerationConfig = {}
+  ): GeneratedFile[] {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const classNames = new Map(entries.map(entry => [
+      `${entry.collection.databaseId}/${entry.collection.$id}`,
+      entry.className
+    ]));
+    const resolveRelated = (entry: DartModelEntry, attribute: AppwriteAttribute) =>
+      classNames.get(`${entry.collection.databaseId}/${attribute.relatedCollection}`);
+
+    // Enums are keyed by name, so attributes sharing a name share an enum like in TypeScript
+    const enums = new Map<string, string[]>();
+    entries.forEach(entry => entry.collection.attributes
+      .filter(attr => attr.format === 'enum' && attr.elements?.length)
+      .forEach(attr => enums.set(this.enumName(entry, attr), attr.elements as string[])));
+
+    const sections = [
+      this.generateIdConstants(inputConfig, idConstantsConfig),
+      ...[...enums.entries()].map(([name, elements]) => this.generateEnum(name, elements)),
+      ...entries.map(entry => this.generateModel(entry, fullConfig, attribute => resolveRelated(entry, attribute)))
+    ];
+
+    return [{
+      path: fullConfig.outputPath,
+      content: `${this.HEADER_TITLE}
+// WARNING: This file is auto-generated. Do not modify manually.
+// ignore_for_file: type=lint
+${sections.filter(Boolean).join('')}`
+    }];
+  }
+
+  /**
+   * Generates the ID constant classes, mirroring the TypeScript ID constants
+   *
+   * @param inputConfig - Parsed Appwrite configuration
+   * @param config - ID constant configuration
+   * @returns Generated classes
+   */
+  private static generateIdConstants(inputConfig: any, config: IDConstantsGenerationConfig): string {
+    return IDConstantsGenerator.listResourceGroups(inputConfig, config)
+      .map(({ className, label, resources }) => {
+        const names = this.uniqueNames(resources.map(resource => this.toIdentifier(resource.name)));
+        const constants = resources
+          .map((resource, index) => `  /// ${label} ID for ${resource.name}
+  static const ${names[index]} = ${this.quote(resource.$id)};`)
+          .join('\n\n');
+
+        return `
+/// ${label} identifiers for the project
+class ${className} {
+  ${className}._();
+
+${constants}
+}
+`;
+      })
+      .join('');
+  }
+
+  /**
+   * Generates an enhanced enum for an enum attribute
+   *
+   * @param name - Enum name
+   * @param elements - Values stored in Appwrite
+   * @returns Generated enum
+   */
+  private static generateEnum(name: string, elements: string[]): string {
+    const members = this.uniqueNames(elements.map(element => this.toIdentifier(element)));
+
+    return `
+/// Values of ${name}
+enum ${name} {
+${elements.map((element, index) => `  ${members[index]}(${this.quote(element)})`).join(',\n')};
+
+  const ${name}(this.value);
+
+  /// Value stored in Appwrite
+  final String value;
+
+  /// Returns the member for a value stored in Appwrite
+  static ${name} fromValue(String value) => values.firstWhere(
+        (member) => member.value == value,
+        orElse: () => throw ArgumentError.value(value, 'value', 'Unknown ${name}'),
+      );
+}
+`;
+  }
+
+  /**
+   * Generates the model class of a collection
+   *
+   * @param entry - Collection with its class and enum names
+   * @param config - Dart model generation configuration
+   * @param resolveRelated - Returns the class of a relationship's related collection, if generated
+   * @returns Generated class
+   */
+  private static generateModel(
+    entry: DartModelEntry,
+    config: Required<Omit<DartGenerationConfig, 'generateDart'>>,
+    resolveRelated: (attribute: AppwriteAttribute) => string | undefined
+  ): string {
+    const { collection, className } = entry;
+    const fieldNames = this.uniqueNames(collection.attributes.map(attr => this.toIdentifier(attr.key)));
+
+    const metadata = config.includeMetadata
+      ? this.METADATA_FIELDS.map(([key, type, description]) => ({
+          name: key,
+          type: `${type}?`,
+          required: false,
+          doc: description,
+          read: type === 'DateTime'
+            ? `map[${this.quote(key)}] == null ? null : DateTime.parse(map[${this.quote(key)}] as String)`
+            : type === 'String'
+              ? `map[${this.quote(key)}] as String?`
+              : `(map[${this.quote(key)}] as List?)?.map((e) => e as String).toList()`
+        }))
+      : [];
+
+    const attributes = collection.attributes.map((attr, index) => {
+      const name = fieldNames[index];
+      const isArray = attr.type === 'relationship' ? TypeConverter.isManyRelationship(attr) : attr.array;
+      const related = attr.type === 'relationship' ? resolveRelated(attr) : undefined;
+      const elementType = attr.type === 'relationship'
+        ? related ?? 'Object'
+        : attr.format === 'enum' && attr.elements?.length
+          ? this.enumName(entry, attr)
+          : this.TYPE_MAP[attr.type] ?? 'Object';
+      const type = isArray ? `List<${elementType}>` : elementType;
+      // Relationships are only populated when selected, so they are always nullable
+      const required = attr.required && attr.type !== 'relationship';
+
+      return {
+        attr,
+        name,
+        type: required ? type : `${type}?`,
+        required,
+        doc: `${attr.key}${attr.required ? '' : ' (optional)'}`,
+        read: this.generateRead(attr, `map[${this.quote(attr.key)}]`, elementType, isArray, required, related),
+        write: this.generateWrite(attr, name, isArray, required, related, config.includeMetadata)
+      };
+    });
+
+    const fields = [...metadata, ...attributes];
+
+    return `
+/// Document of the ${collection.name} collection
+class ${className} {
+  const ${className}({
+${fields.map(field => `    ${field.required ? 'required ' : ''}this.${field.name},`).join('\n')}
+  });
+
+${fields.map(field => `  /// ${field.doc}
+  final ${field.type} ${field.name};`).join('\n\n')}
+
+  /// Creates the model from a document as returned by Appwrite
+  factory ${className}.fromMap(Map<String, dynamic> map) {
+    return ${className}(
+${fields.map(field => `      ${field.name}: ${field.read},`).join('\n')}
+    );
+  }
+
+  /// Converts the model to document data, without metadata
+  Map<String, dynamic> toMap() {
+    return {
+${attributes.map(field => `      ${this.quote(field.attr.key)}: ${field.write},`).join('\n')}
+    };
+  }
+}
+`;
+  }
+
+  /**
+   * Generates the expression reading an attribute from a document map
+   *
+   * @param attribute - Attribute to read
+   * @param source - Expression of the raw value
+   * @param elementType - Dart type of a single value
+   * @param isArray - Whether the attribute holds a list
+   * @param required - Whether the field is non-nullable
+   * @param related - Class of the related collection, for relationships
+   * @returns Dart expression
+   */
+  private static generateRead(
+    attribute: AppwriteAttribute,
+    source: string,
+    elementType: string,
+    isArray: boolean,
+    required: boolean,
+    related?: string
+  ): string {
+    if (attribute.type === 'relationship') {
+      // Unpopulated relationships hold document IDs, which are not models
+      if (!related) return source;
+      const fromMap = (value: string) => `${related}.fromMap(Map<String, dynamic>.from(${value}))`;
+      return isArray
+        ? `(${source} as List?)?.whereType<Map>().map((e) => ${fromMap('e')}).toList()`
+        : `${source} is Map ? ${fromMap(`${source} as Map`)} : null`;
+    }
+
+    const convert = (value: string) => {
+      switch (elementType) {
+        case 'int': return `(${value} as num).toInt()`;
+        case 'double': return `(${value} as num).toDouble()`;
+        case 'DateTime': return `DateTime.parse(${value} as String)`;
+        case 'String':
+        case 'bool':
+        case 'Object': return `${value} as ${elementType}`;
+        default: return `${elementType}.fromValue(${value} as String)`;
+      }
+    };
+
+    if (isArray) {
+      return `(${source} as List${required ? '' : '?'})${required ? '' : '?'}.map((e) => ${convert('e')}).toList()`;
+    }
+
+    if (required) {
+      return convert(source);
+    }
+
+    return ['String', 'bool', 'Object'].includes(elementType)
+      ? `${source} as ${elementType}?`
+      : `${source} == null ? null : ${convert(source)}`;
+  }
+
+  /**
+   * Generates the expression writing a field to document data
+   *
+   * @param attribute - Attribute to write
+   * @param name - Field name
+   * @param isArray - Whether the attribute holds a list
+   * @param required - Whether the field is non-nullable
+   * @param related - Class of the related collection, for relationships
+   * @param hasMetadata - Whether related models carry their `$id`
+   * @returns Dart expression
+   */
+  private static generateWrite(
+    attribute: AppwriteAttribute,
+    name: string,
+    isArray: boolean,
+    required: boolean,
+    related: string | undefined,
+    hasMetadata: boolean
+  ): string {
+    let convert: ((value: string, access: string) => string) | undefined;
+
+    if (attribute.type === 'relationship') {
+      if (!related) return name;
+      // Existing related documents are referenced by ID, new ones are created with the document
+      convert = hasMetadata
+        ? (value, access) => `${value}${access}$id ?? ${value}${access}toMap()`
+        : (value, access) => `${value}${access}toMap()`;
+    } else if (attribute.type === 'datetime') {
+      convert = (value, access) => `${value}${access}toIso8601String()`;
+    } else if (attribute.format === 'enum' && attribute.elements?.length) {
+      convert = (value, access) => `${value}${access}value`;
+    }
+
+    if (!convert) {
+      return name;
+    }
+
+    const access = required ? '.' : '?.';
+
+    return isArray
+      ? `${name}${access}map((e) => ${convert('e', '.')}).toList()`
+      : convert(name, access);
+  }
+
+  /**
+   * Names the enum of an enum attribute
+   *
+   * @param entry - Collection the attribute belongs to
+   * @param attribute - Enum attribute
+   * @returns Enum name
+   */
+  private static enumName(entry: DartModelEntry, attribute: AppwriteAttribute): string {
+    return `${entry.enumPrefix}${EnumGenerator.generateTypeName(entry.collection.name, attribute.key)}`;
+  }
+
+  /**
+   * Converts a name or value to a lowerCamelCase Dart identifier
+   *
+   * @param name - Name to convert
+   * @returns Identifier that is not a reserved word
+   */
+  private static toIdentifier(name: string): string {
+    const words = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean);
+
+    const identifier = words
+      .map((word, index) => index === 0
+        ? word.toLowerCase()
+        : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+      .join('') || 'value';
+
+    if (/^\d/.test(identifier)) return `$${identifier}`;
+    return this.RESERVED_WORDS.has(identifier) ? `${identifier}Value` : identifier;
+  }
+
+  /**
+   * Makes identifiers unique by numbering repeated ones
+   *
+   * @param names - Identifiers in order
+   * @returns Unique identifiers in the same order
+   */
+  private static uniqueNames(names: string[]): string[] {
+    const seen = new Map<string, number>();
+
+    return names.map(name => {
+      const count = (seen.get(name) ?? 0) + 1;
+      seen.set(name, count);
+      return count === 1 ? name : `${name}${count}`;
+    });
+  }
+
+  /**
+   * Formats a string as a single-quoted Dart string literal
+   * `$` is escaped as Dart interpolates it
+   *
+   * @param value - String to quote
+   * @returns String literal
+   */
+  private static quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\$/g, '\\$')}'`;
+  }
+}
@@ -0,0 +1,100 @@
+// src/generator/database-client-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/**
+ * Creates a stand-in for the `Databases` service that records its calls
+ * @param handlers - Implementations of the called methods
+ * @returns Fake service and the recorded calls
+ */
+function fakeDatabases(handlers: Record<string, (...args: any[]) => unknown>) {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+  const databases = new Proxy({}, {
+    get: (_, method: string) => async (...args: unknown[]) => {
+      calls.push({ method, args });
+      return handlers[method]?.(...args);
+    }
+  });
+  return { databases, calls };
+}
+
+describe('Database client generation', () => {
+  test('emits a repository per collection that compiles with both SDKs', async () => {
+    for (const sdkPackage of ['appwrite', 'node-appwrite'] as const) {
+      const output = await generateTypes(BLOG_SCHEMA, { clientConfig: { generateClient: true, sdkPackage } });
+
+      assert.match(output, new RegExp(`from '${sdkPackage}';`));
+      assert.match(output, /export class UserRepository \{/);
+      assert.match(output, /export class PostRepository \{/);
+      assert.deepEqual(typeCheck({ 'types.ts': output }), [], sdkPackage);
+    }
+  });
+
+  test('types repository payloads with the Create and Update types when enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, {
+      clientConfig: { generateClient: true },
+      interfaceConfig: { generateCreateTypes: true, generateUpdateTypes: true }
+    });
+    const usage = `
+import { Client, Databases } from 'appwrite';
+import { PostRepository } from './types.js';
+
+const posts = new PostRepository(new Databases(new Client()));
+
+export async function publish(authorId: string): Promise<void> {
+  const post = await posts.create({ title: 'Hello', status: 'draft', author: authorId });
+  await posts.update(post.$id, { status: 'live' });
+  // @ts-expect-error required attributes cannot be left out
+  await posts.create({ title: 'Hello' });
+}
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('calls the Databases service with the database and collection IDs', async () => {
+    const { UserRepository } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { clientConfig: { generateClient: true } })
+    );
+    const { databases, calls } = fakeDatabases({ getDocument: () => ({ $id: 'ada' }) });
+
+    const user = await new UserRepository(databases).get('ada');
+
+    assert.deepEqual(user, { $id: 'ada' });
+    assert.deepEqual(calls, [{ method: 'getDocument', args: ['main', 'users', 'ada', undefined] }]);
+  });
+
+  test('creates the document when upserting a missing one', async () => {
+    const { UserRepository } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { clientConfig: { generateClient: true } })
+    );
+    const { databases, calls } = fakeDatabases({
+      updateDocument: () => { throw Object.assign(new Error('Document not found'), { code: 404 }); },
+      createDocument: (_database, _collection, $id, data) => ({ $id, ...data })
+    });
+
+    const user = await new UserRepository(databases).upsert('ada', { name: 'Ada' });
+
+    assert.deepEqual(user, { $id: 'ada', name: 'Ada' });
+    assert.deepEqual(calls.map(call => call.method), ['updateDocument', 'createDocument']);
+  });
+
+  test('iterates over all pages with a cursor', async () => {
+    const { PostRepository } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { clientConfig: { generateClient: true } })
+    );
+    const pages = [[{ $id: 'a' }, { $id: 'b' }], [{ $id: 'c' }]];
+    const { databases, calls } = fakeDatabases({ listDocuments: () => ({ total: 3, documents: pages.shift() }) });
+
+    const ids: string[] = [];
+    for await (const post of new PostRepository(databases).iterate([], 2)) {
+      ids.push(post.$id);
+    }
+
+    assert.deepEqual(ids, ['a', 'b', 'c']);
+    assert.equal(calls.length, 2);
+    assert.ok((calls[1].args[2] as string[]).some(query => query.includes('cursorAfter') && query.includes('"b"')));
+  });
+});
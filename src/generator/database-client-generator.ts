@@ -0,0 +1,213 @@
+// src/generator/database-client-generator.ts
+import { AppwriteAttribute, GenerationScope } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for typed database client generation
+ */
+export interface DatabaseClientGenerationConfig {
+  /** Whether to generate a typed repository per collection */
+  generateClient?: boolean;
+
+  /** Appwrite SDK package the generated code imports from */
+  sdkPackage?: 'appwrite' | 'node-appwrite';
+
+  /** Suffix to add to generated repository class names */
+  repositorySuffix?: string;
+
+  /** Default page size used when iterating over all documents */
+  pageSize?: number;
+}
+
+/**
+ * Typed database client generation utility
+ * Generates repository classes wrapping the Appwrite `Databases` service
+ */
+export class DatabaseClientGenerator {
+  /** Default configuration for database client generation */
+  private static DEFAULT_CONFIG: Required<DatabaseClientGenerationConfig> = {
+    generateClient: false,
+    sdkPackage: 'appwrite',
+    repositorySuffix: 'Repository',
+    pageSize: 100
+  };
+
+  /**
+   * Generates typed repositories for Appwrite collections
+   *
+   * @param collections - Collections to generate repositories for
+   * @param config - Optional configuration for client generation
+   * @param interfaceConfig - Interface configuration used to reference generated interfaces
+   * @param scope - Whether to emit the shared helper types
+   * @returns Generated repository definitions
+   */
+  static generateClient(
+    collections: Array<{
+      $id: string;
+      databaseId: string;
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: DatabaseClientGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {},
+    scope: GenerationScope = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const repositories = collections
+      .map(collection => this.generateRepository(collection, fullConfig, interfaceConfig))
+      .join('\n');
+
+    return scope.includeSharedHelpers === false
+      ? repositories
+      : `${this.generateHelperTypes()}
+${repositories}`;
+  }
+
+  /**
+   * Generates helper types shared by all repositories
+   *
+   * @returns Helper type definitions
+   */
+  static generateHelperTypes(): string {
+    return `
+/** Document attributes without Appwrite metadata fields */
+export type DocumentData<T> = Omit<T, '$id' | '$createdAt' | '$updatedAt' | '$databaseId' | '$collectionId' | '$permissions'>;
+`;
+  }
+
+  /**
+   * Generates a repository class for a specific collection
+   *
+   * @param collection - Collection to generate a repository for
+   * @param config - Database client generation configuration
+   * @param interfaceConfig - Interface generation configuration
+   * @returns Generated repository definition
+   */
+  private static generateRepository(
+    collection: {
+      $id: string;
+      databaseId: string;
+      name: string;
+    },
+    config: Required<DatabaseClientGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    const interfaceName = InterfaceGenerator.generateInterfaceName(
+      collection.name,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    );
+    const documentType = `${interfaceName} & Models.Document`;
+    const dataType = `DocumentData<${interfaceName}>`;
+    // Payload types reference relationships by document ID, which the SDK's document typing does not model
+    const createType = interfaceConfig.generateCreateTypes ? `${interfaceName}Create` : dataType;
+    const updateType = interfaceConfig.generateUpdateTypes ? `${interfaceName}Update` : `Partial<${createType}>`;
+    const createData = createType === dataType ? 'data' : `data as unknown as ${dataType}`;
+    const updateData = updateType === `Partial<${dataType}>` ? 'data' : `data as unknown as Partial<${dataType}>`;
+    const permissionsType = `${interfaceConfig.permissionType ?? 'string'}[]`;
+
+    return `
+/**
+ * Typed repository for the ${collection.name} collection
+ */
+export class ${interfaceName}${config.repositorySuffix} {
+  /** Database the collection belongs to */
+  readonly databaseId = '${collection.databaseId}';
+
+  /** Collection identifier */
+  readonly collectionId = '${collection.$id}';
+
+  constructor(private readonly databases: Databases) {}
+
+  /** Fetches a single document by ID */
+  get(documentId: string, queries?: string[]): Promise<${documentType}> {
+    return this.databases.getDocument<${documentType}>(
+      this.databaseId,
+      this.collectionId,
+      documentId,
+      queries
+    );
+  }
+
+  /** Lists documents matching the given queries */
+  list(queries?: string[]): Promise<Models.DocumentList<${documentType}>> {
+    return this.databases.listDocuments<${documentType}>(
+      this.databaseId,
+      this.collectionId,
+      queries
+    );
+  }
+
+  /** Creates a new document */
+  create(data: ${createType}, documentId: string = ID.unique(), permissions?: ${permissionsType}): Promise<${documentType}> {
+    return this.databases.createDocument<${documentType}>(
+      this.databaseId,
+      this.collectionId,
+      documentId,
+      ${createData},
+      permissions
+    );
+  }
+
+  /** Updates an existing document */
+  update(documentId: string, data: ${updateType}, permissions?: ${permissionsType}): Promise<${documentType}> {
+    return this.databases.updateDocument<${documentType}>(
+      this.databaseId,
+      this.collectionId,
+      documentId,
+      ${updateData},
+      permissions
+    );
+  }
+
+  /** Deletes a document */
+  async delete(documentId: string): Promise<void> {
+    await this.databases.deleteDocument(
+      this.databaseId,
+      this.collectionId,
+      documentId
+    );
+  }
+
+  /** Updates a document, creating it when it does not exist yet */
+  async upsert(documentId: string, data: ${createType}, permissions?: ${permissionsType}): Promise<${documentType}> {
+    try {
+      return await this.databases.updateDocument<${documentType}>(
+        this.databaseId,
+        this.collectionId,
+        documentId,
+        ${createData === 'data' ? 'data' : `data as unknown as Partial<${dataType}>`},
+        permissions
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code !== 404) throw error;
+      return this.create(data, documentId, permissions);
+    }
+  }
+
+  /** Iterates over every matching document using cursor pagination */
+  async *iterate(queries: string[] = [], pageSize: number = ${config.pageSize}): AsyncGenerator<${documentType}> {
+    let cursor: string | undefined;
+
+    while (true) {
+      const page = await this.list([
+        ...queries,
+        Query.limit(pageSize),
+        ...(cursor ? [Query.cursorAfter(cursor)] : [])
+      ]);
+
+      yield* page.documents;
+
+      if (page.documents.length < pageSize) return;
+      cursor = page.documents[page.documents.length - 1].$id;
+    }
+  }
+}
+`;
+  }
+}
@@ -168,12 +168,13 @@ export type ${typeName}Type = ${unionType};
 
   /**
    * Generates a standardized type name
+   * Shared by the other output targets so enums are named the same everywhere
    * 
    * @param collectionName - Name of the collection
    * @param attributeName - Name of the attribute
    * @returns Formatted type name
    */
-  private static generateTypeName(
+  static generateTypeName(
     collectionName: string, 
     attributeName: string
   ): string {
@@ -0,0 +1,110 @@
+// src/generator/function-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/** Function configuration enabling every function output */
+const FUNCTION_CONFIG = {
+  functionConfig: {
+    generateFunctionTypes: true,
+    generateExecuteHelper: true,
+    generateHandlerTypes: true,
+    payloads: {
+      'send-email': { request: "{ to: User['email']; subject: string }", response: '{ sent: boolean }' }
+    }
+  }
+};
+
+describe('Function generation', () => {
+  test('emits function IDs by default and function metadata only when enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+    const { FUNCTION_IDS } = await importGenerated(output);
+
+    assert.deepEqual(FUNCTION_IDS, { SEND_EMAIL: 'send-email' });
+    assert.doesNotMatch(output, /FUNCTIONS|createFunctionExecutor/);
+  });
+
+  test('lists variable names without their values', async () => {
+    const { FUNCTIONS } = await importGenerated(await generateTypes(BLOG_SCHEMA, FUNCTION_CONFIG));
+
+    assert.deepEqual(FUNCTIONS['send-email'].variables, ['SMTP_HOST']);
+    assert.deepEqual(FUNCTIONS['send-email'].execute, ['users']);
+  });
+
+  for (const sdkPackage of ['appwrite', 'node-appwrite'] as const) {
+    test(`types payloads, the executor and handlers against ${sdkPackage}`, async () => {
+      const output = await generateTypes(BLOG_SCHEMA, { ...FUNCTION_CONFIG, clientConfig: { sdkPackage } });
+      const usage = `
+import { Client, Functions } from '${sdkPackage}';
+import { createFunctionExecutor, type FunctionEvent, type FunctionHandler } from './types.js';
+
+const executeFunction = createFunctionExecutor(new Functions(new Client()));
+
+export async function welcome(): Promise<boolean | undefined> {
+  const { data } = await executeFunction('send-email', { to: 'ada@example.com', subject: 'Welcome' });
+  // @ts-expect-error the request body is checked against the payload type
+  await executeFunction('send-email', { to: 'ada@example.com' });
+  return data?.sent;
+}
+
+export const event: FunctionEvent<'send-email'> = 'databases.main.collections.users.documents.*.create';
+
+export const handler: FunctionHandler<'send-email'> = async ({ req, res, log }) => {
+  log(req.bodyJson.subject);
+  return res.json({ sent: true });
+};
+`;
+
+      assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+    });
+  }
+
+  test('sends payloads as JSON and parses JSON responses', async () => {
+    const { createFunctionExecutor } = await importGenerated(await generateTypes(BLOG_SCHEMA, FUNCTION_CONFIG));
+    const calls: unknown[][] = [];
+    const functions = {
+      async createExecution(...args: unknown[]) {
+        calls.push(args);
+        return {
+          responseBody: '{"sent":true}',
+          responseHeaders: [{ name: 'Content-Type', value: 'application/json; charset=utf-8' }],
+          responseStatusCode: 200
+        };
+      }
+    };
+
+    const result = await createFunctionExecutor(functions)('send-email', { to: 'ada@example.com' }, { path: '/send' });
+
+    assert.deepEqual(calls, [[
+      'send-email',
+      '{"to":"ada@example.com"}',
+      false,
+      '/send',
+      undefined,
+      { 'content-type': 'application/json' }
+    ]]);
+    assert.deepEqual(result.data, { sent: true });
+    assert.equal(result.text, undefined);
+    assert.equal(result.status, 200);
+  });
+
+  test('returns responses that are not JSON as text', async () => {
+    const { createFunctionExecutor } = await importGenerated(await generateTypes(BLOG_SCHEMA, FUNCTION_CONFIG));
+    const executeWith = (responseBody: string, contentType: string) => createFunctionExecutor({
+      createExecution: async () => ({
+        responseBody,
+        responseHeaders: [{ name: 'content-type', value: contentType }],
+        responseStatusCode: 500
+      })
+    })('send-email', { to: 'ada@example.com' });
+
+    const plain = await executeWith('Internal error', 'text/plain');
+    assert.equal(plain.data, undefined);
+    assert.equal(plain.text, 'Internal error');
+
+    const malformed = await executeWith('{"sent":', 'application/json');
+    assert.equal(malformed.data, undefined);
+    assert.equal(malformed.text, '{"sent":');
+  });
+});
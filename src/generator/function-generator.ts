@@ -0,0 +1,318 @@
+// src/generator/function-generator.ts
+import { ConfigurationError } from '../utils/errors.js';
+
+/**
+ * Request and response body types of a function
+ * Both are TypeScript type expressions, e.g. `{ to: string }` or `Pick<User, 'email'>`
+ */
+export interface FunctionPayloadConfig {
+  /** Type of the JSON body the function receives */
+  request?: string;
+
+  /** Type of the JSON body the function responds with */
+  response?: string;
+}
+
+/**
+ * Configuration for Appwrite Functions generation
+ */
+export interface FunctionGenerationConfig {
+  /** Whether to generate the `FUNCTIONS` metadata map, `FunctionId`, `FunctionEvent` and `FunctionPayloads` types */
+  generateFunctionTypes?: boolean;
+
+  /** Whether to generate `createFunctionExecutor`, returning a typed `executeFunction`; implies function types */
+  generateExecuteHelper?: boolean;
+
+  /** Whether to generate `FunctionContext` and `FunctionHandler` types for function sources; implies function types */
+  generateHandlerTypes?: boolean;
+
+  /** Request and response body types, keyed by function ID */
+  payloads?: Record<string, FunctionPayloadConfig>;
+}
+
+/**
+ * A function as found in `appwrite.json`
+ */
+export interface AppwriteFunction {
+  $id: string;
+  name: string;
+  runtime?: string;
+  execute?: string[];
+  events?: string[];
+  schedule?: string;
+  timeout?: number;
+  enabled?: boolean;
+  vars?: Array<{ key: string }>;
+}
+
+/**
+ * Appwrite Functions generation utility
+ * Generates function metadata, payload types, a typed execution helper and handler context types
+ */
+export class FunctionGenerator {
+  /** Default configuration for function generation */
+  private static DEFAULT_CONFIG: Required<FunctionGenerationConfig> = {
+    generateFunctionTypes: false,
+    generateExecuteHelper: false,
+    generateHandlerTypes: false,
+    payloads: {}
+  };
+
+  /**
+   * Generates function definitions from Appwrite functions
+   *
+   * @param functions - Functions of the Appwrite configuration
+   * @param config - Optional configuration for function generation
+   * @param eventType - Generated event string type the function triggers are checked against, if any
+   * @returns Generated function definitions, empty when disabled or without functions
+   * @throws {ConfigurationError} If payload types are configured for an unknown function
+   */
+  static generateFunctionTypes(
+    functions: AppwriteFunction[],
+    config: FunctionGenerationConfig = {},
+    eventType?: string
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const enabled = fullConfig.generateFunctionTypes || fullConfig.generateExecuteHelper || fullConfig.generateHandlerTypes;
+    if (!enabled || functions.length === 0) {
+      return '';
+    }
+
+    const unknownIds = Object.keys(fullConfig.payloads)
+      .filter(functionId => !functions.some(fn => fn.$id === functionId));
+    if (unknownIds.length > 0) {
+      throw new ConfigurationError(`Payload types configured for unknown functions: ${unknownIds.join(', ')}`);
+    }
+
+    const sections = [this.generateMetadata(functions, eventType), this.generatePayloadTypes(functions, fullConfig.payloads)];
+
+    if (fullConfig.generateExecuteHelper) {
+      sections.push(this.generateExecuteHelper());
+    }
+
+    if (fullConfig.generateHandlerTypes) {
+      sections.push(this.generateHandlerTypes());
+    }
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Generates the function metadata map and the types derived from it
+   *
+   * @param functions - Functions to describe
+   * @param eventType - Event string type the triggers are checked against, if any
+   * @returns Generated metadata definitions
+   */
+  private static generateMetadata(functions: AppwriteFunction[], eventType?: string): string {
+    const quoteAll = (values: string[] = []) => values.map(value => this.quote(value)).join(', ');
+
+    const entries = functions.map(fn => `  /** ${fn.name} */
+  ${this.formatPropertyKey(fn.$id)}: {
+    id: ${this.quote(fn.$id)},
+    name: ${this.quote(fn.name)},
+    runtime: ${this.quote(fn.runtime ?? '')},
+    execute: [${quoteAll(fn.execute)}],
+    events: [${quoteAll(fn.events)}],
+    schedule: ${this.quote(fn.schedule ?? '')},
+    timeout: ${fn.timeout ?? 15},
+    enabled: ${fn.enabled ?? true},
+    variables: [${quoteAll((fn.vars ?? []).map(variable => variable.key))}],
+  },`).join('\n');
+
+    // Triggers naming unknown databases, collections, buckets or functions never fire, so they fail to compile
+    const triggerCheck = eventType ? ` satisfies Record<string, { events: readonly ${eventType}[]; [key: string]: unknown }>` : '';
+
+    return `
+/** Appwrite Functions of the project with their triggers, keyed by function ID */
+export const FUNCTIONS = {
+${entries}
+} as const${triggerCheck};
+
+/** ID of an Appwrite Function */
+export type FunctionId = keyof typeof FUNCTIONS;
+
+/** Events that trigger a function */
+export type FunctionEvent<F extends FunctionId> = (typeof FUNCTIONS)[F]['events'][number];
+
+/** Names of the variables configured for a function */
+export type FunctionVariable<F extends FunctionId> = (typeof FUNCTIONS)[F]['variables'][number];
+`;
+  }
+
+  /**
+   * Generates the request and response body types of every function
+   *
+   * @param functions - Functions to describe
+   * @param payloads - Configured body types, keyed by function ID
+   * @returns Generated payload interface
+   */
+  private static generatePayloadTypes(
+    functions: AppwriteFunction[],
+    payloads: Record<string, FunctionPayloadConfig>
+  ): string {
+    const entries = functions.map(fn => `  ${this.formatPropertyKey(fn.$id)}: {
+    request: ${payloads[fn.$id]?.request ?? 'unknown'};
+    response: ${payloads[fn.$id]?.response ?? 'unknown'};
+  };`).join('\n');
+
+    return `
+/** JSON request and response bodies of each function */
+export interface FunctionPayloads {
+${entries}
+}
+`;
+  }
+
+  /**
+   * Generates the typed execution helper
+   *
+   * @returns Generated helper definitions
+   */
+  private static generateExecuteHelper(): string {
+    return `
+/** Options of a function execution */
+export interface FunctionExecutionOptions {
+  /** Path the function is executed with */
+  path?: string;
+
+  /** HTTP method the function is executed with */
+  method?: ExecutionMethod;
+
+  /** Additional request headers */
+  headers?: Record<string, string>;
+}
+
+/** Result of a function execution */
+export interface FunctionExecutionResult<F extends FunctionId> {
+  /** Parsed response body, undefined when the function did not respond with JSON */
+  data: FunctionPayloads[F]['response'] | undefined;
+
+  /** Raw response body when the function responded with a body that is not JSON */
+  text: string | undefined;
+
+  /** HTTP status code the function responded with */
+  status: number;
+
+  /** The execution as returned by Appwrite */
+  execution: Models.Execution;
+}
+
+/**
+ * Creates a typed \`executeFunction\` bound to the Appwrite Functions service
+ * Payloads are sent as JSON; responses are parsed when their content type is JSON and returned as text otherwise
+ */
+export function createFunctionExecutor(functions: Functions) {
+  return async function executeFunction<F extends FunctionId>(
+    functionId: F,
+    payload: FunctionPayloads[F]['request'],
+    options: FunctionExecutionOptions = {}
+  ): Promise<FunctionExecutionResult<F>> {
+    const execution = await functions.createExecution(
+      functionId,
+      payload === undefined ? undefined : JSON.stringify(payload),
+      false,
+      options.path,
+      options.method,
+      { 'content-type': 'application/json', ...options.headers }
+    );
+
+    const body = execution.responseBody;
+    const mediaType = (execution.responseHeaders
+      .find(header => header.name.toLowerCase() === 'content-type')?.value ?? '')
+      .split(';')[0].trim().toLowerCase();
+    let data: FunctionPayloads[F]['response'] | undefined;
+    let text: string | undefined;
+
+    if (body && (mediaType === 'application/json' || mediaType.endsWith('+json'))) {
+      try {
+        data = JSON.parse(body);
+      } catch {
+        // Malformed JSON is still returned to the caller
+        text = body;
+      }
+    } else if (body) {
+      text = body;
+    }
+
+    return {
+      data,
+      text,
+      status: execution.responseStatusCode,
+      execution
+    };
+  };
+}
+`;
+  }
+
+  /**
+   * Generates the context types of function handlers
+   * They describe the \`{ req, res, log, error }\` context of the Appwrite runtimes
+   *
+   * @returns Generated context types
+   */
+  private static generateHandlerTypes(): string {
+    return `
+/** Request received by a function */
+export interface FunctionRequest<F extends FunctionId> {
+  bodyText: string;
+  bodyJson: FunctionPayloads[F]['request'];
+  headers: Record<string, string>;
+  method: string;
+  host: string;
+  scheme: string;
+  port: number;
+  path: string;
+  query: Record<string, string>;
+  queryString: string;
+  url: string;
+}
+
+/** Response helpers of a function */
+export interface FunctionResponse<F extends FunctionId> {
+  json(body: FunctionPayloads[F]['response'], statusCode?: number, headers?: Record<string, string>): unknown;
+  text(body: string, statusCode?: number, headers?: Record<string, string>): unknown;
+  binary(body: Uint8Array, statusCode?: number, headers?: Record<string, string>): unknown;
+  empty(): unknown;
+  redirect(url: string, statusCode?: number, headers?: Record<string, string>): unknown;
+}
+
+/** Context a function handler is invoked with */
+export interface FunctionContext<F extends FunctionId> {
+  req: FunctionRequest<F>;
+  res: FunctionResponse<F>;
+  log(message: unknown): void;
+  error(message: unknown): void;
+}
+
+/** Default export of a function's entrypoint */
+export type FunctionHandler<F extends FunctionId> = (context: FunctionContext<F>) => unknown;
+`;
+  }
+
+  /**
+   * Formats a function ID as an object property key, quoting it when it is not an identifier
+   *
+   * @param id - Function ID
+   * @returns Property key
+   */
+  private static formatPropertyKey(id: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(id) ? id : this.quote(id);
+  }
+
+  /**
+   * Formats a string as a single-quoted string literal
+   *
+   * @param value - String to quote
+   * @returns String literal
+   */
+  private static quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+}
@@ -0,0 +1,75 @@
+// src/generator/graphql-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateModules } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/**
+ * Extracts a type definition from an SDL document
+ * @param sdl - Schema definition language document
+ * @param header - Definition header, e.g. `type Post`
+ * @returns The definition up to its closing brace
+ */
+function definition(sdl: string, header: string): string | undefined {
+  return sdl.match(new RegExp(`^${header} \\{\\n[^}]*\\}`, 'm'))?.[0];
+}
+
+describe('GraphQL generation', () => {
+  test('emits an object type per collection following the Appwrite GraphQL API', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['graphql'] });
+
+    assert.equal(definition(files['schema.graphql'], 'type Post'), [
+      'type Post {',
+      '  _id: String!',
+      '  _collectionId: String!',
+      '  _databaseId: String!',
+      '  _createdAt: String!',
+      '  _updatedAt: String!',
+      '  _permissions: [String!]!',
+      '  title: String!',
+      '  status: PostStatus!',
+      '  views: Int',
+      '  author: User',
+      '}'
+    ].join('\n'));
+    assert.match(definition(files['schema.graphql'], 'type User') ?? '', /\n  tags: \[String!\]\n  posts: \[Post!\]\n/);
+  });
+
+  test('emits create and update inputs referencing related documents by ID', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['graphql'] });
+    const sdl = files['schema.graphql'];
+
+    assert.match(definition(sdl, 'input PostCreateInput') ?? '', /\n  title: String!\n[\s\S]*\n  author: ID\n/);
+    assert.match(definition(sdl, 'input UserUpdateInput') ?? '', /\n  name: String\n[\s\S]*\n  posts: \[ID!\]\n/);
+  });
+
+  test('replaces characters that are not valid in GraphQL names', async () => {
+    const schema = {
+      ...BLOG_SCHEMA,
+      collections: BLOG_SCHEMA.collections.map(collection => collection.$id === 'posts'
+        ? {
+            ...collection,
+            attributes: [
+              { key: 'first-name', type: 'string', size: 32, required: false, array: false },
+              { key: 'stage', type: 'string', format: 'enum', elements: ['in-progress', '2nd'], size: 16, required: true, array: false }
+            ]
+          }
+        : collection)
+    };
+    const files = await generateModules(schema, { targets: ['graphql'] });
+    const sdl = files['schema.graphql'];
+
+    assert.match(definition(sdl, 'type Post') ?? '', /\n  first_name: String\n/);
+    assert.match(sdl, /^  in_progress$/m);
+    assert.match(sdl, /^  _2nd$/m);
+  });
+
+  test('omits metadata and inputs when disabled', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      targets: ['graphql'],
+      graphqlConfig: { includeMetadata: false, generateInputTypes: false, outputPath: 'api.graphql' }
+    });
+
+    assert.doesNotMatch(files['api.graphql'], /_id|input /);
+  });
+});
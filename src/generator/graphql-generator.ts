@@ -0,0 +1,245 @@
+// src/generator/graphql-generator.ts
+import { TypeConverter, AppwriteAttribute, AppwriteCollection } from './type-converters.js';
+import { EnumGenerator } from './enum-generator.js';
+import { GeneratedFile } from './module-linker.js';
+
+/**
+ * Configuration for GraphQL SDL generation
+ */
+export interface GraphQLGenerationConfig {
+  /** Path of the SDL file, relative to the output directory */
+  outputPath?: string;
+
+  /** Whether types include the `_id`, `_createdAt`, `_updatedAt` and `_permissions` metadata fields */
+  includeMetadata?: boolean;
+
+  /** Whether to emit `XCreateInput` and `XUpdateInput` input types per collection */
+  generateInputTypes?: boolean;
+}
+
+/**
+ * A collection to emit GraphQL types for
+ */
+export interface GraphQLTypeEntry {
+  /** Collection the types describe */
+  collection: AppwriteCollection;
+
+  /** Name of the object type */
+  className: string;
+
+  /** Prefix of the collection's enum names, set when databases are namespaced */
+  enumPrefix: string;
+}
+
+/**
+ * GraphQL SDL generation utility
+ * Generates object, enum and input types following the naming of Appwrite's GraphQL API
+ */
+export class GraphQLGenerator {
+  /** Default configuration for GraphQL SDL generation */
+  private static DEFAULT_CONFIG: Required<GraphQLGenerationConfig> = {
+    outputPath: 'schema.graphql',
+    includeMetadata: true,
+    generateInputTypes: true
+  };
+
+  /** First line of the generated SDL file, marking files the generator owns */
+  static HEADER_TITLE = '# Auto-generated Appwrite schema';
+
+  /** GraphQL scalars of Appwrite attribute types; Appwrite's API exposes datetimes as strings */
+  private static SCALAR_MAP: Record<string, string> = {
+    string: 'String',
+    integer: 'Int',
+    float: 'Float',
+    boolean: 'Boolean',
+    datetime: 'String'
+  };
+
+  /** Document metadata fields, with `$` replaced by `_` like in Appwrite's GraphQL API */
+  private static METADATA_FIELDS: Array<[string, string]> = [
+    ['_id', 'String!'],
+    ['_collectionId', 'String!'],
+    ['_databaseId', 'String!'],
+    ['_createdAt', 'String!'],
+    ['_updatedAt', 'String!'],
+    ['_permissions', '[String!]!']
+  ];
+
+  /**
+   * Generates the SDL of all collections
+   *
+   * @param entries - Collections with their type and enum names
+   * @param config - Optional configuration for GraphQL SDL generation
+   * @returns The SDL file with its path relative to the output directory
+   */
+  static generateSchemaFiles(
+    entries: GraphQLTypeEntry[],
+    config: GraphQLGenerationConfig = {}
+  ): GeneratedFile[] {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const typeNames = new Map(entries.map(entry => [
+      `${entry.collection.databaseId}/${entry.collection.$id}`,
+      entry.className
+    ]));
+    const resolveRelated = (entry: GraphQLTypeEntry, attribute: AppwriteAttribute) =>
+      typeNames.get(`${entry.collection.databaseId}/${attribute.relatedCollection}`);
+
+    // Enums are keyed by name, so attributes sharing a name share an enum like in TypeScript
+    const enums = new Map<string, string[]>();
+    entries.forEach(entry => entry.collection.attributes
+      .filter(attr => attr.format === 'enum' && attr.elements?.length)
+      .forEach(attr => enums.set(this.enumName(entry, attr), attr.elements as string[])));
+
+    const sections = [
+      ...[...enums.entries()].map(([name, elements]) => this.generateEnum(name, elements)),
+      ...entries.map(entry => this.generateObjectType(entry, fullConfig, attribute => resolveRelated(entry, attribute))),
+      ...(fullConfig.generateInputTypes
+        ? entries.map(entry => this.generateInputTypes(entry))
+        : [])
+    ];
+
+    return [{
+      path: fullConfig.outputPath,
+      content: `${this.HEADER_TITLE}
+# WARNING: This file is auto-generated. Do not modify manually.
+${sections.join('')}`
+    }];
+  }
+
+  /**
+   * Generates the enum type of an enum attribute
+   * Values that are not valid GraphQL names are sanitized and document the value stored in Appwrite
+   *
+   * @param name - Enum name
+   * @param elements - Values stored in Appwrite
+   * @returns Generated enum
+   */
+  private static generateEnum(name: string, elements: string[]): string {
+    const values = elements.map(element => {
+      const value = this.toName(element);
+      return value === element ? `  ${value}` : `  "Stored as ${JSON.stringify(element).slice(1, -1)}"\n  ${value}`;
+    });
+
+    return `
+"""Values of ${name}"""
+enum ${name} {
+${values.join('\n')}
+}
+`;
+  }
+
+  /**
+   * Generates the object type of a collection
+   *
+   * @param entry - Collection with its type and enum names
+   * @param config - GraphQL SDL generation configuration
+   * @param resolveRelated - Returns the type of a relationship's related collection, if generated
+   * @returns Generated object type
+   */
+  private static generateObjectType(
+    entry: GraphQLTypeEntry,
+    config: Required<GraphQLGenerationConfig>,
+    resolveRelated: (attribute: AppwriteAttribute) => string | undefined
+  ): string {
+    const metadata = config.includeMetadata
+      ? this.METADATA_FIELDS.map(([name, type]) => `  ${name}: ${type}`)
+      : [];
+
+    const fields = entry.collection.attributes.map(attr => {
+      const related = attr.type === 'relationship' ? resolveRelated(attr) : undefined;
+      // Related documents are only populated when selected, so relationships are nullable
+      const type = this.generateType(entry, attr, related ?? 'String', attr.required && attr.type !== 'relationship');
+      return `  ${this.toName(attr.key)}: ${type}`;
+    });
+
+    return `
+"""Document of the ${entry.collection.name} collection"""
+type ${entry.className} {
+${[...metadata, ...fields].join('\n')}
+}
+`;
+  }
+
+  /**
+   * Generates the create and update input types of a collection
+   * Relationships are set by document ID
+   *
+   * @param entry - Collection with its type and enum names
+   * @returns Generated input types
+   */
+  private static generateInputTypes(entry: GraphQLTypeEntry): string {
+    const fields = (required: boolean) => entry.collection.attributes
+      .map(attr => `  ${this.toName(attr.key)}: ${this.generateType(entry, attr, 'ID', required && attr.required)}`)
+      .join('\n');
+
+    return `
+"""Data to create a document of the ${entry.collection.name} collection"""
+input ${entry.className}CreateInput {
+${fields(true)}
+}
+
+"""Data to update a document of the ${entry.collection.name} collection"""
+input ${entry.className}UpdateInput {
+${fields(false)}
+}
+`;
+  }
+
+  /**
+   * Generates the GraphQL type of an attribute
+   *
+   * @param entry - Collection the attribute belongs to
+   * @param attribute - Attribute to type
+   * @param relationshipType - Type of a related document, for relationships
+   * @param required - Whether the value is non-null
+   * @returns GraphQL type reference
+   */
+  private static generateType(
+    entry: GraphQLTypeEntry,
+    attribute: AppwriteAttribute,
+    relationshipType: string,
+    required: boolean
+  ): string {
+    let type: string;
+    let isArray = attribute.array;
+
+    if (attribute.type === 'relationship') {
+      type = relationshipType;
+      isArray = TypeConverter.isManyRelationship(attribute);
+    } else if (attribute.format === 'enum' && attribute.elements?.length) {
+      type = this.enumName(entry, attribute);
+    } else {
+      type = this.SCALAR_MAP[attribute.type] ?? 'String';
+    }
+
+    const reference = isArray ? `[${type}!]` : type;
+    return required ? `${reference}!` : reference;
+  }
+
+  /**
+   * Names the enum of an enum attribute
+   *
+   * @param entry - Collection the attribute belongs to
+   * @param attribute - Enum attribute
+   * @returns Enum name
+   */
+  private static enumName(entry: GraphQLTypeEntry, attribute: AppwriteAttribute): string {
+    return `${entry.enumPrefix}${EnumGenerator.generateTypeName(entry.collection.name, attribute.key)}`;
+  }
+
+  /**
+   * Converts a key or value to a valid GraphQL name
+   *
+   * @param value - Key or value to convert
+   * @returns Name matching `[_A-Za-z][_0-9A-Za-z]*`, never `true`, `false` or `null`
+   */
+  private static toName(value: string): string {
+    const name = value.replace(/[^_0-9A-Za-z]/g, '_').replace(/^(\d)/, '_$1') || '_';
+    return ['true', 'false', 'null'].includes(name) ? `${name}_` : name;
+  }
+}
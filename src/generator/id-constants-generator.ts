@@ -6,6 +6,12 @@ export interface IDConstantsGenerationConfig {
   generateDatabaseConstants?: boolean;
   /** If the Collection IDConstants should be Generated */
   generateCollectionConstants?: boolean;
+  /** If the storage Bucket IDConstants should be Generated */
+  generateBucketConstants?: boolean;
+  /** If the Function IDConstants should be Generated */
+  generateFunctionConstants?: boolean;
+  /** If the Team IDConstants should be Generated */
+  generateTeamConstants?: boolean;
   /** Prefix to add to generated constant names */
   constantPrefix?: string;
 
@@ -17,21 +23,42 @@ export interface IDConstantsGenerationConfig {
 
   /** Whether to include comments for each constant */
   includeComments?: boolean;
+
+  /** Whether to generate a nested `DATABASES` map grouping collection IDs by database */
+  generateNestedConstants?: boolean;
+}
+
+/**
+ * Resources of one kind that ID constants are generated for
+ */
+export interface IDResourceGroup {
+  /** Name of the constants class in other output targets, e.g. `DatabaseIds` */
+  className: string;
+
+  /** Resource kind used in comments */
+  label: string;
+
+  /** Resources with the names their constants are derived from */
+  resources: Array<{ $id: string; name: string }>;
 }
 
 /**
  * Comprehensive ID constants generation utility
- * Provides robust and flexible generation of database and collection ID constants
+ * Provides robust and flexible generation of database, collection, bucket, function and team ID constants
  */
 export class IDConstantsGenerator {
   /** Default configuration for ID constant generation */
   private static DEFAULT_CONFIG: Required<IDConstantsGenerationConfig> = {
     generateDatabaseConstants: true,
     generateCollectionConstants: true,
+    generateBucketConstants: true,
+    generateFunctionConstants: true,
+    generateTeamConstants: true,
     constantPrefix: '',
     constantSuffix: '',
     namingTransform: IDConstantsGenerator.defaultNamingTransform,
-    includeComments: true
+    includeComments: true,
+    generateNestedConstants: false
   };
 
   /**
@@ -54,30 +81,120 @@ export class IDConstantsGenerator {
     // Validate input configuration
     this.validateInputConfig(inputConfig);
 
+    const databases = inputConfig.databases || [];
+    const collections = inputConfig.collections || [];
+
     // Generate database ID constants
     const databaseConstants = this.generateDatabaseConstants(
-      inputConfig.databases || [], 
+      databases, 
       fullConfig
     );
 
     // Generate collection ID constants
     const collectionConstants = this.generateCollectionConstants(
-      inputConfig.collections || [], 
+      collections, 
+      databases,
       fullConfig
     );
 
+    const sections: string[] = [];
+
+    if (fullConfig.generateDatabaseConstants) {
+      sections.push(`/** Database identifiers for the project */
+export const DATABASE_IDS = {
+${databaseConstants}
+};`);
+    }
+
+    if (fullConfig.generateCollectionConstants) {
+      sections.push(`/** Collection identifiers for the project */
+export const COLLECTION_IDS = {
+${collectionConstants}
+};`);
+    }
+
+    const buckets = inputConfig.buckets || [];
+
+    if (fullConfig.generateBucketConstants && buckets.length > 0) {
+      sections.push(`/** Storage bucket identifiers for the project */
+export const BUCKET_IDS = {
+${this.generateResourceConstants(buckets, 'Bucket', fullConfig)}
+};`);
+    }
+
+    const functions = inputConfig.functions || [];
+
+    if (fullConfig.generateFunctionConstants && functions.length > 0) {
+      sections.push(`/** Function identifiers for the project */
+export const FUNCTION_IDS = {
+${this.generateResourceConstants(functions, 'Function', fullConfig)}
+};`);
+    }
+
+    const teams = inputConfig.teams || [];
+
+    if (fullConfig.generateTeamConstants && teams.length > 0) {
+      sections.push(`/** Team identifiers for the project */
+export const TEAM_IDS = {
+${this.generateResourceConstants(teams, 'Team', fullConfig)}
+};`);
+    }
+
+    if (fullConfig.generateNestedConstants) {
+      sections.push(this.generateNestedConstants(databases, collections, fullConfig));
+    }
+
     // Combine and format constants
-    return `
-      ${fullConfig.generateDatabaseConstants ?? `/** Database identifiers for the project */
-      export const DATABASE_IDS = {
-      ${databaseConstants}
-      };`}
-
-      ${fullConfig.generateCollectionConstants ?? `/** Collection identifiers for the project */
-      export const COLLECTION_IDS = {
-      ${collectionConstants}
-      };`}
-    `;
+    return `\n${sections.join('\n\n')}\n`;
+  }
+
+  /**
+   * Lists the resources ID constants are generated for, grouped by kind
+   * Shared by the other output targets so their constants mirror the TypeScript ones;
+   * collections sharing a name across databases are named after their database as well
+   * 
+   * @param inputConfig - Parsed Appwrite configuration
+   * @param config - Optional configuration for ID constant generation
+   * @returns Enabled, non-empty resource groups
+   */
+  static listResourceGroups(
+    inputConfig: any,
+    config: IDConstantsGenerationConfig = {}
+  ): IDResourceGroup[] {
+    // Merge provided config with default configuration
+    const fullConfig = { 
+      ...this.DEFAULT_CONFIG, 
+      ...config 
+    };
+
+    const databases: Array<{ $id: string; name: string }> = inputConfig.databases || [];
+    const collections: Array<{ $id: string; name: string; databaseId?: string }> = inputConfig.collections || [];
+
+    const nameCounts = new Map<string, number>();
+    collections.forEach(collection => {
+      nameCounts.set(collection.name, (nameCounts.get(collection.name) ?? 0) + 1);
+    });
+
+    const groups: Array<[boolean, IDResourceGroup]> = [
+      [fullConfig.generateDatabaseConstants, { className: 'DatabaseIds', label: 'Database', resources: databases }],
+      [fullConfig.generateCollectionConstants, {
+        className: 'CollectionIds',
+        label: 'Collection',
+        resources: collections.map(collection => ({
+          $id: collection.$id,
+          name: (nameCounts.get(collection.name) ?? 0) > 1
+            ? `${databases.find(db => db.$id === collection.databaseId)?.name ?? collection.databaseId} ${collection.name}`
+            : collection.name
+        }))
+      }],
+      [fullConfig.generateBucketConstants, { className: 'BucketIds', label: 'Storage bucket', resources: inputConfig.buckets || [] }],
+      [fullConfig.generateFunctionConstants, { className: 'FunctionIds', label: 'Function', resources: inputConfig.functions || [] }],
+      [fullConfig.generateTeamConstants, { className: 'TeamIds', label: 'Team', resources: inputConfig.teams || [] }]
+    ];
+
+    return groups
+      .filter(([enabled, group]) => enabled && group.resources.length > 0)
+      .map(([, group]) => group);
   }
 
   /**
@@ -124,18 +241,29 @@ export class IDConstantsGenerator {
   /**
    * Generates collection ID constants
    * 
+   * Collections sharing a name across databases are prefixed with their database name
+   * 
    * @param collections - Array of collection configurations
+   * @param databases - Array of database configurations
    * @param config - ID constants generation configuration
    * @returns Formatted collection ID constants
    */
   private static generateCollectionConstants(
-    collections: Array<{ $id: string; name: string }>, 
+    collections: Array<{ $id: string; name: string; databaseId?: string }>, 
+    databases: Array<{ $id: string; name: string }>,
     config: Required<IDConstantsGenerationConfig>
   ): string {
+    const nameCounts = new Map<string, number>();
+    collections.forEach(collection => {
+      nameCounts.set(collection.name, (nameCounts.get(collection.name) ?? 0) + 1);
+    });
+
     return collections
       .map(collection => {
+        const database = databases.find(db => db.$id === collection.databaseId);
+        const isDuplicate = (nameCounts.get(collection.name) ?? 0) > 1;
         const constantName = this.formatConstantName(
-          collection.name, 
+          isDuplicate ? `${database?.name ?? collection.databaseId}_${collection.name}` : collection.name, 
           config.constantPrefix, 
           config.constantSuffix,
           config.namingTransform
@@ -150,6 +278,100 @@ export class IDConstantsGenerator {
       .join('\n');
   }
 
+  /**
+   * Generates ID constants for project-level resources such as buckets, functions and teams
+   * 
+   * @param resources - Array of resource configurations
+   * @param label - Resource kind used in comments
+   * @param config - ID constants generation configuration
+   * @returns Formatted resource ID constants
+   */
+  private static generateResourceConstants(
+    resources: Array<{ $id: string; name: string }>, 
+    label: string,
+    config: Required<IDConstantsGenerationConfig>
+  ): string {
+    return resources
+      .map(resource => {
+        const constantName = this.formatConstantName(
+          resource.name, 
+          config.constantPrefix, 
+          config.constantSuffix,
+          config.namingTransform
+        );
+
+        const comment = config.includeComments 
+          ? `  /** ${label} ID for ${resource.name} */\n` 
+          : '';
+
+        return `${comment}  ${constantName}: '${resource.$id}',`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Generates a nested map of databases and their collection IDs
+   * 
+   * @param databases - Array of database configurations
+   * @param collections - Array of collection configurations
+   * @param config - ID constants generation configuration
+   * @returns Formatted nested ID map
+   */
+  private static generateNestedConstants(
+    databases: Array<{ $id: string; name: string }>, 
+    collections: Array<{ $id: string; name: string; databaseId?: string }>, 
+    config: Required<IDConstantsGenerationConfig>
+  ): string {
+    const entries = databases.map(db => {
+      const collectionEntries = collections
+        .filter(collection => collection.databaseId === db.$id)
+        .map(collection => {
+          const comment = config.includeComments 
+            ? `      /** Collection ID for ${collection.name} */\n` 
+            : '';
+          return `${comment}      ${this.formatPropertyName(collection.name)}: '${collection.$id}',`;
+        })
+        .join('\n');
+
+      const comment = config.includeComments 
+        ? `  /** Database ${db.name} and its collections */\n` 
+        : '';
+
+      return `${comment}  ${this.formatPropertyName(db.name)}: {
+    id: '${db.$id}',
+    collections: {
+${collectionEntries}
+    },
+  },`;
+    });
+
+    return `/** Databases of the project with their collection identifiers */
+export const DATABASES = {
+${entries.join('\n')}
+} as const;`;
+  }
+
+  /**
+   * Formats a name as a camelCase property key
+   * 
+   * @param name - Original name to transform
+   * @returns Formatted property name
+   */
+  private static formatPropertyName(name: string): string {
+    const words = name
+      .trim()
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean);
+
+    const propertyName = words
+      .map((word, index) => index === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+
+    return /^\d/.test(propertyName) ? `_${propertyName}` : propertyName;
+  }
+
   /**
    * Formats a constant name with optional prefix, suffix, and custom transformation
    * 
@@ -0,0 +1,121 @@
+// src/generator/index.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TypesGenerator } from './index.js';
+import { generateModules, generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA, MULTI_DATABASE_SCHEMA } from '../testing/fixtures.js';
+
+describe('TypesGenerator database grouping', () => {
+  test('wraps each database in a namespace when generated names collide', async () => {
+    const output = await generateTypes(MULTI_DATABASE_SCHEMA);
+    const usage = `
+import type { Main, Analytics } from './types.js';
+
+export const user: Main.User = { name: 'Ada', email: 'ada@example.com', active: true };
+export const visit: Analytics.User = { visits: 1, country: 'ch' };
+`;
+
+    assert.match(output, /export namespace Main \{/);
+    assert.match(output, /export namespace Analytics \{/);
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('emits database-independent helpers once, outside the namespaces', async () => {
+    const output = await generateTypes(MULTI_DATABASE_SCHEMA, { clientConfig: { generateClient: true } });
+    const usage = `
+import { Client, Databases } from 'appwrite';
+import { Main, type DocumentData } from './types.js';
+
+export const users = new Main.UserRepository(new Databases(new Client()));
+export const data: DocumentData<Main.User> = { name: 'Ada', email: 'ada@example.com', active: true };
+
+export function authorName(post: Main.Populated<'Post', 1>): string | undefined {
+  return post.author?.name;
+}
+`;
+
+    assert.equal(output.match(/export type DocumentData</g)?.length, 1);
+    assert.equal(output.match(/type PreviousDepth =/g)?.length, 1);
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('keeps a single database at the top level', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+
+    assert.doesNotMatch(output, /export namespace/);
+    assert.match(output, /^export interface User \{/m);
+  });
+
+  test('prefixes colliding collection IDs and groups them per database', async () => {
+    const output = await generateTypes(MULTI_DATABASE_SCHEMA, {
+      idConstantsConfig: { generateNestedConstants: true }
+    });
+    const { COLLECTION_IDS, DATABASES } = await importGenerated(output);
+
+    assert.deepEqual(COLLECTION_IDS, { MAIN_USERS: 'users', POSTS: 'posts', ANALYTICS_USERS: 'users' });
+    assert.deepEqual(DATABASES.analytics, { id: 'analytics', collections: { users: 'users' } });
+  });
+
+  test('generates only the included databases, matched by ID or name', async () => {
+    const output = await generateTypes(MULTI_DATABASE_SCHEMA, { databaseConfig: { include: ['Analytics'] } });
+    const { DATABASE_IDS, COLLECTION_IDS } = await importGenerated(output);
+
+    assert.deepEqual(DATABASE_IDS, { ANALYTICS: 'analytics' });
+    assert.deepEqual(COLLECTION_IDS, { USERS: 'users' });
+  });
+});
+
+describe('TypesGenerator multi-file output', () => {
+  test('emits modules that compile and are re-exported by the barrel', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { zodConfig: { generateSchemas: true } });
+    const usage = `
+import { COLLECTION_IDS, UserRole, type Post, type User } from './index.js';
+
+export const user: User = { name: 'Ada', email: 'ada@example.com', active: true, role: UserRole.ADMIN };
+export const post: Post = { title: 'Hello', status: 'draft', author: user };
+export const collectionId: string = COLLECTION_IDS.POSTS;
+`;
+
+    assert.ok(files['users.ts'] && files['posts.ts'] && files['index.ts']);
+    assert.deepEqual(typeCheck({ ...files, 'usage.ts': usage }), []);
+  });
+
+  test('gives each namespaced database its own directory next to the shared helpers', async () => {
+    const files = await generateModules(MULTI_DATABASE_SCHEMA, {
+      clientConfig: { generateClient: true },
+      queryConfig: { generateQueryBuilders: true }
+    });
+    const usage = `
+import { Main, Analytics } from './index.js';
+
+export const visit: Analytics.User = { visits: 1, country: 'ch' };
+export const post: Main.Post = { title: 'Hello', status: 'live' };
+export const query: string = Analytics.UserQuery.equal('country', ['ch', 'de']);
+`;
+
+    assert.ok(files['main/users.ts'] && files['analytics/users.ts']);
+    assert.match(files['shared.ts'], /export type DocumentData</);
+    assert.doesNotMatch(files['main/shared.ts'], /DocumentData/);
+    assert.deepEqual(typeCheck({ ...files, 'usage.ts': usage }), []);
+  });
+
+  test('recognizes the files of every output target as generated, so stale ones are cleaned up', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      jsonSchemaConfig: { generateJsonSchema: true },
+      targets: ['dart', 'python', 'graphql']
+    });
+
+    for (const extension of ['.ts', '.json', '.dart', '.py', '.graphql']) {
+      assert.ok(Object.keys(files).some(filePath => filePath.endsWith(extension)), extension);
+    }
+    for (const [filePath, content] of Object.entries(files)) {
+      assert.ok(TypesGenerator.isGeneratedFile(filePath, content), filePath);
+    }
+
+    // Files written by hand, or headers of another file type, are never touched
+    assert.equal(TypesGenerator.isGeneratedFile('helpers.ts', 'export const x = 1;\n'), false);
+    assert.equal(TypesGenerator.isGeneratedFile('users.schema.json', '{ "$schema": "https://json-schema.org/draft/2020-12/schema" }'), false);
+    assert.equal(TypesGenerator.isGeneratedFile('models.dart', '# Auto-generated Appwrite models\n'), false);
+    assert.equal(TypesGenerator.isGeneratedFile('notes.txt', files['index.ts']), false);
+  });
+});
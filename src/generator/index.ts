@@ -1,13 +1,37 @@
 // src/generator/index.ts
+import { createHash } from 'crypto';
+import * as path from 'path';
 import { FileSystemUtils } from '../utils/file-system.js';
-import { TypeConverter, AppwriteAttribute } from './type-converters.js';
+import { TypeConverter, AppwriteAttribute, AppwriteCollection, GenerationScope } from './type-converters.js';
 import { EnumGenerator, EnumGenerationConfig } from './enum-generator.js';
 import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
 import { 
   IDConstantsGenerator, 
   IDConstantsGenerationConfig 
 } from './id-constants-generator.js';
-import { GeneratorError } from '../utils/errors.js';
+import { ZodSchemaGenerator, ZodSchemaGenerationConfig } from './zod-schema-generator.js';
+import { TypeGuardGenerator, TypeGuardGenerationConfig } from './type-guard-generator.js';
+import {
+  DatabaseClientGenerator,
+  DatabaseClientGenerationConfig
+} from './database-client-generator.js';
+import {
+  QueryBuilderGenerator,
+  QueryBuilderGenerationConfig
+} from './query-builder-generator.js';
+import { MockFactoryGenerator, MockFactoryGenerationConfig } from './mock-factory-generator.js';
+import { JsonSchemaGenerator, JsonSchemaGenerationConfig } from './json-schema-generator.js';
+import { StorageGenerator, StorageGenerationConfig } from './storage-generator.js';
+import { FunctionGenerator, FunctionGenerationConfig } from './function-generator.js';
+import { PermissionGenerator, PermissionGenerationConfig } from './permission-generator.js';
+import { DartGenerator, DartGenerationConfig } from './dart-generator.js';
+import { PythonGenerator, PythonGenerationConfig } from './python-generator.js';
+import { GraphQLGenerator, GraphQLGenerationConfig } from './graphql-generator.js';
+import { RealtimeGenerator, RealtimeGenerationConfig, RealtimeCollectionEntry } from './realtime-generator.js';
+import { ModuleLinker, GeneratedFile, ExternalSymbol } from './module-linker.js';
+import { PluginManager, PluginSpecifier } from './plugins.js';
+import { SchemaPuller, SchemaPullConfig } from '../pull/schema-puller.js';
+import { GeneratorError, ConfigurationError } from '../utils/errors.js';
 
 /**
  * Comprehensive configuration for type generation
@@ -17,20 +41,100 @@ export interface TypeGeneratorConfig {
   /** Path to the input Appwrite configuration file */
   inputPath: string;
 
+  /** Pull the schema from an Appwrite server instead of reading `inputPath` */
+  pull?: SchemaPullConfig;
+
   /** Destination path for generated types */
   outputPath: string;
 
+  /**
+   * Directory to write one module per collection into, instead of a single `outputPath` file
+   * Shared enums, ID constants and helpers get their own modules next to an `index.ts` barrel
+   */
+  outputDir?: string;
+
   /** Configuration for enum generation */
   enumConfig?: EnumGenerationConfig;
 
   /** Configuration for interface generation */
-  interfaceConfig?: InterfaceGenerationConfig;
+  interfaceConfig?: Partial<InterfaceGenerationConfig>;
 
-  /** Additional custom transformations */
+  /** Additional custom transformations, applied to every file after plugins ran */
     transformers?: TypeTransformer[];
+
+  /** Plugins hooking into schema loading and file emission, or module paths exporting them */
+  plugins?: PluginSpecifier[];
     
      /** Configuration for ID constants generation */
   idConstantsConfig?: IDConstantsGenerationConfig;
+
+  /** Configuration for Zod schema generation */
+  zodConfig?: ZodSchemaGenerationConfig;
+
+  /** Configuration for runtime type guard generation */
+  typeGuardConfig?: TypeGuardGenerationConfig;
+
+  /** Configuration for typed database client generation */
+  clientConfig?: DatabaseClientGenerationConfig;
+
+  /** Configuration for type-safe query builder generation */
+  queryConfig?: QueryBuilderGenerationConfig;
+
+  /** Configuration for mock data factory generation */
+  mockConfig?: MockFactoryGenerationConfig;
+
+  /** Configuration for JSON Schema export */
+  jsonSchemaConfig?: JsonSchemaGenerationConfig;
+
+  /** Configuration for storage bucket metadata and upload checks */
+  storageConfig?: StorageGenerationConfig;
+
+  /** Configuration for Appwrite Functions metadata, payload types and execution helpers */
+  functionConfig?: FunctionGenerationConfig;
+
+  /** Configuration for permission and role types */
+  permissionConfig?: PermissionGenerationConfig;
+
+  /** Configuration for realtime channel and event types */
+  realtimeConfig?: RealtimeGenerationConfig;
+
+  /** Configuration for Dart model output */
+  dartConfig?: DartGenerationConfig;
+
+  /** Configuration for Python model output */
+  pythonConfig?: PythonGenerationConfig;
+
+  /** Configuration for GraphQL SDL output */
+  graphqlConfig?: GraphQLGenerationConfig;
+
+  /** Languages to emit models or schemas for next to the TypeScript types */
+  targets?: Array<'dart' | 'python' | 'graphql'>;
+
+  /** Configuration for multi-database handling */
+  databaseConfig?: DatabaseGroupingConfig;
+
+  /**
+   * Header written at the top of the generated file
+   * `hash` replaces the generation timestamp with a hash of the content, keeping output reproducible
+   */
+  headerStyle?: 'timestamp' | 'hash';
+}
+
+/**
+ * Configuration for grouping and filtering collections by database
+ */
+export interface DatabaseGroupingConfig {
+  /** Database IDs or names to generate types for; all databases when omitted */
+  include?: string[];
+
+  /** Database IDs or names to skip */
+  exclude?: string[];
+
+  /**
+   * Whether to wrap each database's types in a TypeScript namespace
+   * `auto` only uses namespaces when generated names collide across databases
+   */
+  namespaces?: 'auto' | 'always' | 'never';
 }
 
 /**
@@ -65,9 +169,80 @@ export class TypesGenerator {
         optionalMetadata: true,
         interfaceSuffix: '',
       interfacePrefix: ''
-    }
+    },
+    zodConfig: {
+      generateSchemas: false,
+      generateInferredTypes: true
+    },
+    typeGuardConfig: {
+      generateTypeGuards: false,
+      generateAttributeGuards: true
+    },
+    clientConfig: {
+      generateClient: false,
+      sdkPackage: 'appwrite'
+    },
+    queryConfig: {
+      generateQueryBuilders: false
+    },
+    mockConfig: {
+      generateMockFactories: false
+    },
+    jsonSchemaConfig: {
+      generateJsonSchema: false
+    },
+    storageConfig: {
+      generateBucketTypes: false,
+      generateUploadValidators: false
+    },
+    functionConfig: {
+      generateFunctionTypes: false,
+      generateExecuteHelper: false,
+      generateHandlerTypes: false
+    },
+    permissionConfig: {
+      generatePermissionTypes: false,
+      generateCollectionPermissions: false
+    },
+    realtimeConfig: {
+      generateRealtimeTypes: false,
+      generateSubscribeHelper: false
+    },
+    dartConfig: {},
+    pythonConfig: {
+      enumStyle: 'enum'
+    },
+    graphqlConfig: {
+      generateInputTypes: true
+    },
+    targets: [],
+    databaseConfig: {
+      namespaces: 'auto'
+    },
+    headerStyle: 'timestamp'
   };
 
+  /** First line of every generated file */
+  private static HEADER_TITLE = '// Auto-generated Appwrite Types';
+
+  /** Matches the timestamp line of the generated header */
+  private static TIMESTAMP_PATTERN = /^\/\/ Generated on .*$/m;
+
+  /** Languages models or schemas can be emitted for besides TypeScript */
+  private static OUTPUT_TARGETS = ['dart', 'python', 'graphql'];
+
+  /** Recognizes generated files by extension, from the header each output writes */
+  private static GENERATED_FILE_CHECKS: Record<string, (content: string) => boolean> = {
+    '.ts': content => content.startsWith(TypesGenerator.HEADER_TITLE),
+    '.json': content => JsonSchemaGenerator.isGeneratedDocument(content),
+    '.dart': content => content.startsWith(DartGenerator.HEADER_TITLE),
+    '.py': content => content.startsWith(PythonGenerator.HEADER_TITLE),
+    '.graphql': content => content.startsWith(GraphQLGenerator.HEADER_TITLE)
+  };
+
+  /** Module names reserved for shared output in multi-file mode */
+  private static RESERVED_MODULE_NAMES = ['index', 'enums', 'ids', 'shared', 'storage', 'functions', 'permissions', 'realtime'];
+
   /** Configuration for the current generation process */
   private config: Required<TypeGeneratorConfig>;
 
@@ -87,18 +262,89 @@ export class TypesGenerator {
       },
       interfaceConfig: {
         ...TypesGenerator.DEFAULT_CONFIG.interfaceConfig,
+        // Document permissions use the generated permission string type when available
+        ...(config.permissionConfig?.generatePermissionTypes && { permissionType: PermissionGenerator.PERMISSION_TYPE }),
         ...config.interfaceConfig
       },
         transformers: config.transformers || [],
+      plugins: config.plugins || [],
+      targets: TypesGenerator.resolveTargets(config),
       idConstantsConfig: {
       constantPrefix: '',
       constantSuffix: '',
       includeComments: true,
       ...config.idConstantsConfig
-    }
+    },
+      zodConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.zodConfig,
+        ...config.zodConfig
+      },
+      typeGuardConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.typeGuardConfig,
+        ...config.typeGuardConfig
+      },
+      clientConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.clientConfig,
+        ...config.clientConfig
+      },
+      queryConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.queryConfig,
+        ...config.queryConfig
+      },
+      mockConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.mockConfig,
+        ...config.mockConfig
+      },
+      jsonSchemaConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.jsonSchemaConfig,
+        ...config.jsonSchemaConfig
+      },
+      storageConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.storageConfig,
+        ...config.storageConfig
+      },
+      functionConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.functionConfig,
+        ...config.functionConfig
+      },
+      permissionConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.permissionConfig,
+        ...config.permissionConfig
+      },
+      realtimeConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.realtimeConfig,
+        ...config.realtimeConfig
+      },
+      dartConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.dartConfig,
+        ...config.dartConfig
+      },
+      pythonConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.pythonConfig,
+        ...config.pythonConfig
+      },
+      graphqlConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.graphqlConfig,
+        ...config.graphqlConfig
+      },
+      databaseConfig: {
+        ...TypesGenerator.DEFAULT_CONFIG.databaseConfig,
+        ...config.databaseConfig
+      }
     } as Required<TypeGeneratorConfig>;
   }
 
+  /**
+   * Resolves the output targets, honoring the deprecated `dartConfig.generateDart` alias of `dart`
+   * 
+   * @param config - Configuration for type generation
+   * @returns Targets without duplicates
+   */
+  private static resolveTargets(config: Partial<TypeGeneratorConfig>): Array<'dart' | 'python' | 'graphql'> {
+    const targets = config.targets || [];
+    return config.dartConfig?.generateDart && !targets.includes('dart') ? [...targets, 'dart'] : targets;
+  }
+
   /**
    * Generates TypeScript types from Appwrite configuration
    * 
@@ -106,34 +352,207 @@ export class TypesGenerator {
    * @throws {GeneratorError} For configuration or generation errors
    */
   async generate(): Promise<string> {
-  try {
-    // Validate input configuration
-    this.validateConfiguration();
+    const { files } = await this.generateOutput(false);
+    return files[0].content;
+  }
 
-    // Read Appwrite configuration
-    const inputConfig = await this.readInputConfiguration();
+  /**
+   * Generates all output files
+   * With `outputDir`, emits `enums.ts`, `ids.ts`, `shared.ts`, one module per collection and an
+   * `index.ts` barrel; otherwise a single file named after `outputPath`. Files added by plugins follow.
+   * 
+   * @returns Generated files with paths relative to `outputDir`, or to the directory of `outputPath`
+   * @throws {GeneratorError} For configuration or generation errors
+   */
+  async generateFiles(): Promise<GeneratedFile[]> {
+    const { files, outputFiles } = await this.generateOutput(Boolean(this.config.outputDir));
+    return [...files, ...outputFiles];
+  }
 
-    // Extract collections with processable attributes
-    const processableCollections = this.extractProcessableCollections(inputConfig);
+  /**
+   * Runs the generation pipeline
+   * Plugins see the schema first and each file before the custom transformers post-process it
+   * 
+   * @param splitModules - Whether to emit one module per collection instead of a single file
+   * @returns Generated files and files added by plugins
+   * @throws {GeneratorError} For configuration or generation errors
+   */
+  private async generateOutput(
+    splitModules: boolean
+  ): Promise<{ files: GeneratedFile[]; outputFiles: GeneratedFile[] }> {
+    try {
+      // Validate input configuration
+      this.validateConfiguration();
 
-    // Generate initial type content, passing both arguments
-    let generatedTypes = this.generateInitialTypes(
-      processableCollections, 
-      inputConfig  // Add this argument
+      const plugins = await PluginManager.load(this.config.plugins, this.config);
+
+      // Read Appwrite configuration and let plugins adjust the structured schema
+      const { inputConfig, collections } = await plugins.applySchemaHooks(await this.loadSchema());
+
+      const generatedFiles = splitModules
+        ? this.generateModuleLayout(collections, inputConfig)
+        : [{ 
+            path: path.basename(this.config.outputPath), 
+            content: this.generateInitialTypes(collections, inputConfig) 
+          }];
+
+      const files = (await plugins.applyEmitHooks(generatedFiles))
+        .map(file => {
+          // Custom transformers remain the final post-processing step
+          const content = this.formatGeneratedTypes(
+            this.applyCustomTransformations(file.content, collections, inputConfig)
+          );
+          return { path: file.path, content: this.generateHeader(content) + content };
+        })
+        .sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+      // JSON Schema documents are data, not TypeScript, and are written verbatim like plugin files
+      const jsonSchemaFiles = this.config.jsonSchemaConfig.generateJsonSchema
+        ? this.generateJsonSchemaFiles(collections, inputConfig)
+        : [];
+
+      // Models of other languages carry their own header and are not post-processed by transformers
+      const targetFiles = this.generateTargetFiles(collections, inputConfig);
+
+      return { files, outputFiles: [...jsonSchemaFiles, ...targetFiles, ...plugins.getOutputFiles()] };
+    } catch (error) {
+      this.handleGenerationError(error);
+    }
+  }
+
+  /**
+   * Generates the multi-file module layout
+   * When databases are namespaced, each database gets its own directory of modules
+   * 
+   * @param collections - Collections to generate modules for
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Unformatted files with paths relative to the output directory
+   */
+  private generateModuleLayout(collections: AppwriteCollection[], inputConfig: any): GeneratedFile[] {
+    const databaseGroups = this.groupCollectionsByDatabase(collections, inputConfig);
+    const files: GeneratedFile[] = [];
+    const barrelExports: string[] = [];
+
+    // Project-wide permission types, referenced by the document metadata of every module
+    const permissionTypes = PermissionGenerator.generatePermissionTypes(inputConfig.teams || [], this.config.permissionConfig);
+    const projectFiles = permissionTypes.trim() ? [{ path: 'permissions.ts', content: permissionTypes }] : [];
+    const sharedHelpers = this.generateSharedHelpers(collections);
+
+    if (this.shouldUseNamespaces(databaseGroups)) {
+      // Helpers that do not depend on a database are shared by all database directories
+      if (sharedHelpers.trim()) {
+        projectFiles.push(ModuleLinker.link([{ path: 'shared.ts', content: sharedHelpers }], this.getExternalSymbols())[0]);
+      }
+
+      databaseGroups.forEach(group => {
+        const directory = this.toModuleName(group.databaseId);
+        const modules = this.generateModuleFiles(group.collections, directory, projectFiles);
+
+        files.push(...modules, this.generateBarrel(`${directory}/index.ts`, modules));
+        barrelExports.push(`export * as ${group.namespace} from './${directory}/index.js';`);
+      });
+    } else {
+      const modules = this.generateModuleFiles(collections, '', projectFiles, sharedHelpers);
+
+      files.push(...modules);
+      barrelExports.push(...modules.map(file => `export * from '${ModuleLinker.toModuleSpecifier('index.ts', file.path)}';`));
+    }
+
+    files.push({ 
+      path: 'ids.ts', 
+      content: IDConstantsGenerator.generateIDConstants(inputConfig, this.config.idConstantsConfig) 
+    });
+    barrelExports.push(`export * from './ids.js';`);
+
+    projectFiles.forEach(file => {
+      files.push(file);
+      barrelExports.push(`export * from '${ModuleLinker.toModuleSpecifier('index.ts', file.path)}';`);
+    });
+
+    // Buckets belong to the project rather than a database
+    const storageTypes = StorageGenerator.generateBucketTypes(inputConfig.buckets || [], this.config.storageConfig);
+    if (storageTypes.trim()) {
+      files.push({ path: 'storage.ts', content: storageTypes });
+      barrelExports.push(`export * from './storage.js';`);
+    }
+
+    // Channel payloads reference collection types from any module
+    const realtimeTypes = this.generateRealtimeTypes(databaseGroups, inputConfig);
+    if (realtimeTypes.trim()) {
+      // Namespaced collection types are referenced through their database barrel
+      const namespaceImports = this.shouldUseNamespaces(databaseGroups)
+        ? databaseGroups
+          .map(group => `import type * as ${group.namespace} from './${this.toModuleName(group.databaseId)}/index.js';`)
+          .join('\n') + '\n'
+        : '';
+      const realtimeFile = { path: 'realtime.ts', content: namespaceImports + realtimeTypes };
+      files.push(ModuleLinker.link([...files, realtimeFile], this.getExternalSymbols())
+        .find(file => file.path === realtimeFile.path) as GeneratedFile);
+      barrelExports.push(`export * from './realtime.js';`);
+    }
+
+    // Payload types may reference collection types from any module
+    const functionTypes = FunctionGenerator.generateFunctionTypes(
+      inputConfig.functions || [],
+      this.config.functionConfig,
+      this.getEventType()
     );
+    if (functionTypes.trim()) {
+      const functionsFile = { path: 'functions.ts', content: functionTypes };
+      files.push(ModuleLinker.link([...files, functionsFile], this.getExternalSymbols())
+        .find(file => file.path === functionsFile.path) as GeneratedFile);
+      barrelExports.push(`export * from './functions.js';`);
+    }
+
+    files.push({
+      path: 'index.ts',
+      content: barrelExports.join('\n')
+    });
 
-    // Rest of the method remains the same
-    generatedTypes = this.applyCustomTransformations(
-      generatedTypes, 
-      processableCollections, 
-      inputConfig
+    return files;
+  }
+
+  /**
+   * Checks whether a file was written by the generator, for TypeScript and every output target
+   * Used to only clean up files the generator owns
+   * 
+   * @param filePath - Path of the file, deciding which header is expected
+   * @param content - File content
+   * @returns True if the content carries the generated header of its file type
+   */
+  static isGeneratedFile(filePath: string, content: string): boolean {
+    return TypesGenerator.GENERATED_FILE_CHECKS[path.extname(filePath)]?.(content) ?? false;
+  }
+
+  /**
+   * Reads the Appwrite configuration and extracts the collections types are generated for
+   * Shared by generation and tooling that needs the same view of the schema
+   * 
+   * @returns Parsed configuration limited to the selected databases, and its processable collections
+   * @throws {GeneratorError} If the configuration cannot be read or has no collections
+   */
+  async loadSchema(): Promise<{ inputConfig: any; collections: AppwriteCollection[] }> {
+    // Read Appwrite configuration, limited to the selected databases and in a stable order
+    const inputConfig = this.sortSchema(
+      this.filterDatabases(await this.readInputConfiguration())
     );
 
-    return this.formatGeneratedTypes(generatedTypes);
-  } catch (error) {
-    this.handleGenerationError(error);
+    return {
+      inputConfig,
+      collections: this.extractProcessableCollections(inputConfig)
+    };
+  }
+
+  /**
+   * Prepares generated content for comparison with a previous run
+   * Removes the generation timestamp, which changes on every run
+   * 
+   * @param content - Generated type definitions
+   * @returns Content without volatile header lines
+   */
+  static normalizeForComparison(content: string): string {
+    return content.replace(TypesGenerator.TIMESTAMP_PATTERN, '');
   }
-}
 
   /**
    * Validates the generator configuration
@@ -142,22 +561,54 @@ export class TypesGenerator {
    * @throws {GeneratorError} If configuration is invalid
    */
   private validateConfiguration(): void {
-    if (!this.config.inputPath) {
+    if (!this.config.inputPath && !this.config.pull) {
       throw new GeneratorError('Input path is required for type generation');
     }
 
-    if (!this.config.outputPath) {
+    if (!this.config.outputPath && !this.config.outputDir) {
       throw new GeneratorError('Output path is required for type generation');
     }
+
+    // Guards, repositories, mock factories and realtime payloads reference the generated interfaces
+    if (
+      this.config.interfaceConfig.generateInterfaces === false &&
+      (
+        this.config.typeGuardConfig.generateTypeGuards ||
+        this.config.clientConfig.generateClient ||
+        this.config.mockConfig.generateMockFactories ||
+        this.getEventType()
+      )
+    ) {
+      throw new ConfigurationError('Type guards, database clients, mock factories and realtime types require interface generation to be enabled');
+    }
+
+    const unknownTargets = (this.config.targets as string[])
+      .filter(target => !TypesGenerator.OUTPUT_TARGETS.includes(target));
+    if (unknownTargets.length > 0) {
+      throw new ConfigurationError(
+        `Unknown output targets: ${unknownTargets.join(', ')}. Available targets: ${TypesGenerator.OUTPUT_TARGETS.join(', ')}`
+      );
+    }
+
+    // Realtime subscriptions are only available in the client SDK
+    if (this.config.realtimeConfig.generateSubscribeHelper && this.config.clientConfig.sdkPackage !== 'appwrite') {
+      throw new ConfigurationError(
+        `The realtime subscribe helper requires the 'appwrite' client SDK, not '${this.config.clientConfig.sdkPackage}'`
+      );
+    }
   }
 
   /**
-   * Reads and parses the input Appwrite configuration
+   * Reads and parses the input Appwrite configuration, or pulls it from the server when configured
    * 
    * @returns Parsed Appwrite configuration
-   * @throws {GeneratorError} If configuration cannot be read or parsed
+   * @throws {GeneratorError} If configuration cannot be read, parsed or pulled
    */
   private async readInputConfiguration(): Promise<any> {
+    if (this.config.pull) {
+      return SchemaPuller.pull(this.config.pull);
+    }
+
     try {
       const configContent = await FileSystemUtils.readFile(this.config.inputPath);
       return JSON.parse(configContent);
@@ -174,10 +625,7 @@ export class TypesGenerator {
    * @param inputConfig - Parsed Appwrite configuration
    * @returns Array of collections with processable attributes
    */
-  private extractProcessableCollections(inputConfig: any): Array<{
-    name: string;
-    attributes: AppwriteAttribute[];
-  }> {
+  private extractProcessableCollections(inputConfig: any): AppwriteCollection[] {
     if (!inputConfig.collections || !Array.isArray(inputConfig.collections)) {
       throw new GeneratorError('No collections found in input configuration');
     }
@@ -185,8 +633,13 @@ export class TypesGenerator {
     return inputConfig.collections.filter((collection: any) => 
       collection.attributes && collection.attributes.length > 0
     ).map((collection: any) => ({
+      $id: collection.$id,
+      databaseId: collection.databaseId,
       name: collection.name,
-      attributes: collection.attributes
+      attributes: collection.attributes,
+      indexes: collection.indexes || [],
+      $permissions: collection.$permissions || [],
+      documentSecurity: collection.documentSecurity ?? false
     }));
   }
 
@@ -197,42 +650,707 @@ export class TypesGenerator {
    * @returns Generated type definitions
    */
   private generateInitialTypes(
-    collections: Array<{
-      name: string;
-      attributes: AppwriteAttribute[];
-    }>,
+    collections: AppwriteCollection[],
       inputConfig: any
   ): string {
-    // Generate header
-    let generatedTypes = `// Auto-generated Appwrite Types
-// Generated on ${new Date().toISOString()}
+    // Generate imports required by the enabled generators
+    let generatedTypes = this.generateImports() + '\n';
+
+    // Helpers that do not depend on a database are emitted once, outside of namespaces
+    generatedTypes += this.generateSharedHelpers(collections);
+
+    // Generate collection types, grouped per database when names would collide
+    const databaseGroups = this.groupCollectionsByDatabase(collections, inputConfig);
+
+    if (this.shouldUseNamespaces(databaseGroups)) {
+      databaseGroups.forEach(group => {
+        generatedTypes += this.wrapInNamespace(
+          group.namespace,
+          group.name,
+          this.generateCollectionTypes(group.collections)
+        ) + '\n';
+      });
+    } else {
+      generatedTypes += this.generateCollectionTypes(collections);
+    }
+
+    // Generate ID constants with flexible configuration
+    generatedTypes += IDConstantsGenerator.generateIDConstants(
+      inputConfig, 
+      this.config.idConstantsConfig
+    ) + '\n';
+
+    // Generate permission and role types when enabled
+    generatedTypes += PermissionGenerator.generatePermissionTypes(
+      inputConfig.teams || [],
+      this.config.permissionConfig
+    );
+
+    // Generate storage bucket metadata and upload checks when enabled
+    generatedTypes += StorageGenerator.generateBucketTypes(
+      inputConfig.buckets || [],
+      this.config.storageConfig
+    );
+
+    // Generate Appwrite Functions metadata and helpers when enabled
+    generatedTypes += FunctionGenerator.generateFunctionTypes(
+      inputConfig.functions || [],
+      this.config.functionConfig,
+      this.getEventType()
+    );
+
+    // Generate realtime channel and event types when enabled
+    generatedTypes += this.generateRealtimeTypes(databaseGroups, inputConfig);
+
+    return generatedTypes;
+  }
+
+  /**
+   * Generates the file header
+   * 
+   * @param content - Formatted type definitions the header is written above
+   * @returns Header comment block
+   */
+  private generateHeader(content: string): string {
+    const origin = this.config.headerStyle === 'hash'
+      ? `// Content hash: sha256-${createHash('sha256').update(content).digest('hex').slice(0, 16)}`
+      : `// Generated on ${new Date().toISOString()}`;
+
+    return `${TypesGenerator.HEADER_TITLE}
+${origin}
 // WARNING: This file is auto-generated. Do not modify manually.
 
 `;
+  }
 
-    // Generate enum and union types
+  /**
+   * Generates enums, database helpers, interfaces and all optional per-collection outputs
+   * Shared helpers are emitted separately by `generateSharedHelpers`
+   * 
+   * @param collections - Collections of one database, or of all databases when not namespaced
+   * @returns Generated collection type definitions
+   */
+  private generateCollectionTypes(collections: AppwriteCollection[]): string {
+    return this.generateEnumTypes(collections) +
+      this.generateDatabaseHelpers(collections) +
+      this.generateCollectionDefinitions(collections, { includeSharedHelpers: false });
+  }
+
+  /**
+   * Generates helpers that do not depend on a database, such as `DocumentData`, `createQueryBuilder` and the mock value generators
+   * 
+   * @param collections - All collections to generate types for
+   * @returns Generated helper definitions
+   */
+  private generateSharedHelpers(collections: AppwriteCollection[]): string {
+    return [
+      InterfaceGenerator.generatePopulatedHelpers(collections, this.config.interfaceConfig),
+      this.config.clientConfig.generateClient ? DatabaseClientGenerator.generateHelperTypes() : '',
+      this.config.queryConfig.generateQueryBuilders ? QueryBuilderGenerator.generateQueryBuilderFactory() : '',
+      // One seeded generator for the whole project, so a single seedMocks call reproduces every database's mocks
+      this.config.mockConfig.generateMockFactories ? MockFactoryGenerator.generateMockHelpers(this.config.mockConfig) : ''
+    ].join('\n');
+  }
+
+  /**
+   * Generates helpers bound to the collections of one database, such as the relationship registry
+   * 
+   * @param collections - Collections of one database, or of all databases when not namespaced
+   * @returns Generated helper definitions
+   */
+  private generateDatabaseHelpers(collections: AppwriteCollection[]): string {
+    return InterfaceGenerator.generateRelationshipHelpers(collections, this.config.interfaceConfig);
+  }
+
+  /**
+   * Generates enum and union types
+   * 
+   * @param collections - Collections to extract enums from
+   * @returns Generated enum definitions
+   */
+  private generateEnumTypes(collections: AppwriteCollection[]): string {
     const { enumDefinitions, typeDefinitions } = EnumGenerator.generateEnumDefinitions(
       collections, 
       this.config.enumConfig
     );
-    generatedTypes += typeDefinitions + '\n';
-    generatedTypes += enumDefinitions + '\n';
 
+    return typeDefinitions + '\n' + enumDefinitions + '\n';
+  }
+
+  /**
+   * Generates interfaces and all optional per-collection outputs
+   * 
+   * @param collections - Collections to generate definitions for
+   * @param scope - Related collections and whether to emit shared helpers
+   * @returns Generated definitions
+   */
+  private generateCollectionDefinitions(
+    collections: AppwriteCollection[],
+    scope: GenerationScope = {}
+  ): string {
     // Generate interfaces
-    generatedTypes += InterfaceGenerator.generateInterfaces(
+    let generatedTypes = InterfaceGenerator.generateInterfaces(
       collections, 
-      this.config.interfaceConfig
-      );
-      
-      // Generate ID constants with flexible configuration
-      generatedTypes += IDConstantsGenerator.generateIDConstants(
-        inputConfig, 
-        this.config.idConstantsConfig
+      this.config.interfaceConfig,
+      scope
+    );
+
+    // Generate Zod schemas when enabled
+    if (this.config.zodConfig.generateSchemas) {
+      generatedTypes += ZodSchemaGenerator.generateSchemas(
+        collections,
+        this.config.zodConfig,
+        this.config.interfaceConfig
+      ) + '\n';
+    }
+
+    // Generate runtime type guards when enabled
+    if (this.config.typeGuardConfig.generateTypeGuards) {
+      generatedTypes += TypeGuardGenerator.generateTypeGuards(
+        collections,
+        this.config.typeGuardConfig,
+        this.config.interfaceConfig,
+        scope
+      ) + '\n';
+    }
+
+    // Generate typed database repositories when enabled
+    if (this.config.clientConfig.generateClient) {
+      generatedTypes += DatabaseClientGenerator.generateClient(
+        collections,
+        this.config.clientConfig,
+        this.config.interfaceConfig,
+        scope
+      ) + '\n';
+    }
+
+    // Generate type-safe query builders when enabled
+    if (this.config.queryConfig.generateQueryBuilders) {
+      generatedTypes += QueryBuilderGenerator.generateQueryBuilders(
+        collections,
+        this.config.queryConfig,
+        this.config.interfaceConfig,
+        scope
+      ) + '\n';
+    }
+
+    // Generate collection permission constants when enabled
+    if (this.config.permissionConfig.generateCollectionPermissions) {
+      generatedTypes += PermissionGenerator.generateCollectionPermissions(
+        collections,
+        this.config.permissionConfig,
+        this.config.interfaceConfig
+      ) + '\n';
+    }
+
+    // Generate mock data factories when enabled
+    if (this.config.mockConfig.generateMockFactories) {
+      generatedTypes += MockFactoryGenerator.generateMockFactories(
+        collections,
+        this.config.mockConfig,
+        this.config.interfaceConfig,
+        scope
       ) + '\n';
+    }
 
     return generatedTypes;
   }
 
+  /**
+   * Generates the modules for a set of collections sharing one directory
+   * 
+   * @param collections - Collections of one database, or of all databases when not namespaced
+   * @param directory - Directory of the modules relative to the output directory
+   * @param projectFiles - Project-wide files the modules may import from
+   * @param sharedHelpers - Database-independent helpers to add to the shared module, when it is not a project file
+   * @returns Linked modules, without a barrel
+   */
+  private generateModuleFiles(
+    collections: AppwriteCollection[],
+    directory: string,
+    projectFiles: GeneratedFile[] = [],
+    sharedHelpers: string = ''
+  ): GeneratedFile[] {
+    const inDirectory = (fileName: string) => directory ? `${directory}/${fileName}` : fileName;
+    const files: GeneratedFile[] = [];
+
+    const enumTypes = this.generateEnumTypes(collections);
+    if (enumTypes.trim()) {
+      files.push({ path: inDirectory('enums.ts'), content: enumTypes });
+    }
+
+    // Helpers referenced by the modules of every collection
+    const helpers = sharedHelpers + this.generateDatabaseHelpers(collections);
+    if (helpers.trim()) {
+      files.push({ path: inDirectory('shared.ts'), content: helpers });
+    }
+
+    const moduleNames = this.assignModuleNames(collections);
+    collections.forEach(collection => {
+      const moduleName = moduleNames.get(collection);
+      const content = this.generateCollectionDefinitions([collection], {
+        relatedCollections: collections,
+        includeSharedHelpers: false
+      });
+      if (content.trim()) {
+        files.push({ path: inDirectory(`${moduleName}.ts`), content });
+      }
+    });
+
+    // Project-wide files are only linked against and emitted once by the caller
+    const projectPaths = new Set(projectFiles.map(file => file.path));
+    return ModuleLinker.link([...files, ...projectFiles], this.getExternalSymbols())
+      .filter(file => !projectPaths.has(file.path));
+  }
+
+  /**
+   * Assigns each collection a unique module name
+   * Names are derived from the collection name, falling back to its ID on collisions
+   * 
+   * @param collections - Collections of one module directory
+   * @returns Module names keyed by collection
+   */
+  private assignModuleNames(collections: AppwriteCollection[]): Map<AppwriteCollection, string> {
+    const moduleNames = new Map<AppwriteCollection, string>();
+    const usedNames = new Set<string>();
+
+    collections.forEach(collection => {
+      let moduleName = this.toModuleName(collection.name);
+      if (TypesGenerator.RESERVED_MODULE_NAMES.includes(moduleName)) {
+        moduleName = `${moduleName}-collection`;
+      }
+      if (usedNames.has(moduleName)) {
+        moduleName = `${moduleName}-${this.toModuleName(collection.$id)}`;
+      }
+      usedNames.add(moduleName);
+      moduleNames.set(collection, moduleName);
+    });
+
+    return moduleNames;
+  }
+
+  /**
+   * Generates JSON Schema documents for the collections
+   * Documents follow the module layout: one directory per database when databases are namespaced
+   * 
+   * @param collections - Collections to generate documents for
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Documents with paths relative to the output directory
+   */
+  private generateJsonSchemaFiles(collections: AppwriteCollection[], inputConfig: any): GeneratedFile[] {
+    const databaseGroups = this.groupCollectionsByDatabase(collections, inputConfig);
+    const useNamespaces = this.shouldUseNamespaces(databaseGroups);
+
+    const entries = databaseGroups.flatMap(group => {
+      const moduleNames = this.assignModuleNames(group.collections);
+      const directory = useNamespaces ? `${this.toModuleName(group.databaseId)}/` : '';
+
+      return group.collections.map(collection => {
+        const interfaceName = InterfaceGenerator.generateInterfaceName(
+          collection.name,
+          this.config.interfaceConfig.interfacePrefix,
+          this.config.interfaceConfig.interfaceSuffix
+        );
+
+        return {
+          collection,
+          definitionName: useNamespaces ? `${group.namespace}${interfaceName}` : interfaceName,
+          filePath: `${directory}${moduleNames.get(collection)}.schema.json`
+        };
+      });
+    });
+
+    return JsonSchemaGenerator.generateSchemaFiles(
+      entries,
+      this.config.jsonSchemaConfig,
+      this.config.interfaceConfig
+    );
+  }
+
+  /**
+   * Generates the models of the enabled output targets besides TypeScript
+   * 
+   * @param collections - Collections to generate models for
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Files of all targets with paths relative to the output directory
+   */
+  private generateTargetFiles(collections: AppwriteCollection[], inputConfig: any): GeneratedFile[] {
+    const targets = this.config.targets;
+    if (targets.length === 0) {
+      return [];
+    }
+
+    const entries = this.listModelEntries(collections, inputConfig);
+    const files: GeneratedFile[] = [];
+
+    if (targets.includes('dart')) {
+      files.push(...DartGenerator.generateDartFiles(
+        entries,
+        inputConfig,
+        this.config.dartConfig,
+        this.config.idConstantsConfig
+      ));
+    }
+
+    if (targets.includes('python')) {
+      files.push(...PythonGenerator.generatePythonFiles(
+        entries,
+        inputConfig,
+        this.config.pythonConfig,
+        this.config.idConstantsConfig
+      ));
+    }
+
+    if (targets.includes('graphql')) {
+      files.push(...GraphQLGenerator.generateSchemaFiles(entries, this.config.graphqlConfig));
+    }
+
+    return files;
+  }
+
+  /**
+   * Names the model class and enums of every collection for languages without namespaces
+   * When databases are namespaced, class and enum names are prefixed with the database instead
+   * 
+   * @param collections - Collections to name
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Collections with their class name and enum prefix
+   */
+  private listModelEntries(
+    collections: AppwriteCollection[],
+    inputConfig: any
+  ): Array<{ collection: AppwriteCollection; className: string; enumPrefix: string }> {
+    const databaseGroups = this.groupCollectionsByDatabase(collections, inputConfig);
+    const useNamespaces = this.shouldUseNamespaces(databaseGroups);
+
+    return databaseGroups.flatMap(group => group.collections.map(collection => {
+      const interfaceName = InterfaceGenerator.generateInterfaceName(
+        collection.name,
+        this.config.interfaceConfig.interfacePrefix,
+        this.config.interfaceConfig.interfaceSuffix
+      );
+
+      return {
+        collection,
+        className: useNamespaces ? `${group.namespace}${interfaceName}` : interfaceName,
+        enumPrefix: useNamespaces ? group.namespace : ''
+      };
+    }));
+  }
+
+  /**
+   * Generates a barrel re-exporting a set of modules
+   * 
+   * @param barrelPath - Path of the barrel file
+   * @param modules - Modules to re-export
+   * @returns Barrel file
+   */
+  private generateBarrel(barrelPath: string, modules: GeneratedFile[]): GeneratedFile {
+    return {
+      path: barrelPath,
+      content: modules
+        .map(file => `export * from '${ModuleLinker.toModuleSpecifier(barrelPath, file.path)}';`)
+        .join('\n')
+    };
+  }
+
+  /**
+   * Generates realtime channel and event types for all collections, buckets and functions
+   * 
+   * @param databaseGroups - Collections grouped per database
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Generated realtime definitions, empty when disabled
+   */
+  private generateRealtimeTypes(
+    databaseGroups: Array<{ databaseId: string; namespace: string; collections: AppwriteCollection[] }>,
+    inputConfig: any
+  ): string {
+    const namespaced = this.shouldUseNamespaces(databaseGroups);
+    const collections: RealtimeCollectionEntry[] = databaseGroups.flatMap(group =>
+      group.collections.map(collection => {
+        const interfaceName = InterfaceGenerator.generateInterfaceName(
+          collection.name,
+          this.config.interfaceConfig.interfacePrefix,
+          this.config.interfaceConfig.interfaceSuffix
+        );
+
+        return { collection, typeName: namespaced ? `${group.namespace}.${interfaceName}` : interfaceName };
+      })
+    );
+    const databaseIds: string[] = (inputConfig.databases || []).map((database: { $id: string }) => database.$id);
+
+    return RealtimeGenerator.generateRealtimeTypes(
+      {
+        collections,
+        databaseIds: [...new Set([...databaseIds, ...databaseGroups.map(group => group.databaseId)])],
+        bucketIds: (inputConfig.buckets || []).map((bucket: { $id: string }) => bucket.$id),
+        functionIds: (inputConfig.functions || []).map((fn: { $id: string }) => fn.$id)
+      },
+      this.config.realtimeConfig
+    );
+  }
+
+  /**
+   * Names the generated event string type when realtime types are enabled
+   * 
+   * @returns Event type name, or undefined when no event types are generated
+   */
+  private getEventType(): string | undefined {
+    const { generateRealtimeTypes, generateSubscribeHelper } = this.config.realtimeConfig;
+    return generateRealtimeTypes || generateSubscribeHelper ? RealtimeGenerator.EVENT_TYPE : undefined;
+  }
+
+  /**
+   * Lists the package symbols generated modules may import
+   * 
+   * @returns External symbols keyed by name
+   */
+  private getExternalSymbols(): Record<string, ExternalSymbol> {
+    const sdkPackage = this.config.clientConfig.sdkPackage as string;
+
+    return {
+      z: { from: 'zod', typeOnly: false },
+      Databases: { from: sdkPackage, typeOnly: false },
+      ID: { from: sdkPackage, typeOnly: false },
+      Query: { from: sdkPackage, typeOnly: false },
+      Models: { from: sdkPackage, typeOnly: true },
+      Functions: { from: sdkPackage, typeOnly: true },
+      ExecutionMethod: { from: sdkPackage, typeOnly: true },
+      Client: { from: sdkPackage, typeOnly: true }
+    };
+  }
+
+  /**
+   * Converts a collection or database name to a kebab-case module name
+   * 
+   * @param name - Name to convert
+   * @returns Module file name without extension
+   */
+  private toModuleName(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'collection';
+  }
+
+  /**
+   * Sorts databases, collections and other resources so output does not depend on schema order
+   * Attribute order is kept, as it reflects the order fields were defined in
+   * 
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Appwrite configuration with resources in a stable order
+   */
+  private sortSchema(inputConfig: any): any {
+    // Plain code point comparison, independent of the machine's locale
+    const compare = (a: unknown, b: unknown) => 
+      String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+    const byId = (a: { $id?: string }, b: { $id?: string }) => compare(a.$id, b.$id);
+    const sorted = (resources: any, compare: (a: any, b: any) => number) =>
+      Array.isArray(resources) ? [...resources].sort(compare) : resources;
+
+    return {
+      ...inputConfig,
+      databases: sorted(inputConfig.databases, byId),
+      collections: sorted(inputConfig.collections, (a, b) =>
+        compare(a.databaseId, b.databaseId) ||
+        compare(a.name, b.name) ||
+        byId(a, b)
+      ),
+      buckets: sorted(inputConfig.buckets, byId),
+      functions: sorted(inputConfig.functions, byId),
+      teams: sorted(inputConfig.teams, byId)
+    };
+  }
+
+  /**
+   * Removes databases and their collections excluded by the database configuration
+   * 
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Appwrite configuration limited to the selected databases
+   */
+  private filterDatabases(inputConfig: any): any {
+    const { include, exclude } = this.config.databaseConfig;
+
+    if (!include?.length && !exclude?.length) {
+      return inputConfig;
+    }
+
+    const databases: Array<{ $id: string; name: string }> = inputConfig.databases || [];
+    const matches = (db: { $id: string; name: string }, selectors: string[] = []) =>
+      selectors.includes(db.$id) || selectors.includes(db.name);
+
+    const selectedIds = new Set(
+      databases
+        .filter(db => !include?.length || matches(db, include))
+        .filter(db => !matches(db, exclude))
+        .map(db => db.$id)
+    );
+
+    return {
+      ...inputConfig,
+      databases: databases.filter(db => selectedIds.has(db.$id)),
+      collections: Array.isArray(inputConfig.collections)
+        ? inputConfig.collections.filter((collection: any) => selectedIds.has(collection.databaseId))
+        : inputConfig.collections
+    };
+  }
+
+  /**
+   * Groups collections under the database they belong to
+   * 
+   * @param collections - Collections to group
+   * @param inputConfig - Parsed Appwrite configuration
+   * @returns Collections grouped per database, in database order
+   */
+  private groupCollectionsByDatabase(
+    collections: AppwriteCollection[],
+    inputConfig: any
+  ): Array<{ databaseId: string; name: string; namespace: string; collections: AppwriteCollection[] }> {
+    const databases: Array<{ $id: string; name: string }> = inputConfig.databases || [];
+    const groups = new Map<string, AppwriteCollection[]>();
+
+    collections.forEach(collection => {
+      const group = groups.get(collection.databaseId) ?? [];
+      group.push(collection);
+      groups.set(collection.databaseId, group);
+    });
+
+    return [...groups.entries()].map(([databaseId, groupCollections]) => {
+      const name = databases.find(db => db.$id === databaseId)?.name ?? databaseId;
+
+      return {
+        databaseId,
+        name,
+        namespace: this.toNamespaceName(name),
+        collections: groupCollections
+      };
+    });
+  }
+
+  /**
+   * Decides whether database groups are emitted as namespaces
+   * 
+   * @param databaseGroups - Collections grouped per database
+   * @returns True if each database should get its own namespace
+   */
+  private shouldUseNamespaces(
+    databaseGroups: Array<{ collections: AppwriteCollection[] }>
+  ): boolean {
+    switch (this.config.databaseConfig.namespaces) {
+      case 'always':
+        return true;
+      case 'never':
+        return false;
+      default: {
+        // Only namespace when interface names collide across databases
+        const seen = new Set<string>();
+
+        return databaseGroups.some(group => {
+          const names = new Set(group.collections.map(collection => 
+            InterfaceGenerator.generateInterfaceName(
+              collection.name,
+              this.config.interfaceConfig.interfacePrefix,
+              this.config.interfaceConfig.interfaceSuffix
+            )
+          ));
+          const collides = [...names].some(name => seen.has(name));
+          names.forEach(name => seen.add(name));
+          return collides;
+        });
+      }
+    }
+  }
+
+  /**
+   * Wraps generated definitions in an exported namespace
+   * 
+   * @param namespace - Namespace identifier
+   * @param databaseName - Name of the database the namespace represents
+   * @param content - Definitions to wrap
+   * @returns Namespaced definitions
+   */
+  private wrapInNamespace(namespace: string, databaseName: string, content: string): string {
+    const indented = content
+      .split('\n')
+      .map(line => line.trim() ? `  ${line}` : '')
+      .join('\n');
+
+    return `
+/**
+ * Types for the ${databaseName} database
+ */
+export namespace ${namespace} {
+${indented}
+}
+`;
+  }
+
+  /**
+   * Converts a database name to a PascalCase namespace identifier
+   * 
+   * @param name - Database name
+   * @returns Namespace identifier
+   */
+  private toNamespaceName(name: string): string {
+    const namespace = name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+
+    return /^\d/.test(namespace) ? `_${namespace}` : namespace || 'Database';
+  }
+
+  /**
+   * Generates the import statements required by the enabled generators
+   * Imports are collected once so generators sharing a package don't collide
+   * 
+   * @returns Generated import statements
+   */
+  private generateImports(): string {
+    const imports: string[] = [];
+    const sdkValues = new Set<string>();
+    const sdkTypes = new Set<string>();
+
+    if (this.config.zodConfig.generateSchemas) {
+      imports.push(`import { z } from 'zod';`);
+    }
+
+    if (this.config.clientConfig.generateClient) {
+      ['Databases', 'ID', 'Query'].forEach(name => sdkValues.add(name));
+      sdkTypes.add('Models');
+    }
+
+    if (this.config.queryConfig.generateQueryBuilders) {
+      sdkValues.add('Query');
+    }
+
+    if (this.config.functionConfig.generateExecuteHelper) {
+      ['Functions', 'ExecutionMethod', 'Models'].forEach(name => sdkTypes.add(name));
+    }
+
+    if (this.getEventType()) {
+      sdkTypes.add('Models');
+    }
+
+    if (this.config.realtimeConfig.generateSubscribeHelper) {
+      sdkTypes.add('Client');
+    }
+
+    const sdkPackage = this.config.clientConfig.sdkPackage;
+
+    if (sdkValues.size > 0) {
+      imports.push(`import { ${[...sdkValues].join(', ')} } from '${sdkPackage}';`);
+    }
+
+    if (sdkTypes.size > 0) {
+      imports.push(`import type { ${[...sdkTypes].join(', ')} } from '${sdkPackage}';`);
+    }
+
+    return imports.join('\n');
+  }
+
   /**
    * Applies custom transformations to generated types
    * 
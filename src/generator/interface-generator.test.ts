@@ -0,0 +1,80 @@
+// src/generator/interface-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Payload type generation', () => {
+  test('emits Create, Update and Document types that enforce their rules', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, {
+      interfaceConfig: { generateCreateTypes: true, generateUpdateTypes: true, generateDocumentTypes: true }
+    });
+    const usage = `
+import type { UserCreate, UserUpdate, UserDocument } from './types.js';
+
+// Attributes with a default, like role, are optional
+export const create: UserCreate = { name: 'Ada', email: 'ada@example.com', active: true };
+// @ts-expect-error required attributes cannot be left out
+export const incomplete: UserCreate = { name: 'Ada' };
+// @ts-expect-error metadata is not part of the payload
+export const withId: UserCreate = { ...create, $id: 'ada' };
+
+export const update: UserUpdate = { age: null };
+
+export function read(document: UserDocument): string {
+  const age: number | null = document.age;
+  return document.$id + document.$createdAt + String(age);
+}
+`;
+
+    assert.match(output, /export interface UserCreate \{/);
+    assert.match(output, /export interface UserUpdate \{/);
+    assert.match(output, /export interface UserDocument \{/);
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('emits no payload types unless enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+
+    assert.doesNotMatch(output, /UserCreate|UserUpdate|UserDocument/);
+  });
+});
+
+describe('Relationship types', () => {
+  test('follows the side and relation type of each relationship', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+
+    assert.match(output, /posts\?: Post\[\];/);
+    assert.match(output, /author\?: User \| null;/);
+    assert.match(output, /export type PostRef = Omit<Post, 'author'> & \{\n  author\?: string \| null;/);
+  });
+
+  test('populates documents up to the given depth and references them by ID below it', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+    const usage = `
+import type { Populated, UserRef } from './types.js';
+
+export function authorName(post: Populated<'Post', 1>): string | undefined {
+  const author: UserRef | null | undefined = post.author;
+  // @ts-expect-error relationships below the depth are document IDs
+  author?.posts?.[0].title;
+  return author?.name;
+}
+
+export function siblingTitles(post: Populated<'Post', 2>): string[] {
+  return post.author?.posts?.map(sibling => sibling.title) ?? [];
+}
+
+export const reference: Populated<'Post', 0> = { title: 'Hello', status: 'draft', author: 'ada' };
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('types relationships by document ID in id mode', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { interfaceConfig: { relationshipMode: 'id' } });
+
+    assert.match(output, /posts\?: string\[\];/);
+    assert.match(output, /author\?: string \| null;/);
+  });
+});
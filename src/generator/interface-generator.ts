@@ -1,10 +1,13 @@
 // src/generator/interface-generator.ts
-import { TypeConverter, AppwriteAttribute } from './type-converters.js';
+import { TypeConverter, AppwriteAttribute, GenerationScope } from './type-converters.js';
 
 /**
  * Configuration interface for interface generation
  */
 export interface InterfaceGenerationConfig {
+  /** Whether to generate interfaces at all; payload and relationship types depend on them */
+  generateInterfaces?: boolean;
+
   /** Whether to include metadata fields like $id, $createdAt, etc. */
   includeMetadata: boolean;
   
@@ -16,6 +19,24 @@ export interface InterfaceGenerationConfig {
   
   /** Suffix to add to generated interface names */
   interfaceSuffix: string;
+
+  /** Whether to generate `XCreate` payload types for creating documents */
+  generateCreateTypes?: boolean;
+
+  /** Whether to generate `XUpdate` payload types for updating documents */
+  generateUpdateTypes?: boolean;
+
+  /** Whether to generate `XDocument` types for documents read from Appwrite */
+  generateDocumentTypes?: boolean;
+
+  /** Whether relationship fields hold populated documents or document IDs */
+  relationshipMode?: 'populated' | 'id';
+
+  /** Whether to generate `XRef` ID-reference types and the `Populated` helper */
+  generateRelationshipTypes?: boolean;
+
+  /** Type of the entries of `$permissions` */
+  permissionType?: string;
 }
 
 /**
@@ -37,10 +58,17 @@ interface RelationshipAttribute extends AppwriteAttribute {
 export class InterfaceGenerator {
   /** Default configuration for interface generation */
   private static DEFAULT_CONFIG: InterfaceGenerationConfig = {
+    generateInterfaces: true,
     includeMetadata: true,
     optionalMetadata: true,
     interfacePrefix: '',
-    interfaceSuffix: ''
+    interfaceSuffix: '',
+    generateCreateTypes: false,
+    generateUpdateTypes: false,
+    generateDocumentTypes: false,
+    relationshipMode: 'populated',
+    generateRelationshipTypes: true,
+    permissionType: 'string'
   };
 
   /**
@@ -48,25 +76,298 @@ export class InterfaceGenerator {
    * 
    * @param collections - Collections to generate interfaces for
    * @param config - Optional configuration for interface generation
+   * @param scope - Related collections and whether to emit the shared relationship helpers
    * @returns Generated interface definitions
    */
   static generateInterfaces(
     collections: Array<{
+      $id?: string;
       name: string;
       attributes: AppwriteAttribute[];
     }>,
-    config: Partial<InterfaceGenerationConfig> = this.DEFAULT_CONFIG
+    config: Partial<InterfaceGenerationConfig> = this.DEFAULT_CONFIG,
+    scope: GenerationScope = {}
   ): string {
     // Merge provided config with default configuration
     const fullConfig = { 
       ...this.DEFAULT_CONFIG, 
       ...config 
     };
+    const relatedCollections = scope.relatedCollections ?? collections;
+
+    if (!fullConfig.generateInterfaces) {
+      return '';
+    }
+
+    // Resolve related collections by ID to their generated interface names
+    const relatedTypeNames = this.resolveRelatedTypeNames(relatedCollections, fullConfig);
+    const populatedTypeNames = fullConfig.relationshipMode === 'populated'
+      ? relatedTypeNames
+      : new Map<string, string>();
 
     // Generate interfaces for each collection
-    return collections
-      .map(collection => this.generateCollectionInterface(collection, fullConfig))
+    const interfaces = collections
+      .map(collection => this.generateCollectionInterface(collection, fullConfig, populatedTypeNames))
       .join('\n');
+
+    if (!fullConfig.generateRelationshipTypes || !this.hasRelationships(relatedCollections)) {
+      return interfaces;
+    }
+
+    const refTypes = collections
+      .map(collection => this.generateRefType(collection, fullConfig))
+      .join('');
+
+    return scope.includeSharedHelpers === false
+      ? interfaces + refTypes
+      : interfaces + refTypes + this.generatePopulatedTypes() +
+        this.generateRelationshipRegistry(relatedCollections, fullConfig, relatedTypeNames);
+  }
+
+  /**
+   * Generates the generic population helpers the relationship registries of all databases refer to
+   * 
+   * @param collections - All collections of the schema
+   * @param config - Optional configuration for interface generation
+   * @returns Generated helper definitions, or an empty string when not needed
+   */
+  static generatePopulatedHelpers(
+    collections: Array<{
+      $id?: string;
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: Partial<InterfaceGenerationConfig> = this.DEFAULT_CONFIG
+  ): string {
+    const fullConfig = { 
+      ...this.DEFAULT_CONFIG, 
+      ...config 
+    };
+
+    if (!fullConfig.generateInterfaces || !fullConfig.generateRelationshipTypes || !this.hasRelationships(collections)) {
+      return '';
+    }
+
+    return this.generatePopulatedTypes();
+  }
+
+  /**
+   * Generates the relationship registry and the `Populated` alias of one database on their own
+   * The generic helpers are emitted separately by `generatePopulatedHelpers`
+   * 
+   * @param collections - All collections of the schema
+   * @param config - Optional configuration for interface generation
+   * @returns Generated helper definitions, or an empty string when not needed
+   */
+  static generateRelationshipHelpers(
+    collections: Array<{
+      $id?: string;
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: Partial<InterfaceGenerationConfig> = this.DEFAULT_CONFIG
+  ): string {
+    const fullConfig = { 
+      ...this.DEFAULT_CONFIG, 
+      ...config 
+    };
+
+    if (!fullConfig.generateInterfaces || !fullConfig.generateRelationshipTypes || !this.hasRelationships(collections)) {
+      return '';
+    }
+
+    return this.generateRelationshipRegistry(
+      collections,
+      fullConfig,
+      this.resolveRelatedTypeNames(collections, fullConfig)
+    );
+  }
+
+  /**
+   * Checks whether any collection has a relationship attribute
+   * 
+   * @param collections - Collections to check
+   * @returns True if relationship types are needed
+   */
+  private static hasRelationships(
+    collections: Array<{
+      attributes: AppwriteAttribute[];
+    }>
+  ): boolean {
+    return collections.some(collection =>
+      collection.attributes.some(attr => attr.type === 'relationship')
+    );
+  }
+
+  /**
+   * Maps collection IDs to their generated interface names
+   * 
+   * @param collections - Collections being generated
+   * @param config - Interface generation configuration
+   * @returns Interface names keyed by collection ID
+   */
+  private static resolveRelatedTypeNames(
+    collections: Array<{
+      $id?: string;
+      name: string;
+    }>,
+    config: InterfaceGenerationConfig
+  ): Map<string, string> {
+    const relatedTypeNames = new Map<string, string>();
+
+    collections.forEach(collection => {
+      if (collection.$id) {
+        relatedTypeNames.set(
+          collection.$id,
+          this.generateInterfaceName(collection.name, config.interfacePrefix, config.interfaceSuffix)
+        );
+      }
+    });
+
+    return relatedTypeNames;
+  }
+
+  /**
+   * Generates the ID-reference variant of a collection interface
+   * 
+   * @param collection - Collection to generate the reference type for
+   * @param config - Interface generation configuration
+   * @returns Generated reference type definition
+   */
+  private static generateRefType(
+    collection: {
+      name: string;
+      attributes: AppwriteAttribute[];
+    },
+    config: InterfaceGenerationConfig
+  ): string {
+    const interfaceName = this.generateInterfaceName(
+      collection.name, 
+      config.interfacePrefix, 
+      config.interfaceSuffix
+    );
+    const relationships = collection.attributes.filter(attr => attr.type === 'relationship');
+
+    if (relationships.length === 0) {
+      return `
+/** ${interfaceName} with relationships referenced by document ID */
+export type ${interfaceName}Ref = ${interfaceName};
+`;
+    }
+
+    const idFields = relationships.map(attr => {
+      const optional = !attr.required ? '?' : '';
+      return `  ${attr.key}${optional}: ${TypeConverter.convertToTSType(attr, { attributeName: attr.key })};`;
+    });
+    const omittedKeys = relationships.map(attr => `'${attr.key}'`).join(' | ');
+
+    return `
+/** ${interfaceName} with relationships referenced by document ID */
+export type ${interfaceName}Ref = Omit<${interfaceName}, ${omittedKeys}> & {
+${idFields.join('\n')}
+};
+`;
+  }
+
+  /**
+   * Generates the relationship registry and the `Populated` alias bound to it
+   * 
+   * @param collections - Collections being generated
+   * @param config - Interface generation configuration
+   * @param relatedTypeNames - Interface names keyed by collection ID
+   * @returns Generated relationship type definitions
+   */
+  private static generateRelationshipRegistry(
+    collections: Array<{
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: InterfaceGenerationConfig,
+    relatedTypeNames: Map<string, string>
+  ): string {
+    const relationEntries: string[] = [];
+    const refEntries: string[] = [];
+
+    collections.forEach(collection => {
+      const interfaceName = this.generateInterfaceName(
+        collection.name, 
+        config.interfacePrefix, 
+        config.interfaceSuffix
+      );
+      const relationships = collection.attributes.filter(attr => attr.type === 'relationship');
+
+      // Relationship registry entry used by Populated
+      const relations = relationships
+        .filter(attr => relatedTypeNames.has(attr.relatedCollection as string))
+        .map(attr => {
+          const relationAttr = attr as RelationshipAttribute;
+          const inverse = relationAttr.twoWay && relationAttr.twoWayKey
+            ? `; inverse: '${relationAttr.twoWayKey}'`
+            : '';
+          return `    ${attr.key}: { collection: '${relatedTypeNames.get(attr.relatedCollection as string)}'; many: ${TypeConverter.isManyRelationship(attr)}${inverse} };`;
+        });
+
+      relationEntries.push(relations.length > 0
+        ? `  ${interfaceName}: {\n${relations.join('\n')}\n  };`
+        : `  ${interfaceName}: {};`);
+      refEntries.push(`  ${interfaceName}: ${interfaceName}Ref;`);
+    });
+
+    return `
+/** Relationship fields of each collection with their related collection and cardinality */
+export interface CollectionRelations {
+${relationEntries.join('\n')}
+}
+
+/** ID-reference document types keyed by collection */
+export interface CollectionRefs {
+${refEntries.join('\n')}
+}
+
+/**
+ * A document with relationships populated up to \`Depth\` levels
+ * Relationships below that depth are referenced by document ID
+ * @example Populated<'Post', 2>
+ */
+export type Populated<Name extends keyof CollectionRefs, Depth extends number = 1> =
+  PopulatedDocument<CollectionRefs, CollectionRelations, Name, Depth>;
+`;
+  }
+
+  /**
+   * Generates the population helpers, generic over a relationship registry
+   * Populated documents are expanded up to a fixed depth so two-way relations can't recurse forever
+   * 
+   * @returns Generated helper definitions
+   */
+  private static generatePopulatedTypes(): string {
+    return `
+/** Remaining population depth after descending one level */
+type PreviousDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+/** Resolves one relationship field of a registry at the given population depth */
+type PopulatedRelation<Refs, Relations, Relation, Depth extends number> =
+  Relation extends { collection: infer Related; many: infer Many }
+    ? Related extends keyof Refs
+      ? Many extends true
+        ? PopulatedDocument<Refs, Relations, Related, Depth>[]
+        : PopulatedDocument<Refs, Relations, Related, Depth> | null
+      : never
+    : never;
+
+/**
+ * A document of a relationship registry with relationships populated up to \`Depth\` levels
+ * Use the \`Populated\` type bound to a database's registry instead
+ */
+export type PopulatedDocument<Refs, Relations, Name extends keyof Refs, Depth extends number = 1> =
+  [Depth] extends [0]
+    ? Refs[Name]
+    : {
+        [Key in keyof Refs[Name]]: Key extends keyof Relations[Name & keyof Relations]
+          ? PopulatedRelation<Refs, Relations, Relations[Name & keyof Relations][Key], PreviousDepth[Depth]>
+          : Refs[Name][Key];
+      };
+`;
   }
 
   /**
@@ -81,7 +382,8 @@ export class InterfaceGenerator {
       name: string; 
       attributes: AppwriteAttribute[]; 
     },
-    config: InterfaceGenerationConfig
+    config: InterfaceGenerationConfig,
+    relatedTypeNames: Map<string, string>
   ): string {
     // Generate interface name with prefix/suffix
     const interfaceName = this.generateInterfaceName(
@@ -93,12 +395,13 @@ export class InterfaceGenerator {
     // Generate attribute definitions
     const attributes = this.generateAttributeDefinitions(
       collection.attributes, 
-      config
+      config,
+      relatedTypeNames
     );
 
     // Combine metadata and attributes
     const interfaceContent = config.includeMetadata 
-      ? this.addMetadataFields(attributes, config.optionalMetadata)
+      ? this.addMetadataFields(attributes, config.optionalMetadata, config.permissionType)
       : attributes;
 
     // Generate full interface definition
@@ -110,7 +413,110 @@ export class InterfaceGenerator {
 export interface ${interfaceName} {
 ${interfaceContent}
 }
+${this.generatePayloadTypes(collection, interfaceName, config, relatedTypeNames)}`;
+  }
+
+  /**
+   * Generates the optional read and write types for a collection
+   * 
+   * @param collection - Collection to generate types for
+   * @param interfaceName - Name of the collection interface
+   * @param config - Interface generation configuration
+   * @param relatedTypeNames - Interface names of populated related collections
+   * @returns Generated type definitions
+   */
+  private static generatePayloadTypes(
+    collection: { 
+      name: string; 
+      attributes: AppwriteAttribute[]; 
+    },
+    interfaceName: string,
+    config: InterfaceGenerationConfig,
+    relatedTypeNames: Map<string, string>
+  ): string {
+    let payloadTypes = '';
+
+    if (config.generateDocumentTypes) {
+      const fields = collection.attributes.map(attr => {
+        const typeName = TypeConverter.convertToTSType(attr, {
+          attributeName: attr.key,
+          relatedTypeName: attr.relatedCollection ? relatedTypeNames.get(attr.relatedCollection) : undefined
+        });
+        return `  ${attr.key}: ${attr.required ? typeName : this.makeNullable(typeName)};`;
+      });
+
+      payloadTypes += `
+/**
+ * A ${collection.name} document as returned by Appwrite
+ * Metadata is always present and unset attributes are null
+ */
+export interface ${interfaceName}Document {
+${this.addMetadataFields(fields.join('\n'), false, config.permissionType)}
+}
 `;
+    }
+
+    if (config.generateCreateTypes) {
+      const fields = collection.attributes.map(attr => {
+        // Attributes with a default value may be omitted on creation
+        const hasDefault = attr.default !== undefined && attr.default !== null;
+        const optional = !attr.required || hasDefault ? '?' : '';
+        return `  ${attr.key}${optional}: ${this.generateWriteType(attr)};`;
+      });
+
+      payloadTypes += `
+/**
+ * Payload for creating a ${collection.name} document
+ * Relationships are referenced by document ID
+ */
+export interface ${interfaceName}Create {
+${fields.join('\n')}
+}
+`;
+    }
+
+    if (config.generateUpdateTypes) {
+      const fields = collection.attributes.map(attr => {
+        const typeName = this.generateWriteType(attr);
+        return `  ${attr.key}?: ${attr.required ? typeName : this.makeNullable(typeName)};`;
+      });
+
+      payloadTypes += `
+/**
+ * Payload for updating a ${collection.name} document
+ * Every attribute is optional and relationships are referenced by document ID
+ */
+export interface ${interfaceName}Update {
+${fields.join('\n')}
+}
+`;
+    }
+
+    return payloadTypes;
+  }
+
+  /**
+   * Adds `null` to a type unless it is already nullable
+   * 
+   * @param typeName - TypeScript type to extend
+   * @returns Nullable TypeScript type
+   */
+  private static makeNullable(typeName: string): string {
+    return /\|\s*null$/.test(typeName) ? typeName : `${typeName} | null`;
+  }
+
+  /**
+   * Generates the type of an attribute in a write payload
+   * 
+   * @param attribute - Attribute to generate the type for
+   * @returns TypeScript type accepted when writing the attribute
+   */
+  private static generateWriteType(attribute: AppwriteAttribute): string {
+    if (attribute.type === 'relationship') {
+      return TypeConverter.isManyRelationship(attribute) ? 'string[]' : 'string';
+    }
+
+    return TypeConverter.convertToTSType(attribute, { attributeName: attribute.key });
   }
 
   /**
@@ -118,14 +524,16 @@ ${interfaceContent}
    * 
    * @param attributes - Collection attributes
    * @param config - Interface generation configuration
+   * @param relatedTypeNames - Interface names of populated related collections
    * @returns Formatted attribute definitions
    */
   private static generateAttributeDefinitions(
     attributes: AppwriteAttribute[], 
-    config: Required<InterfaceGenerationConfig>
+    config: InterfaceGenerationConfig,
+    relatedTypeNames: Map<string, string>
   ): string {
     return attributes
-      .map(attr => this.generateAttributeDefinition(attr))
+      .map(attr => this.generateAttributeDefinition(attr, relatedTypeNames))
       .filter(Boolean)
       .join('\n');
   }
@@ -134,17 +542,22 @@ ${interfaceContent}
    * Generates a single attribute definition
    * 
    * @param attribute - Attribute to generate definition for
+   * @param relatedTypeNames - Interface names of populated related collections
    * @returns Formatted attribute definition
    */
   private static generateAttributeDefinition(
-    attribute: AppwriteAttribute
+    attribute: AppwriteAttribute,
+    relatedTypeNames: Map<string, string>
   ): string {
     // Generate type and optionality
     const optional = !attribute.required ? '?' : '';
     
     // Convert attribute to TypeScript type
     const typeName = TypeConverter.convertToTSType(attribute, {
-      attributeName: attribute.key
+      attributeName: attribute.key,
+      relatedTypeName: attribute.relatedCollection
+        ? relatedTypeNames.get(attribute.relatedCollection)
+        : undefined
     });
 
     // Generate comprehensive comments
@@ -198,11 +611,13 @@ ${interfaceContent}
    * 
    * @param attributes - Existing attribute definitions
    * @param optional - Whether metadata fields should be optional
+   * @param permissionType - Type of the entries of `$permissions`
    * @returns Updated attribute definitions with metadata
    */
   private static addMetadataFields(
     attributes: string, 
-    optional: boolean
+    optional: boolean,
+    permissionType: string = 'string'
   ): string {
     const optionalMarker = optional ? '?' : '';
     
@@ -223,7 +638,7 @@ ${interfaceContent}
   $collectionId${optionalMarker}: string;
 
   /** Document-level permissions */
-  $permissions${optionalMarker}: string[];
+  $permissions${optionalMarker}: ${permissionType}[];
 `;
 
     return `${metadataFields}${attributes ? '\n' + attributes : ''}`;
@@ -237,7 +652,7 @@ ${interfaceContent}
    * @param suffix - Optional suffix to add
    * @returns Formatted interface name
    */
-  private static generateInterfaceName(
+  static generateInterfaceName(
     collectionName: string, 
     prefix: string = '', 
     suffix: string = ''
@@ -0,0 +1,69 @@
+// src/generator/json-schema-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateModules } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('JSON Schema generation', () => {
+  test('emits a document per collection with the constraints of each attribute', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { jsonSchemaConfig: { generateJsonSchema: true } });
+    const users = JSON.parse(files['json-schema/users.schema.json']);
+
+    assert.equal(users.$schema, 'https://json-schema.org/draft/2020-12/schema');
+    assert.deepEqual(users.required, ['name', 'email', 'active']);
+    assert.deepEqual(users.properties.email, { type: 'string', format: 'email', maxLength: 254 });
+    assert.deepEqual(users.properties.age, { type: ['integer', 'null'], minimum: 0, maximum: 150 });
+    assert.deepEqual(users.properties.role, { type: ['string', 'null'], enum: ['admin', 'member', null], default: 'member' });
+    assert.deepEqual(users.properties.ip, {
+      type: ['string', 'null'],
+      anyOf: [{ format: 'ipv4' }, { format: 'ipv6' }],
+      maxLength: 39
+    });
+    assert.deepEqual(users.properties.tags, { type: ['array', 'null'], items: { type: 'string', maxLength: 32 } });
+    assert.deepEqual(users.properties.posts, { type: ['array', 'null'], items: { $ref: 'posts.schema.json' } });
+    assert.deepEqual(users.properties.$createdAt, { type: 'string', format: 'date-time' });
+    assert.equal(users.additionalProperties, undefined);
+  });
+
+  test('bundles every collection under $defs with local references', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { jsonSchemaConfig: { generateJsonSchema: true } });
+    const bundle = JSON.parse(files['json-schema/schemas.json']);
+
+    assert.deepEqual(Object.keys(bundle.$defs), ['Post', 'User']);
+    assert.deepEqual(bundle.$defs.Post.properties.author, { anyOf: [{ $ref: '#/$defs/User' }, { type: 'null' }] });
+  });
+
+  test('applies strict mode, the base URI and the metadata option', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      jsonSchemaConfig: {
+        generateJsonSchema: true,
+        generateBundle: false,
+        strict: true,
+        includeMetadata: false,
+        baseUri: 'https://example.com/schemas'
+      }
+    });
+    const posts = JSON.parse(files['json-schema/posts.schema.json']);
+
+    assert.equal(files['json-schema/schemas.json'], undefined);
+    assert.equal(posts.$id, 'https://example.com/schemas/posts.schema.json');
+    assert.equal(posts.additionalProperties, false);
+    assert.deepEqual(Object.keys(posts.properties), ['title', 'status', 'views', 'author']);
+  });
+
+  test('references related documents by ID in id mode', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      jsonSchemaConfig: { generateJsonSchema: true },
+      interfaceConfig: { relationshipMode: 'id' }
+    });
+    const posts = JSON.parse(files['json-schema/posts.schema.json']);
+
+    assert.deepEqual(posts.properties.author, { type: ['string', 'null'], description: 'ID of a users document' });
+  });
+
+  test('emits no documents unless enabled', async () => {
+    const files = await generateModules(BLOG_SCHEMA);
+
+    assert.deepEqual(Object.keys(files).filter(filePath => filePath.startsWith('json-schema/')), []);
+  });
+});
@@ -0,0 +1,374 @@
+// src/generator/json-schema-generator.ts
+import * as path from 'path';
+import { TypeConverter, AppwriteAttribute, AppwriteCollection } from './type-converters.js';
+import { InterfaceGenerationConfig } from './interface-generator.js';
+import { GeneratedFile } from './module-linker.js';
+
+/**
+ * Configuration for JSON Schema generation
+ */
+export interface JsonSchemaGenerationConfig {
+  /** Whether to emit JSON Schema documents for collections */
+  generateJsonSchema?: boolean;
+
+  /** Directory the documents are written to, relative to the output directory */
+  directory?: string;
+
+  /** Whether to emit `schemas.json`, bundling every collection under `$defs` */
+  generateBundle?: boolean;
+
+  /** Whether to include metadata fields like $id, $createdAt, etc. */
+  includeMetadata?: boolean;
+
+  /** Whether documents should reject unknown properties */
+  strict?: boolean;
+
+  /** Base URI the documents are published under, used for their `$id` */
+  baseUri?: string;
+}
+
+/**
+ * A collection to emit a JSON Schema document for
+ */
+export interface JsonSchemaEntry {
+  /** Collection the document describes */
+  collection: AppwriteCollection;
+
+  /** Name of the collection's definition in the bundle */
+  definitionName: string;
+
+  /** Path of the document relative to the JSON Schema directory */
+  filePath: string;
+}
+
+/**
+ * A JSON Schema (draft 2020-12) object
+ */
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema generation utility
+ * Generates draft 2020-12 JSON Schema documents from Appwrite collection configurations
+ */
+export class JsonSchemaGenerator {
+  /** Default configuration for JSON Schema generation */
+  private static DEFAULT_CONFIG: Required<JsonSchemaGenerationConfig> = {
+    generateJsonSchema: false,
+    directory: 'json-schema',
+    generateBundle: true,
+    includeMetadata: true,
+    strict: false,
+    baseUri: ''
+  };
+
+  /** Dialect every document declares */
+  private static DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+  /** File name of the bundle */
+  private static BUNDLE_FILE = 'schemas.json';
+
+  /** `$comment` of every document, marking files the generator owns */
+  private static COMMENT = 'Auto-generated Appwrite JSON Schema. Do not modify manually.';
+
+  /**
+   * Generates one JSON Schema document per collection and an optional bundle
+   * Relationships reference the related collection's document, or its definition within the bundle
+   *
+   * @param entries - Collections with their definition names and document paths
+   * @param config - Optional configuration for JSON Schema generation
+   * @param interfaceConfig - Interface configuration deciding how relationships are represented
+   * @returns Generated documents with paths relative to the output directory
+   */
+  static generateSchemaFiles(
+    entries: JsonSchemaEntry[],
+    config: JsonSchemaGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {}
+  ): GeneratedFile[] {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const entriesByCollection = new Map(entries.map(entry => [
+      `${entry.collection.databaseId}/${entry.collection.$id}`,
+      entry
+    ]));
+    const findRelated = (entry: JsonSchemaEntry, attribute: AppwriteAttribute) =>
+      entriesByCollection.get(`${entry.collection.databaseId}/${attribute.relatedCollection}`);
+
+    const files = entries.map(entry => ({
+      path: entry.filePath,
+      content: this.serialize({
+        $schema: this.DIALECT,
+        ...(fullConfig.baseUri ? { $id: this.toUri(fullConfig.baseUri, entry.filePath) } : {}),
+        $comment: this.COMMENT,
+        ...this.generateCollectionSchema(entry.collection, fullConfig, interfaceConfig, attribute => {
+          const related = findRelated(entry, attribute);
+          if (!related) return undefined;
+          return related === entry
+            ? '#'
+            : path.posix.relative(path.posix.dirname(entry.filePath), related.filePath);
+        })
+      })
+    }));
+
+    if (fullConfig.generateBundle) {
+      const definitions: Record<string, JsonSchema> = {};
+
+      entries.forEach(entry => {
+        definitions[entry.definitionName] = this.generateCollectionSchema(
+          entry.collection,
+          fullConfig,
+          interfaceConfig,
+          attribute => {
+            const related = findRelated(entry, attribute);
+            return related ? `#/$defs/${related.definitionName}` : undefined;
+          }
+        );
+      });
+
+      files.push({
+        path: this.BUNDLE_FILE,
+        content: this.serialize({
+          $schema: this.DIALECT,
+          ...(fullConfig.baseUri ? { $id: this.toUri(fullConfig.baseUri, this.BUNDLE_FILE) } : {}),
+          $comment: this.COMMENT,
+          title: 'Appwrite collections',
+          $defs: definitions
+        })
+      });
+    }
+
+    return files.map(file => ({
+      path: path.posix.join(fullConfig.directory, file.path),
+      content: file.content
+    }));
+  }
+
+  /**
+   * Checks whether a JSON file is a document written by the generator
+   * Used to only clean up files the generator owns
+   *
+   * @param content - File content
+   * @returns True if the document carries the generated `$comment`
+   */
+  static isGeneratedDocument(content: string): boolean {
+    try {
+      return JSON.parse(content)?.$comment === this.COMMENT;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Generates the schema of a collection's documents
+   *
+   * @param collection - Collection to generate a schema for
+   * @param config - JSON Schema generation configuration
+   * @param interfaceConfig - Interface configuration deciding how relationships are represented
+   * @param resolveRef - Returns the reference to a relationship's related collection, if generated
+   * @returns Object schema
+   */
+  private static generateCollectionSchema(
+    collection: AppwriteCollection,
+    config: Required<JsonSchemaGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>,
+    resolveRef: (attribute: AppwriteAttribute) => string | undefined
+  ): JsonSchema {
+    const properties: Record<string, JsonSchema> = config.includeMetadata
+      ? this.generateMetadataProperties()
+      : {};
+
+    collection.attributes.forEach(attr => {
+      properties[attr.key] = this.generateAttributeSchema(attr, interfaceConfig, resolveRef);
+    });
+
+    const required = collection.attributes
+      .filter(attr => attr.required)
+      .map(attr => attr.key);
+
+    return {
+      title: collection.name,
+      description: `Document of the ${collection.name} collection`,
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...(config.strict ? { additionalProperties: false } : {})
+    };
+  }
+
+  /**
+   * Generates the schema of a single attribute
+   *
+   * @param attribute - Attribute to generate a schema for
+   * @param interfaceConfig - Interface configuration deciding how relationships are represented
+   * @param resolveRef - Returns the reference to a relationship's related collection, if generated
+   * @returns Attribute schema
+   */
+  private static generateAttributeSchema(
+    attribute: AppwriteAttribute,
+    interfaceConfig: Partial<InterfaceGenerationConfig>,
+    resolveRef: (attribute: AppwriteAttribute) => string | undefined
+  ): JsonSchema {
+    let schema = this.generateBaseSchema(attribute, interfaceConfig, resolveRef);
+
+    // Relationships decide their own cardinality
+    const isArray = attribute.type === 'relationship'
+      ? TypeConverter.isManyRelationship(attribute)
+      : attribute.array;
+
+    if (isArray) {
+      schema = { type: 'array', items: schema };
+    }
+
+    if (!attribute.required) {
+      schema = this.makeNullable(schema);
+    }
+
+    if (attribute.default !== undefined && attribute.default !== null) {
+      schema = { ...schema, default: attribute.default };
+    }
+
+    return schema;
+  }
+
+  /**
+   * Generates the schema of a single attribute value
+   * Array and nullability modifiers are applied by the caller
+   *
+   * @param attribute - Attribute to generate a schema for
+   * @param interfaceConfig - Interface configuration deciding how relationships are represented
+   * @param resolveRef - Returns the reference to a relationship's related collection, if generated
+   * @returns Schema for one value
+   * @throws {Error} For unsupported attribute types
+   */
+  private static generateBaseSchema(
+    attribute: AppwriteAttribute,
+    interfaceConfig: Partial<InterfaceGenerationConfig>,
+    resolveRef: (attribute: AppwriteAttribute) => string | undefined
+  ): JsonSchema {
+    if (attribute.format === 'enum' && attribute.elements?.length) {
+      return { type: 'string', enum: [...attribute.elements] };
+    }
+
+    switch (attribute.type) {
+      case 'string':
+        return this.generateStringSchema(attribute);
+      case 'integer':
+        return { type: 'integer', ...this.generateRangeKeywords(attribute) };
+      case 'float':
+        return { type: 'number', ...this.generateRangeKeywords(attribute) };
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'datetime':
+        return { type: 'string', format: 'date-time' };
+      case 'relationship': {
+        const ref = resolveRef(attribute);
+
+        // Related documents are referenced by ID, or populated unless configured otherwise
+        if (interfaceConfig.relationshipMode === 'id' || !ref) {
+          return { type: 'string', description: `ID of a ${attribute.relatedCollection} document` };
+        }
+
+        return { $ref: ref };
+      }
+      default:
+        throw new Error(`Unsupported attribute type: ${attribute.type} for attribute ${attribute.key}`);
+    }
+  }
+
+  /**
+   * Generates a string schema honoring format and size constraints
+   * IP attributes accept both IPv4 and IPv6 addresses, so they match either format
+   *
+   * @param attribute - String attribute
+   * @returns String schema
+   */
+  private static generateStringSchema(attribute: AppwriteAttribute): JsonSchema {
+    const formats: Record<string, JsonSchema> = {
+      email: { format: 'email' },
+      url: { format: 'uri' },
+      ip: { anyOf: [{ format: 'ipv4' }, { format: 'ipv6' }] }
+    };
+    const format = attribute.format ? formats[attribute.format] : undefined;
+
+    return {
+      type: 'string',
+      ...format,
+      ...(attribute.size ? { maxLength: attribute.size } : {})
+    };
+  }
+
+  /**
+   * Generates minimum/maximum keywords for numeric attributes
+   * Appwrite's default bounds exceed the safe number range and are omitted
+   *
+   * @param attribute - Numeric attribute
+   * @returns Range keywords
+   */
+  private static generateRangeKeywords(attribute: AppwriteAttribute): JsonSchema {
+    const isMeaningful = (value?: number): value is number =>
+      typeof value === 'number' && Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+
+    return {
+      ...(isMeaningful(attribute.min) ? { minimum: attribute.min } : {}),
+      ...(isMeaningful(attribute.max) ? { maximum: attribute.max } : {})
+    };
+  }
+
+  /**
+   * Allows `null` in addition to the values a schema accepts
+   *
+   * @param schema - Schema to extend
+   * @returns Schema accepting `null`
+   */
+  private static makeNullable(schema: JsonSchema): JsonSchema {
+    if (typeof schema.type !== 'string') {
+      return { anyOf: [schema, { type: 'null' }] };
+    }
+
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(Array.isArray(schema.enum) ? { enum: [...schema.enum, null] } : {})
+    };
+  }
+
+  /**
+   * Generates optional properties for Appwrite document metadata
+   *
+   * @returns Metadata property schemas
+   */
+  private static generateMetadataProperties(): Record<string, JsonSchema> {
+    return {
+      $id: { type: 'string' },
+      $createdAt: { type: 'string', format: 'date-time' },
+      $updatedAt: { type: 'string', format: 'date-time' },
+      $databaseId: { type: 'string' },
+      $collectionId: { type: 'string' },
+      $permissions: { type: 'array', items: { type: 'string' } }
+    };
+  }
+
+  /**
+   * Joins the base URI and a document path
+   *
+   * @param baseUri - Base URI the documents are published under
+   * @param filePath - Path of the document relative to the JSON Schema directory
+   * @returns Absolute document URI
+   */
+  private static toUri(baseUri: string, filePath: string): string {
+    return `${baseUri.replace(/\/+$/, '')}/${filePath}`;
+  }
+
+  /**
+   * Serializes a schema document
+   *
+   * @param schema - Schema document
+   * @returns Pretty-printed JSON with a trailing newline
+   */
+  private static serialize(schema: JsonSchema): string {
+    return `${JSON.stringify(schema, null, 2)}\n`;
+  }
+}
@@ -0,0 +1,96 @@
+// src/generator/mock-factory-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA, MULTI_DATABASE_SCHEMA } from '../testing/fixtures.js';
+
+describe('Mock factory generation', () => {
+  test('emits factories that compile against the generated interfaces', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { mockConfig: { generateMockFactories: true } });
+    const usage = `
+import { createMockUser, seedMocks, type User } from './types.js';
+
+seedMocks(42);
+export const admin: User = createMockUser({ role: 'admin' }, { depth: 2, optional: false });
+// @ts-expect-error overrides are checked against the interface
+createMockUser({ role: 'owner' });
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('fills attributes within their definition', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { mockConfig: { generateMockFactories: true } });
+    const { createMockUser, seedMocks } = await importGenerated(output);
+
+    seedMocks();
+    for (let i = 0; i < 20; i++) {
+      const user = createMockUser();
+
+      assert.equal(user.$collectionId, 'users');
+      assert.ok(user.name.length <= 64);
+      assert.match(user.email, /^[^@\s]+@[^@\s]+\.[a-z]+$/);
+      assert.ok(['admin', 'member'].includes(user.role));
+      assert.ok(Number.isInteger(user.age) && user.age >= 0 && user.age <= 150);
+      assert.ok(!Number.isNaN(Date.parse(user.lastSeen)));
+      assert.ok(user.tags.length >= 1 && user.tags.length <= 3);
+      assert.ok(user.tags.every((tag: string) => tag.length <= 32));
+    }
+  });
+
+  test('reproduces the same documents after reseeding', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { mockConfig: { generateMockFactories: true } });
+    const { createMockUser, seedMocks } = await importGenerated(output);
+
+    seedMocks(7);
+    const first = [createMockUser(), createMockUser()];
+    seedMocks(7);
+
+    assert.deepEqual([createMockUser(), createMockUser()], first);
+  });
+
+  test('reseeds the mocks of every database with one call', async () => {
+    const output = await generateTypes(MULTI_DATABASE_SCHEMA, { mockConfig: { generateMockFactories: true } });
+    const { Main, Analytics, seedMocks } = await importGenerated(output);
+    const mockBoth = () => [Main.createMockUser(), Analytics.createMockUser()];
+
+    assert.equal(output.match(/export function seedMocks\(/g)?.length, 1);
+    assert.deepEqual(typeCheck({ 'types.ts': output }), []);
+
+    seedMocks(3);
+    const first = mockBoth();
+    seedMocks(3);
+
+    assert.deepEqual(mockBoth(), first);
+  });
+
+  test('applies overrides, optional attributes and the population depth', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { mockConfig: { generateMockFactories: true } });
+    const { createMockPost, createMockUser } = await importGenerated(output);
+
+    const bare = createMockUser({ role: 'admin' }, { optional: false });
+    assert.deepEqual(
+      Object.keys(bare).filter(key => !key.startsWith('$')).sort(),
+      ['active', 'email', 'name', 'role']
+    );
+    assert.equal(bare.role, 'admin');
+
+    const shallow = createMockPost();
+    assert.equal(shallow.author.$collectionId, 'users');
+    assert.deepEqual(shallow.author.posts, []);
+
+    const deep = createMockPost({}, { depth: 2 });
+    assert.ok(deep.author.posts.length > 0);
+    assert.ok(deep.author.posts.every((post: any) => post.$collectionId === 'posts' && post.author === null));
+  });
+
+  test('uses document IDs for relationships in id mode', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, {
+      mockConfig: { generateMockFactories: true },
+      interfaceConfig: { relationshipMode: 'id' }
+    });
+    const { createMockPost } = await importGenerated(output);
+
+    assert.equal(typeof createMockPost().author, 'string');
+  });
+});
@@ -0,0 +1,386 @@
+// src/generator/mock-factory-generator.ts
+import { TypeConverter, AppwriteAttribute, AppwriteCollection, GenerationScope } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for mock data factory generation
+ */
+export interface MockFactoryGenerationConfig {
+  /** Whether to generate a mock document factory per collection */
+  generateMockFactories?: boolean;
+
+  /** Prefix for generated factory names */
+  factoryPrefix?: string;
+
+  /** Levels of related documents factories populate by default */
+  defaultDepth?: number;
+
+  /** Initial seed of the pseudo-random number generator */
+  seed?: number;
+}
+
+/**
+ * Mock data factory generation utility
+ * Generates dependency-free factories producing reproducible documents from attribute metadata
+ */
+export class MockFactoryGenerator {
+  /** Default configuration for mock factory generation */
+  private static DEFAULT_CONFIG: Required<MockFactoryGenerationConfig> = {
+    generateMockFactories: false,
+    factoryPrefix: 'createMock',
+    defaultDepth: 1,
+    seed: 1
+  };
+
+  /** Range used for numbers without meaningful bounds */
+  private static DEFAULT_RANGE = 1000;
+
+  /** Length used for strings without a size */
+  private static DEFAULT_STRING_SIZE = 32;
+
+  /**
+   * Generates mock factories for Appwrite collections
+   *
+   * @param collections - Collections to generate factories for
+   * @param config - Optional configuration for factory generation
+   * @param interfaceConfig - Interface configuration used to reference generated interfaces
+   * @param scope - Collections related documents may come from, and whether to emit the shared helpers
+   * @returns Generated factory definitions
+   */
+  static generateMockFactories(
+    collections: AppwriteCollection[],
+    config: MockFactoryGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {},
+    scope: GenerationScope = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    // Map collection IDs to their factory names for populated relationships
+    const factoryNames = new Map<string, string>();
+    if (interfaceConfig.relationshipMode !== 'id') {
+      (scope.relatedCollections ?? collections).forEach(collection => {
+        if (collection.$id) {
+          factoryNames.set(collection.$id, `${fullConfig.factoryPrefix}${this.getInterfaceName(collection.name, interfaceConfig)}`);
+        }
+      });
+    }
+
+    const factories = collections
+      .map(collection => this.generateCollectionFactory(collection, fullConfig, interfaceConfig, factoryNames))
+      .join('\n');
+
+    return scope.includeSharedHelpers === false
+      ? factories
+      : `${this.generateMockHelpers(fullConfig)}\n${factories}`;
+  }
+
+  /**
+   * Generates the seeded value generators shared by all factories
+   *
+   * @param config - Optional configuration for factory generation
+   * @returns Generated helper definitions
+   */
+  static generateMockHelpers(config: MockFactoryGenerationConfig = {}): string {
+    const { seed, defaultDepth } = { ...this.DEFAULT_CONFIG, ...config };
+
+    return `
+/**
+ * Options accepted by mock factories
+ */
+export interface MockOptions {
+  /** Levels of related documents to populate (default: ${defaultDepth}) */
+  depth?: number;
+
+  /** Whether to fill optional attributes (default: true) */
+  optional?: boolean;
+}
+
+/** State of the mock data pseudo-random number generator */
+let mockSeed = ${seed >>> 0};
+
+/**
+ * Resets the mock data generator so factories produce the same documents again
+ */
+export function seedMocks(seed: number = ${seed >>> 0}): void {
+  mockSeed = seed >>> 0;
+}
+
+/** Words mock strings are composed of */
+const MOCK_WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do', 'eiusmod', 'tempor'];
+
+/**
+ * Seeded generators for mock attribute values (mulberry32)
+ */
+export const mockValues = {
+  /** Returns a number in [0, 1) */
+  random(): number {
+    mockSeed = (mockSeed + 0x6D2B79F5) >>> 0;
+    let t = mockSeed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  },
+
+  /** Returns an integer in [min, max] */
+  integer(min: number, max: number): number {
+    return min + Math.floor(mockValues.random() * (max - min + 1));
+  },
+
+  /** Returns a number in [min, max] with two decimals */
+  float(min: number, max: number): number {
+    return Math.min(max, Math.round((min + mockValues.random() * (max - min)) * 100) / 100);
+  },
+
+  /** Returns a boolean */
+  boolean(): boolean {
+    return mockValues.random() < 0.5;
+  },
+
+  /** Returns one of the given values */
+  pick<T>(values: readonly T[]): T {
+    return values[mockValues.integer(0, values.length - 1)];
+  },
+
+  /** Returns a list of one to three values */
+  array<T>(create: () => T): T[] {
+    return Array.from({ length: mockValues.integer(1, 3) }, create);
+  },
+
+  /** Returns words of at most maxLength characters */
+  string(maxLength: number): string {
+    const words = Array.from({ length: mockValues.integer(1, 4) }, () => mockValues.pick(MOCK_WORDS));
+    return words.join(' ').slice(0, maxLength);
+  },
+
+  /** Returns a document ID */
+  id(): string {
+    return Array.from({ length: 20 }, () => mockValues.integer(0, 35).toString(36)).join('');
+  },
+
+  /** Returns an ISO 8601 date in 2024 */
+  datetime(): string {
+    return new Date(Date.UTC(2024, 0, 1) + mockValues.integer(0, 365 * 24 * 60 * 60 - 1) * 1000).toISOString();
+  },
+
+  /** Returns an email address */
+  email(): string {
+    return mockValues.pick(MOCK_WORDS) + mockValues.integer(1, 999) + '@example.com';
+  },
+
+  /** Returns a URL */
+  url(): string {
+    return 'https://example.com/' + mockValues.pick(MOCK_WORDS);
+  },
+
+  /** Returns an IPv4 address from the documentation range */
+  ip(): string {
+    return '192.0.2.' + mockValues.integer(1, 254);
+  }
+};
+`;
+  }
+
+  /**
+   * Generates the factory for a collection
+   *
+   * @param collection - Collection to generate a factory for
+   * @param config - Mock factory generation configuration
+   * @param interfaceConfig - Interface generation configuration
+   * @param factoryNames - Factory names of populated related collections, keyed by collection ID
+   * @returns Generated factory definition
+   */
+  private static generateCollectionFactory(
+    collection: AppwriteCollection,
+    config: Required<MockFactoryGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>,
+    factoryNames: Map<string, string>
+  ): string {
+    const interfaceName = this.getInterfaceName(collection.name, interfaceConfig);
+    const factoryName = `${config.factoryPrefix}${interfaceName}`;
+
+    const fields = collection.attributes.map(attr => {
+      let value = this.generateAttributeValue(attr, factoryNames);
+
+      // Types overridden by plugins are unknown to the factory
+      if (attr.typeOverride) {
+        value = `${value} as unknown as NonNullable<${interfaceName}[${JSON.stringify(attr.key)}]>`;
+      }
+
+      return attr.required
+        ? `    ${attr.key}: ${value},`
+        : `    ...(optional ? { ${attr.key}: ${value} } : {}),`;
+    });
+
+    // Only declare the locals the fields use
+    const locals: string[] = [];
+    const hasPopulated = collection.attributes.some(attr => this.isPopulated(attr, factoryNames));
+    const hasOptional = collection.attributes.some(attr => !attr.required);
+    if (hasPopulated) {
+      locals.push(
+        `const depth = options.depth ?? ${config.defaultDepth};`,
+        'const nested: MockOptions = { depth: depth - 1, optional: options.optional };'
+      );
+    }
+    if (hasOptional) {
+      locals.push('const optional = options.optional !== false;');
+    }
+    if (interfaceConfig.includeMetadata !== false) {
+      locals.push('const createdAt = mockValues.datetime();');
+      fields.unshift(...this.generateMetadataFields(collection));
+    }
+
+    return `
+/**
+ * Creates a mock ${collection.name} document
+ * Values follow the attribute definitions and are reproducible with \`seedMocks\`
+ */
+export function ${factoryName}(overrides: Partial<${interfaceName}> = {}, ${hasPopulated || hasOptional ? 'options' : '_options'}: MockOptions = {}): ${interfaceName} {
+${locals.map(local => `  ${local}\n`).join('')}
+  return {
+${fields.join('\n')}
+    ...overrides
+  };
+}
+`;
+  }
+
+  /**
+   * Generates the expression producing a mock value for an attribute
+   *
+   * @param attribute - Attribute to generate a value for
+   * @param factoryNames - Factory names of populated related collections, keyed by collection ID
+   * @returns Value expression
+   */
+  private static generateAttributeValue(
+    attribute: AppwriteAttribute,
+    factoryNames: Map<string, string>
+  ): string {
+    if (attribute.type === 'relationship') {
+      const many = TypeConverter.isManyRelationship(attribute);
+
+      if (!this.isPopulated(attribute, factoryNames)) {
+        return many ? 'mockValues.array(() => mockValues.id())' : 'mockValues.id()';
+      }
+
+      // Populate related documents until the requested depth is reached
+      const factoryName = factoryNames.get(attribute.relatedCollection as string);
+      return many
+        ? `depth > 0 ? mockValues.array(() => ${factoryName}({}, nested)) : []`
+        : `depth > 0 ? ${factoryName}({}, nested) : null`;
+    }
+
+    const value = this.generateBaseValue(attribute);
+    return attribute.array ? `mockValues.array(() => ${value})` : value;
+  }
+
+  /**
+   * Checks whether a relationship is filled with mock documents rather than IDs
+   *
+   * @param attribute - Attribute to check
+   * @param factoryNames - Factory names of populated related collections, keyed by collection ID
+   * @returns True for relationships to collections with a factory
+   */
+  private static isPopulated(attribute: AppwriteAttribute, factoryNames: Map<string, string>): boolean {
+    return attribute.type === 'relationship' &&
+      Boolean(attribute.relatedCollection && factoryNames.has(attribute.relatedCollection));
+  }
+
+  /**
+   * Generates the expression producing a single mock value
+   *
+   * @param attribute - Attribute to generate a value for
+   * @returns Value expression
+   * @throws {Error} For unsupported attribute types
+   */
+  private static generateBaseValue(attribute: AppwriteAttribute): string {
+    if (attribute.format === 'enum' && attribute.elements?.length) {
+      return `mockValues.pick([${attribute.elements.map(e => JSON.stringify(e)).join(', ')}] as const)`;
+    }
+
+    switch (attribute.type) {
+      case 'string':
+        switch (attribute.format) {
+          case 'email':
+            return 'mockValues.email()';
+          case 'url':
+            return 'mockValues.url()';
+          case 'ip':
+            return 'mockValues.ip()';
+          default:
+            return `mockValues.string(${attribute.size || this.DEFAULT_STRING_SIZE})`;
+        }
+      case 'integer': {
+        const [min, max] = this.getRange(attribute);
+        return `mockValues.integer(${Math.ceil(min)}, ${Math.floor(max)})`;
+      }
+      case 'float': {
+        const [min, max] = this.getRange(attribute);
+        return `mockValues.float(${min}, ${max})`;
+      }
+      case 'boolean':
+        return 'mockValues.boolean()';
+      case 'datetime':
+        return 'mockValues.datetime()';
+      default:
+        throw new Error(`Unsupported attribute type: ${attribute.type} for attribute ${attribute.key}`);
+    }
+  }
+
+  /**
+   * Determines the range numeric mock values are drawn from
+   * Appwrite's default bounds exceed the safe number range and are narrowed
+   *
+   * @param attribute - Numeric attribute
+   * @returns Minimum and maximum value
+   */
+  private static getRange(attribute: AppwriteAttribute): [number, number] {
+    const isMeaningful = (value?: number): value is number =>
+      typeof value === 'number' && Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+
+    const hasMin = isMeaningful(attribute.min);
+    const hasMax = isMeaningful(attribute.max);
+    const min = hasMin ? attribute.min as number : hasMax ? Math.min(0, attribute.max as number - this.DEFAULT_RANGE) : 0;
+    const max = hasMax ? attribute.max as number : min + this.DEFAULT_RANGE;
+
+    return [min, max];
+  }
+
+  /**
+   * Generates mock values for Appwrite document metadata
+   *
+   * @param collection - Collection the document belongs to
+   * @returns Metadata field definitions
+   */
+  private static generateMetadataFields(collection: AppwriteCollection): string[] {
+    return [
+      '    $id: mockValues.id(),',
+      '    $createdAt: createdAt,',
+      '    $updatedAt: createdAt,',
+      `    $databaseId: ${JSON.stringify(collection.databaseId)},`,
+      `    $collectionId: ${JSON.stringify(collection.$id)},`,
+      '    $permissions: [],'
+    ];
+  }
+
+  /**
+   * Resolves the generated interface name for a collection
+   *
+   * @param collectionName - Name of the collection
+   * @param interfaceConfig - Interface generation configuration
+   * @returns Interface name
+   */
+  private static getInterfaceName(
+    collectionName: string,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    return InterfaceGenerator.generateInterfaceName(
+      collectionName,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    );
+  }
+}
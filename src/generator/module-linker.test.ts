@@ -0,0 +1,96 @@
+// src/generator/module-linker.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModuleLinker } from './module-linker.js';
+
+/**
+ * Reads the import statements at the top of a file
+ * @param content - Linked file content
+ * @returns Import statements
+ */
+function importsOf(content: string): string[] {
+  return content.split('\n').filter(line => line.startsWith('import '));
+}
+
+describe('ModuleLinker.link', () => {
+  test('imports types and values from the files exporting them', () => {
+    const [, post] = ModuleLinker.link([
+      {
+        path: 'shared.ts',
+        content: 'export type DocumentData<T> = Omit<T, \'$id\'>;\nexport function createQueryBuilder() {}\n'
+      },
+      {
+        path: 'main/post.ts',
+        content: 'export interface Post { title: string }\nexport type PostData = DocumentData<Post>;\nexport const postQuery = createQueryBuilder();\n'
+      }
+    ]);
+
+    assert.deepEqual(importsOf(post.content), [
+      "import { createQueryBuilder } from '../shared.js';",
+      "import type { DocumentData } from '../shared.js';"
+    ]);
+  });
+
+  test('leaves files without references to other files unchanged', () => {
+    const files = [
+      { path: 'a.ts', content: 'export interface A { id: string }\n' },
+      { path: 'b.ts', content: 'export interface B { a: string }\n' }
+    ];
+
+    assert.deepEqual(ModuleLinker.link(files), files);
+  });
+
+  test('ignores names in comments, strings, member accesses and property keys', () => {
+    const [, consumer] = ModuleLinker.link([
+      { path: 'user.ts', content: 'export interface User { name: string }\n' },
+      {
+        path: 'consumer.ts',
+        content: [
+          '// User is documented here',
+          '/* User */',
+          'export const label = \'User\' + `User`;',
+          'export const value = { User: 1 }.User;',
+          'export interface Holder { User?: string }'
+        ].join('\n')
+      }
+    ]);
+
+    assert.deepEqual(importsOf(consumer.content), []);
+  });
+
+  test('prefers local declarations over other files', () => {
+    const [, consumer] = ModuleLinker.link([
+      { path: 'a.ts', content: 'export type Status = \'draft\';\n' },
+      { path: 'b.ts', content: 'export type Status = \'live\';\nexport type Current = Status;\n' }
+    ]);
+
+    assert.deepEqual(importsOf(consumer.content), []);
+  });
+
+  test('imports external symbols from their package before local files', () => {
+    const [, client] = ModuleLinker.link(
+      [
+        { path: 'types.ts', content: 'export interface Post { title: string }\n' },
+        { path: 'client.ts', content: 'export class PostClient { constructor(private databases: Databases) {}\n  get(): Promise<Post & Models.Document> { return null!; } }\n' }
+      ],
+      {
+        Databases: { from: 'appwrite', typeOnly: false },
+        Models: { from: 'appwrite', typeOnly: true }
+      }
+    );
+
+    assert.deepEqual(importsOf(client.content), [
+      "import { Databases } from 'appwrite';",
+      "import type { Models } from 'appwrite';",
+      "import type { Post } from './types.js';"
+    ]);
+  });
+});
+
+describe('ModuleLinker.toModuleSpecifier', () => {
+  test('builds relative specifiers with a .js extension', () => {
+    assert.equal(ModuleLinker.toModuleSpecifier('index.ts', 'main/post.ts'), './main/post.js');
+    assert.equal(ModuleLinker.toModuleSpecifier('main/post.ts', 'main/user.ts'), './user.js');
+    assert.equal(ModuleLinker.toModuleSpecifier('main/post.ts', 'shared.ts'), '../shared.js');
+  });
+});
@@ -0,0 +1,224 @@
+// src/generator/module-linker.ts
+import * as path from 'path';
+
+/**
+ * A generated output file
+ */
+export interface GeneratedFile {
+  /** Path relative to the output directory, using forward slashes */
+  path: string;
+
+  /** File content */
+  content: string;
+}
+
+/**
+ * A symbol provided by an external package
+ */
+export interface ExternalSymbol {
+  /** Package the symbol is imported from */
+  from: string;
+
+  /** Whether the symbol is only used as a type */
+  typeOnly: boolean;
+}
+
+/**
+ * Cross-file import resolution utility
+ * Adds the imports each generated file needs based on the symbols other files export
+ */
+export class ModuleLinker {
+  /** Matches top-level export declarations and captures their kind and name */
+  private static EXPORT_PATTERN = /^export\s+(?:declare\s+)?(?:abstract\s+)?(interface|type|const|let|function|class|enum|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+
+  /** Declaration kinds that only exist at type level */
+  private static TYPE_KINDS = new Set(['interface', 'type']);
+
+  /**
+   * Adds import statements to files that reference symbols exported by other files
+   *
+   * @param files - Files to link; relative imports are resolved between them
+   * @param externals - Symbols provided by external packages, keyed by name
+   * @returns Files with import statements prepended
+   */
+  static link(
+    files: GeneratedFile[],
+    externals: Record<string, ExternalSymbol> = {}
+  ): GeneratedFile[] {
+    // Collect the symbols exported by each file
+    const symbols = new Map<string, ExternalSymbol>(Object.entries(externals));
+    files.forEach(file => {
+      this.getExports(file.content).forEach((typeOnly, name) => {
+        symbols.set(name, { from: file.path, typeOnly });
+      });
+    });
+
+    return files.map(file => {
+      const ownExports = this.getExports(file.content);
+      const imports = new Map<string, { values: Set<string>; types: Set<string> }>();
+
+      this.getReferencedIdentifiers(file.content).forEach(name => {
+        const symbol = symbols.get(name);
+
+        if (!symbol || ownExports.has(name) || symbol.from === file.path) {
+          return;
+        }
+
+        const specifier = this.isLocalFile(symbol.from, files)
+          ? this.toModuleSpecifier(file.path, symbol.from)
+          : symbol.from;
+        const entry = imports.get(specifier) ?? { values: new Set<string>(), types: new Set<string>() };
+        (symbol.typeOnly ? entry.types : entry.values).add(name);
+        imports.set(specifier, entry);
+      });
+
+      if (imports.size === 0) {
+        return file;
+      }
+
+      return {
+        ...file,
+        content: `${this.formatImports(imports)}\n\n${file.content.replace(/^\n+/, '')}`
+      };
+    });
+  }
+
+  /**
+   * Collects the top-level exports of a file
+   *
+   * @param content - File content
+   * @returns Whether each exported symbol is type-only, keyed by name
+   */
+  private static getExports(content: string): Map<string, boolean> {
+    const exports = new Map<string, boolean>();
+
+    for (const match of content.matchAll(this.EXPORT_PATTERN)) {
+      exports.set(match[2], this.TYPE_KINDS.has(match[1]));
+    }
+
+    return exports;
+  }
+
+  /**
+   * Collects identifiers a file references
+   * Comments, strings, member accesses and property keys are ignored
+   *
+   * @param content - File content
+   * @returns Referenced identifiers
+   */
+  private static getReferencedIdentifiers(content: string): Set<string> {
+    const code = this.stripCommentsAndStrings(content);
+    const identifiers = new Set<string>();
+
+    for (const match of code.matchAll(/[A-Za-z_$][\w$]*/g)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const isMemberAccess = code[start - 1] === '.' && code[start - 2] !== '.';
+      const isPropertyKey = /^\??:/.test(code.slice(end, end + 2));
+
+      if (!isMemberAccess && !isPropertyKey) {
+        identifiers.add(match[0]);
+      }
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * Replaces comments and string literals with whitespace
+   *
+   * @param content - File content
+   * @returns Code without comments and strings
+   */
+  private static stripCommentsAndStrings(content: string): string {
+    let result = '';
+    let index = 0;
+
+    while (index < content.length) {
+      const char = content[index];
+      const next = content[index + 1];
+
+      if (char === '/' && next === '*') {
+        const end = content.indexOf('*/', index + 2);
+        index = end === -1 ? content.length : end + 2;
+        result += ' ';
+      } else if (char === '/' && next === '/') {
+        const end = content.indexOf('\n', index);
+        index = end === -1 ? content.length : end;
+      } else if (char === '"' || char === '\'' || char === '`') {
+        index++;
+        while (index < content.length && content[index] !== char) {
+          index += content[index] === '\\' ? 2 : 1;
+        }
+        index++;
+        result += '""';
+      } else {
+        result += char;
+        index++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether a module is one of the generated files
+   *
+   * @param from - Module the symbol comes from
+   * @param files - Generated files
+   * @returns True for generated files
+   */
+  private static isLocalFile(from: string, files: GeneratedFile[]): boolean {
+    return files.some(file => file.path === from);
+  }
+
+  /**
+   * Builds a relative ESM import specifier between two generated files
+   *
+   * @param fromPath - Importing file
+   * @param toPath - Imported file
+   * @returns Relative module specifier with a `.js` extension
+   */
+  static toModuleSpecifier(fromPath: string, toPath: string): string {
+    const relative = path.posix.relative(path.posix.dirname(fromPath), toPath)
+      .replace(/\.ts$/, '.js');
+
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+
+  /**
+   * Formats collected imports, packages first and in a stable order
+   *
+   * @param imports - Imported names grouped by module specifier
+   * @returns Import statements
+   */
+  private static formatImports(
+    imports: Map<string, { values: Set<string>; types: Set<string> }>
+  ): string {
+    const specifiers = [...imports.keys()].sort((a, b) => {
+      const aLocal = a.startsWith('.');
+      const bLocal = b.startsWith('.');
+
+      if (aLocal !== bLocal) {
+        return aLocal ? 1 : -1;
+      }
+
+      return a < b ? -1 : a > b ? 1 : 0;
+    });
+
+    return specifiers.flatMap(specifier => {
+      const { values, types } = imports.get(specifier)!;
+      const statements: string[] = [];
+
+      if (values.size > 0) {
+        statements.push(`import { ${[...values].sort().join(', ')} } from '${specifier}';`);
+      }
+
+      if (types.size > 0) {
+        statements.push(`import type { ${[...types].sort().join(', ')} } from '${specifier}';`);
+      }
+
+      return statements;
+    }).join('\n');
+  }
+}
@@ -0,0 +1,69 @@
+// src/generator/permission-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/** Permission configuration enabling every permission output */
+const PERMISSION_CONFIG = { permissionConfig: { generatePermissionTypes: true, generateCollectionPermissions: true } };
+
+describe('Permission generation', () => {
+  test('emits team IDs by default and permission types only when enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+    const { TEAM_IDS } = await importGenerated(output);
+
+    assert.deepEqual(TEAM_IDS, { EDITORS: 'editors' });
+    assert.doesNotMatch(output, /PermissionString/);
+    assert.match(output, /\$permissions\?: string\[\];/);
+  });
+
+  test('checks permission strings and team roles at compile time', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { ...PERMISSION_CONFIG, clientConfig: { generateClient: true } });
+    const usage = `
+import { Permission, Role, type PermissionString, type User } from './types.js';
+
+export const permissions: PermissionString[] = [
+  Permission.read(Role.any()),
+  Permission.update(Role.team('editors', 'owner')),
+  Permission.delete(Role.users('verified')),
+  'write("label:admin")'
+];
+export const user: User = { name: 'Ada', email: 'ada@example.com', active: true, $permissions: permissions };
+
+// @ts-expect-error unknown actions are rejected
+export const unknownAction: PermissionString = 'publish("any")';
+// @ts-expect-error teams must exist in the project
+Role.team('admins');
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('builds the same strings as the SDK', async () => {
+    const { Permission, Role } = await importGenerated(await generateTypes(BLOG_SCHEMA, PERMISSION_CONFIG));
+    const sdk = await import('appwrite');
+
+    assert.equal(Permission.read(Role.any()), sdk.Permission.read(sdk.Role.any()));
+    assert.equal(Permission.write(Role.team('editors', 'owner')), sdk.Permission.write(sdk.Role.team('editors', 'owner')));
+    assert.equal(Permission.update(Role.user('ada', 'verified')), sdk.Permission.update(sdk.Role.user('ada', 'verified')));
+    assert.equal(Permission.delete(Role.label('admin')), sdk.Permission.delete(sdk.Role.label('admin')));
+  });
+
+  test('lists the roles granted per action, counting write as create, update and delete', async () => {
+    const schema = {
+      ...BLOG_SCHEMA,
+      collections: BLOG_SCHEMA.collections.map(collection => collection.$id === 'posts'
+        ? { ...collection, $permissions: ['read("any")', 'create("users")', 'write("team:editors")'] }
+        : collection)
+    };
+    const { PostPermissions } = await importGenerated(await generateTypes(schema, PERMISSION_CONFIG));
+
+    assert.equal(PostPermissions.documentSecurity, true);
+    assert.deepEqual(PostPermissions.roles, {
+      read: ['any'],
+      create: ['users', 'team:editors'],
+      update: ['team:editors'],
+      delete: ['team:editors']
+    });
+  });
+});
@@ -0,0 +1,200 @@
+// src/generator/permission-generator.ts
+import { AppwriteCollection } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for permission generation
+ */
+export interface PermissionGenerationConfig {
+  /**
+   * Whether to generate `Role`, `PermissionString` and `TeamId` types with `Role` and `Permission` builders
+   * Document `$permissions` are typed as `PermissionString[]` when enabled
+   */
+  generatePermissionTypes?: boolean;
+
+  /** Whether to generate a `XPermissions` constant per collection with its permissions and document security */
+  generateCollectionPermissions?: boolean;
+}
+
+/**
+ * Permission generation utility
+ * Generates template-literal types and builders for Appwrite permission strings
+ * and constants describing collection-level permissions
+ */
+export class PermissionGenerator {
+  /** Default configuration for permission generation */
+  private static DEFAULT_CONFIG: Required<PermissionGenerationConfig> = {
+    generatePermissionTypes: false,
+    generateCollectionPermissions: false
+  };
+
+  /** Actions a collection grants roles, `write` being short for create, update and delete */
+  private static ACTIONS = ['read', 'create', 'update', 'delete'];
+
+  /** Name of the permission string type referenced by document metadata */
+  static PERMISSION_TYPE = 'PermissionString';
+
+  /**
+   * Generates permission and role types with their builders
+   *
+   * @param teams - Teams of the Appwrite configuration
+   * @param config - Optional configuration for permission generation
+   * @returns Generated permission definitions, empty when disabled
+   */
+  static generatePermissionTypes(
+    teams: Array<{ $id: string; name: string }>,
+    config: PermissionGenerationConfig = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    if (!fullConfig.generatePermissionTypes) {
+      return '';
+    }
+
+    // Without teams in the schema, any team ID is accepted
+    const teamId = teams.length > 0
+      ? teams.map(team => `'${team.$id}'`).join(' | ')
+      : 'string';
+
+    return `
+/** ID of a team of the project */
+export type TeamId = ${teamId};
+
+/** Role a permission is granted to */
+export type Role =
+  | 'any'
+  | 'guests'
+  | 'users'
+  | 'users/verified'
+  | 'users/unverified'
+  | \`user:\${string}\`
+  | \`team:\${TeamId}\`
+  | \`team:\${TeamId}/\${string}\`
+  | \`member:\${string}\`
+  | \`label:\${string}\`;
+
+/** Action a permission grants; \`write\` is short for create, update and delete */
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete' | 'write';
+
+/** Appwrite permission string, e.g. \`read("user:abc")\` */
+export type ${this.PERMISSION_TYPE} = \`\${PermissionAction}("\${Role}")\`;
+
+/**
+ * Builders for role strings, mirroring the SDK's \`Role\`
+ */
+export const Role = {
+  any: (): Role => 'any',
+  guests: (): Role => 'guests',
+  users: (status?: 'verified' | 'unverified'): Role => status ? \`users/\${status}\` : 'users',
+  user: (id: string, status?: 'verified' | 'unverified'): Role => status ? \`user:\${id}/\${status}\` : \`user:\${id}\`,
+  team: (id: TeamId, role?: string): Role => role ? \`team:\${id}/\${role}\` : \`team:\${id}\`,
+  member: (id: string): Role => \`member:\${id}\`,
+  label: (name: string): Role => \`label:\${name}\`
+};
+
+/**
+ * Builders for permission strings, mirroring the SDK's \`Permission\`
+ */
+export const Permission = {
+  read: (role: Role): ${this.PERMISSION_TYPE} => \`read("\${role}")\`,
+  create: (role: Role): ${this.PERMISSION_TYPE} => \`create("\${role}")\`,
+  update: (role: Role): ${this.PERMISSION_TYPE} => \`update("\${role}")\`,
+  delete: (role: Role): ${this.PERMISSION_TYPE} => \`delete("\${role}")\`,
+  write: (role: Role): ${this.PERMISSION_TYPE} => \`write("\${role}")\`
+};
+`;
+  }
+
+  /**
+   * Generates a constant per collection describing its permissions
+   *
+   * @param collections - Collections to describe
+   * @param config - Optional configuration for permission generation
+   * @param interfaceConfig - Interface configuration used to name the constants
+   * @returns Generated permission constants, empty when disabled
+   */
+  static generateCollectionPermissions(
+    collections: AppwriteCollection[],
+    config: PermissionGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    if (!fullConfig.generateCollectionPermissions) {
+      return '';
+    }
+
+    return collections
+      .map(collection => this.generateCollectionConstant(collection, interfaceConfig))
+      .join('\n');
+  }
+
+  /**
+   * Generates the permission constant of a single collection
+   *
+   * @param collection - Collection to describe
+   * @param interfaceConfig - Interface configuration used to name the constant
+   * @returns Generated constant
+   */
+  private static generateCollectionConstant(
+    collection: AppwriteCollection,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    const constantName = `${InterfaceGenerator.generateInterfaceName(
+      collection.name,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    )}Permissions`;
+    const permissions = collection.$permissions ?? [];
+    const roles = this.groupRolesByAction(permissions);
+    const quoteAll = (values: string[]) => values.map(value => `'${value.replace(/'/g, "\\'")}'`).join(', ');
+
+    return `
+/**
+ * Collection-level permissions of ${collection.name}
+ * With document security, documents may grant further roles through their own permissions
+ */
+export const ${constantName} = {
+  collectionId: '${collection.$id}',
+  documentSecurity: ${collection.documentSecurity ?? false},
+  permissions: [${quoteAll(permissions)}],
+  roles: {
+${this.ACTIONS.map(action => `    ${action}: [${quoteAll(roles[action])}],`).join('\n')}
+  },
+} as const;
+`;
+  }
+
+  /**
+   * Groups the roles of permission strings by the action they are granted
+   * `write` grants create, update and delete
+   *
+   * @param permissions - Permission strings, e.g. `read("any")`
+   * @returns Roles keyed by action, without duplicates
+   */
+  private static groupRolesByAction(permissions: string[]): Record<string, string[]> {
+    const roles: Record<string, string[]> = Object.fromEntries(this.ACTIONS.map(action => [action, []]));
+
+    permissions.forEach(permission => {
+      const match = permission.match(/^(\w+)\("(.*)"\)$/);
+      if (!match) return;
+
+      const [, action, role] = match;
+      const actions = action === 'write' ? ['create', 'update', 'delete'] : [action];
+
+      actions
+        .filter(granted => roles[granted] && !roles[granted].includes(role))
+        .forEach(granted => roles[granted].push(role));
+    });
+
+    return roles;
+  }
+}
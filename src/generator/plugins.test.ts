@@ -0,0 +1,65 @@
+// src/generator/plugins.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GeneratorPlugin } from './plugins.js';
+import { PluginError } from '../utils/errors.js';
+import { generateModules, generateTypes, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Generator plugins', () => {
+  test('overrides attribute types with the type returned by onAttribute', async () => {
+    const plugin: GeneratorPlugin = {
+      name: 'branded-emails',
+      onAttribute: attribute => attribute.key === 'email' ? '`${string}@${string}`' : undefined
+    };
+    const output = await generateTypes(BLOG_SCHEMA, { plugins: [plugin] });
+    const usage = `
+import type { User } from './types.js';
+
+export const user: User = { name: 'Ada', email: 'ada@example.com', active: true };
+// @ts-expect-error the override only accepts addresses
+export const invalid: User = { ...user, email: 'ada' };
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('skips collections for which onCollection returns null', async () => {
+    const plugin: GeneratorPlugin = {
+      name: 'without-posts',
+      onCollection: collection => collection.$id === 'posts' ? null : undefined
+    };
+    const output = await generateTypes(BLOG_SCHEMA, { plugins: [plugin] });
+
+    assert.match(output, /export interface User \{/);
+    assert.doesNotMatch(output, /export interface Post \{/);
+  });
+
+  test('replaces emitted files and adds output files verbatim', async () => {
+    const plugin: GeneratorPlugin = {
+      name: 'manifest',
+      onSchemaLoaded(schema, context) {
+        context.addOutputFile('collections.json', JSON.stringify(schema.collections.map(c => c.$id)));
+      },
+      onEmitFile: file => ({ ...file, content: `/* eslint-disable */\n${file.content}` })
+    };
+    const files = await generateModules(BLOG_SCHEMA, { plugins: [plugin] });
+
+    assert.equal(files['collections.json'], '["posts","users"]');
+    assert.match(files['users.ts'], /\/\* eslint-disable \*\//);
+  });
+
+  test('attributes hook failures to the plugin', async () => {
+    const plugin: GeneratorPlugin = {
+      name: 'broken',
+      onAttribute() {
+        throw new Error('boom');
+      }
+    };
+
+    await assert.rejects(
+      generateTypes(BLOG_SCHEMA, { plugins: [plugin] }),
+      (error: unknown) => error instanceof PluginError && /broken\.onAttribute failed: boom/.test(error.message)
+    );
+  });
+});
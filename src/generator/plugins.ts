@@ -0,0 +1,284 @@
+// src/generator/plugins.ts
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { AppwriteAttribute, AppwriteCollection } from './type-converters.js';
+import { GeneratedFile } from './module-linker.js';
+import type { TypeGeneratorConfig } from './index.js';
+import { PluginError } from '../utils/errors.js';
+
+/**
+ * Parsed schema the generator works on
+ */
+export interface PluginSchema {
+  /** Parsed Appwrite configuration, limited to the selected databases */
+  inputConfig: any;
+
+  /** Collections types are generated for */
+  collections: AppwriteCollection[];
+}
+
+/**
+ * Context passed to every plugin hook
+ */
+export interface PluginContext {
+  /** Effective generator configuration */
+  config: Readonly<TypeGeneratorConfig>;
+
+  /**
+   * Adds a file to the output, written verbatim next to the generated types
+   * @param filePath - Path relative to the output directory
+   * @param content - File content
+   */
+  addOutputFile(filePath: string, content: string): void;
+}
+
+/**
+ * A generator plugin
+ * Every hook is optional and may be async; hooks run in plugin order
+ */
+export interface GeneratorPlugin {
+  /** Plugin name used in error messages */
+  name: string;
+
+  /** Called once with the parsed schema; may return a replacement schema */
+  onSchemaLoaded?(
+    schema: PluginSchema,
+    context: PluginContext
+  ): PluginSchema | void | Promise<PluginSchema | void>;
+
+  /** Called for every collection; may return a replacement, or `null` to skip the collection */
+  onCollection?(
+    collection: AppwriteCollection,
+    context: PluginContext
+  ): AppwriteCollection | null | void | Promise<AppwriteCollection | null | void>;
+
+  /** Called for every attribute; may return a TypeScript type overriding the generated one */
+  onAttribute?(
+    attribute: AppwriteAttribute,
+    collection: AppwriteCollection,
+    context: PluginContext
+  ): string | void | Promise<string | void>;
+
+  /** Called for every generated file before transformers run; may return a replacement file */
+  onEmitFile?(
+    file: GeneratedFile,
+    context: PluginContext
+  ): GeneratedFile | void | Promise<GeneratedFile | void>;
+}
+
+/**
+ * A plugin, a module path or package name exporting one, or a module path with options
+ * Modules export a plugin or a factory receiving the options as their default export
+ */
+export type PluginSpecifier = GeneratorPlugin | string | [string, Record<string, unknown>];
+
+/**
+ * Plugin loading and hook execution utility
+ * Holds the plugins of one generation run and the files they add
+ */
+export class PluginManager {
+  /** Files added by plugins during this run */
+  private outputFiles: GeneratedFile[] = [];
+
+  /** Context shared by all hooks */
+  private context: PluginContext;
+
+  /**
+   * Creates a plugin manager for loaded plugins
+   *
+   * @param plugins - Plugins in execution order
+   * @param config - Effective generator configuration
+   */
+  private constructor(
+    private readonly plugins: GeneratorPlugin[],
+    config: TypeGeneratorConfig
+  ) {
+    this.context = {
+      config,
+      addOutputFile: (filePath, content) => {
+        this.outputFiles.push({ path: filePath.replace(/\\/g, '/'), content });
+      }
+    };
+  }
+
+  /**
+   * Loads the configured plugins
+   *
+   * @param specifiers - Plugins or modules to load
+   * @param config - Effective generator configuration
+   * @returns Plugin manager for one generation run
+   * @throws {PluginError} If a plugin module cannot be loaded
+   */
+  static async load(
+    specifiers: PluginSpecifier[] = [],
+    config: TypeGeneratorConfig
+  ): Promise<PluginManager> {
+    const plugins: GeneratorPlugin[] = [];
+
+    for (const specifier of specifiers) {
+      plugins.push(typeof specifier === 'object' && !Array.isArray(specifier)
+        ? specifier
+        : await this.importPlugin(specifier));
+    }
+
+    return new PluginManager(plugins, config);
+  }
+
+  /**
+   * Runs the schema, collection and attribute hooks
+   *
+   * @param schema - Parsed schema
+   * @returns Schema after all hooks ran
+   * @throws {PluginError} If a hook fails
+   */
+  async applySchemaHooks(schema: PluginSchema): Promise<PluginSchema> {
+    if (this.plugins.length === 0) {
+      return schema;
+    }
+
+    let result = schema;
+
+    for (const plugin of this.plugins) {
+      result = await this.runHook(plugin, 'onSchemaLoaded', () =>
+        plugin.onSchemaLoaded?.(result, this.context)
+      ) ?? result;
+    }
+
+    const collections: AppwriteCollection[] = [];
+
+    for (const original of result.collections) {
+      let collection: AppwriteCollection | null = original;
+
+      for (const plugin of this.plugins) {
+        if (!collection) break;
+        const current: AppwriteCollection = collection;
+        const replacement = await this.runHook(plugin, 'onCollection', () =>
+          plugin.onCollection?.(current, this.context)
+        );
+        collection = replacement === undefined ? current : replacement;
+      }
+
+      if (collection) {
+        collections.push(await this.applyAttributeHooks(collection));
+      }
+    }
+
+    return { ...result, collections };
+  }
+
+  /**
+   * Runs the emit hooks on generated files
+   *
+   * @param files - Generated files
+   * @returns Files after all hooks ran
+   * @throws {PluginError} If a hook fails
+   */
+  async applyEmitHooks(files: GeneratedFile[]): Promise<GeneratedFile[]> {
+    const result: GeneratedFile[] = [];
+
+    for (const original of files) {
+      let file = original;
+
+      for (const plugin of this.plugins) {
+        const current = file;
+        file = await this.runHook(plugin, 'onEmitFile', () =>
+          plugin.onEmitFile?.(current, this.context)
+        ) ?? current;
+      }
+
+      result.push(file);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the files plugins added during this run
+   *
+   * @returns Added files
+   */
+  getOutputFiles(): GeneratedFile[] {
+    return [...this.outputFiles];
+  }
+
+  /**
+   * Runs the attribute hooks of a collection, recording type overrides on the attributes
+   *
+   * @param collection - Collection whose attributes to process
+   * @returns Collection with overridden attributes
+   */
+  private async applyAttributeHooks(collection: AppwriteCollection): Promise<AppwriteCollection> {
+    const attributes: AppwriteAttribute[] = [];
+
+    for (const attribute of collection.attributes) {
+      let typeOverride = attribute.typeOverride;
+
+      for (const plugin of this.plugins) {
+        typeOverride = await this.runHook(plugin, 'onAttribute', () =>
+          plugin.onAttribute?.({ ...attribute, typeOverride }, collection, this.context)
+        ) ?? typeOverride;
+      }
+
+      attributes.push(typeOverride === undefined ? attribute : { ...attribute, typeOverride });
+    }
+
+    return { ...collection, attributes };
+  }
+
+  /**
+   * Runs a single hook, attributing failures to the plugin
+   *
+   * @param plugin - Plugin the hook belongs to
+   * @param hook - Name of the hook
+   * @param run - Invokes the hook
+   * @returns Hook result, `undefined` when the hook is missing or returned nothing
+   * @throws {PluginError} If the hook throws
+   */
+  private async runHook<T>(
+    plugin: GeneratorPlugin,
+    hook: keyof GeneratorPlugin,
+    run: () => T | void | Promise<T | void> | undefined
+  ): Promise<T | undefined> {
+    try {
+      return (await run()) as T | undefined;
+    } catch (error) {
+      throw new PluginError(
+        `${plugin.name}.${String(hook)} failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Imports a plugin module
+   * Relative paths resolve from the working directory and packages from the project's dependencies
+   *
+   * @param specifier - Module path or package name, optionally with plugin options
+   * @returns Plugin exported by the module
+   * @throws {PluginError} If the module cannot be loaded or exports no plugin
+   */
+  private static async importPlugin(specifier: string | [string, Record<string, unknown>]): Promise<GeneratorPlugin> {
+    const [moduleId, options] = Array.isArray(specifier) ? specifier : [specifier, {}];
+
+    let exported: any;
+    try {
+      const resolvedPath = moduleId.startsWith('.') || path.isAbsolute(moduleId)
+        ? path.resolve(process.cwd(), moduleId)
+        : createRequire(path.join(process.cwd(), 'package.json')).resolve(moduleId);
+      const module = await import(pathToFileURL(resolvedPath).href);
+      exported = module.default ?? module.plugin;
+    } catch (error) {
+      throw new PluginError(
+        `Unable to load plugin "${moduleId}": ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const plugin = typeof exported === 'function' ? await exported(options) : exported;
+
+    if (!plugin || typeof plugin !== 'object') {
+      throw new PluginError(`Module "${moduleId}" does not export a plugin`);
+    }
+
+    return { name: moduleId, ...plugin };
+  }
+}
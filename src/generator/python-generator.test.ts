@@ -0,0 +1,46 @@
+// src/generator/python-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import { generateModules } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/** Whether a Python interpreter is available to parse the generated package */
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+
+describe('Python generation', () => {
+  test('emits a package with models, constants and re-exports', async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['python'] });
+    const models = files['appwrite_models/models.py'];
+
+    assert.match(files['appwrite_models/__init__.py'], /^from \.models import PostStatus, UserRole, Post, User$/m);
+    assert.match(files['appwrite_models/constants.py'], /^    SEND_EMAIL = "send-email"  # Send email$/m);
+    assert.match(models, /^class UserRole\(str, Enum\):$/m);
+    assert.match(models, /^    name: constr\(max_length=64\)$/m);
+    assert.match(models, /^    age: Optional\[conint\(ge=0, le=150\)\] = None$/m);
+    assert.match(models, /^    last_seen: Optional\[datetime\] = Field\(default=None, alias="lastSeen"\)$/m);
+    assert.match(models, /^    id: Optional\[str\] = Field\(default=None, alias="\$id"\)$/m);
+    assert.match(models, /^    author: Optional\[Union\[str, User\]\] = None$/m);
+    assert.match(models, /^    posts: Optional\[List\[Union\[str, Post\]\]\] = None$/m);
+  });
+
+  test('types enum attributes as literals and omits metadata when configured', async () => {
+    const files = await generateModules(BLOG_SCHEMA, {
+      targets: ['python'],
+      pythonConfig: { enumStyle: 'literal', includeMetadata: false, directory: 'py' }
+    });
+    const models = files['py/models.py'];
+
+    assert.match(models, /^    role: Optional\[Literal\["admin", "member"\]\] = None$/m);
+    assert.doesNotMatch(models, /class UserRole|alias="\$id"/);
+  });
+
+  test('emits valid Python syntax', { skip: !hasPython && 'python3 is not installed' }, async () => {
+    const files = await generateModules(BLOG_SCHEMA, { targets: ['python'] });
+
+    for (const [filePath, content] of Object.entries(files).filter(([filePath]) => filePath.endsWith('.py'))) {
+      const result = spawnSync('python3', ['-c', 'import ast, sys; ast.parse(sys.stdin.read())'], { input: content });
+      assert.equal(result.status, 0, `${filePath}: ${result.stderr}`);
+    }
+  });
+});
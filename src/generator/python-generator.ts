@@ -0,0 +1,396 @@
+// src/generator/python-generator.ts
+import * as path from 'path';
+import { TypeConverter, AppwriteAttribute, AppwriteCollection } from './type-converters.js';
+import { EnumGenerator } from './enum-generator.js';
+import { IDConstantsGenerator, IDConstantsGenerationConfig } from './id-constants-generator.js';
+import { GeneratedFile } from './module-linker.js';
+
+/**
+ * Configuration for Python model generation
+ */
+export interface PythonGenerationConfig {
+  /** Directory of the generated Python package, relative to the output directory */
+  directory?: string;
+
+  /** Whether enum attributes are typed as `Enum` classes or `Literal` types */
+  enumStyle?: 'enum' | 'literal';
+
+  /** Whether models include the `$id`, `$createdAt`, `$updatedAt` and `$permissions` metadata fields */
+  includeMetadata?: boolean;
+}
+
+/**
+ * A collection to emit a Pydantic model for
+ */
+export interface PythonModelEntry {
+  /** Collection the model describes */
+  collection: AppwriteCollection;
+
+  /** Name of the model class */
+  className: string;
+
+  /** Prefix of the collection's enum names, set when databases are namespaced */
+  enumPrefix: string;
+}
+
+/**
+ * Python model generation utility
+ * Generates a package with Pydantic v2 models per collection and a constants module
+ */
+export class PythonGenerator {
+  /** Default configuration for Python model generation */
+  private static DEFAULT_CONFIG: Required<PythonGenerationConfig> = {
+    directory: 'appwrite_models',
+    enumStyle: 'enum',
+    includeMetadata: true
+  };
+
+  /** Python types of Appwrite attribute types */
+  private static TYPE_MAP: Record<string, string> = {
+    string: 'str',
+    integer: 'int',
+    float: 'float',
+    boolean: 'bool',
+    datetime: 'datetime'
+  };
+
+  /** Document metadata fields with their field names and types */
+  private static METADATA_FIELDS: Array<[string, string, string]> = [
+    ['$id', 'id', 'str'],
+    ['$createdAt', 'created_at', 'datetime'],
+    ['$updatedAt', 'updated_at', 'datetime'],
+    ['$permissions', 'permissions', 'List[str]']
+  ];
+
+  /** Keywords, and names Pydantic reserves on models */
+  private static RESERVED_WORDS = new Set([
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def',
+    'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda',
+    'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+    'copy', 'construct', 'dict', 'json', 'schema', 'schema_json', 'validate', 'parse_obj', 'parse_raw',
+    'parse_file', 'from_orm', 'update_forward_refs'
+  ]);
+
+  /** First line of every generated module, marking files the generator owns */
+  static HEADER_TITLE = '# Auto-generated Appwrite models';
+
+  /** Header of every generated module */
+  private static HEADER = `${PythonGenerator.HEADER_TITLE}
+# WARNING: This file is auto-generated. Do not modify manually.
+`;
+
+  /**
+   * Generates the Python package
+   *
+   * @param entries - Collections with their class and enum names
+   * @param inputConfig - Parsed Appwrite configuration, for the constants module
+   * @param config - Optional configuration for Python model generation
+   * @param idConstantsConfig - ID constant configuration deciding which constants are emitted
+   * @returns `models.py`, `constants.py` and `__init__.py` with paths relative to the output directory
+   */
+  static generatePythonFiles(
+    entries: PythonModelEntry[],
+    inputConfig: any,
+    config: PythonGenerationConfig = {},
+    idConstantsConfig: IDConstantsGenerationConfig = {}
+  ): GeneratedFile[] {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const constants = this.generateConstants(inputConfig, idConstantsConfig);
+    const models = this.generateModels(entries, fullConfig);
+
+    const exports = (source: string) => [...source.matchAll(/^class (\w+)/gm)].map(match => match[1]);
+    const modelNames = exports(models);
+    const constantNames = exports(constants);
+    const initModule = `${this.HEADER}
+${constantNames.length > 0 ? `from .constants import ${constantNames.join(', ')}\n` : ''}from .models import ${modelNames.join(', ')}
+
+__all__ = [${[...constantNames, ...modelNames].map(name => `"${name}"`).join(', ')}]
+`;
+
+    return [
+      { path: '__init__.py', content: initModule },
+      { path: 'constants.py', content: `${this.HEADER}${constants}` },
+      { path: 'models.py', content: `${this.HEADER}${models}` }
+    ].map(file => ({
+      path: path.posix.join(fullConfig.directory, file.path),
+      content: file.content
+    }));
+  }
+
+  /**
+   * Generates the constants module, mirroring the TypeScript ID constants
+   *
+   * @param inputConfig - Parsed Appwrite configuration
+   * @param config - ID constant configuration
+   * @returns Generated classes of constants
+   */
+  private static generateConstants(inputConfig: any, config: IDConstantsGenerationConfig): string {
+    return IDConstantsGenerator.listResourceGroups(inputConfig, config)
+      .map(({ className, label, resources }) => {
+        const names = this.uniqueNames(resources.map(resource => this.toConstantName(resource.name)));
+        const constants = resources
+          .map((resource, index) => `    ${names[index]} = ${this.quote(resource.$id)}  # ${resource.name}`)
+          .join('\n');
+
+        return `
+
+class ${className}:
+    """${label} identifiers for the project"""
+
+${constants}
+`;
+      })
+      .join('');
+  }
+
+  /**
+   * Generates the models module
+   *
+   * @param entries - Collections with their class and enum names
+   * @param config - Python model generation configuration
+   * @returns Generated enums and models
+   */
+  private static generateModels(entries: PythonModelEntry[], config: Required<PythonGenerationConfig>): string {
+    const classNames = new Map(entries.map(entry => [
+      `${entry.collection.databaseId}/${entry.collection.$id}`,
+      entry.className
+    ]));
+
+    // Enums are keyed by name, so attributes sharing a name share an enum like in TypeScript
+    const enums = new Map<string, string[]>();
+    if (config.enumStyle === 'enum') {
+      entries.forEach(entry => entry.collection.attributes
+        .filter(attr => attr.format === 'enum' && attr.elements?.length)
+        .forEach(attr => enums.set(this.enumName(entry, attr), attr.elements as string[])));
+    }
+
+    const models = entries.map(entry => this.generateModel(
+      entry,
+      config,
+      attribute => classNames.get(`${entry.collection.databaseId}/${attribute.relatedCollection}`)
+    ));
+    // Related models may be declared after the models referencing them
+    const rebuilds = entries
+      .filter(entry => entry.collection.attributes.some(attr => attr.type === 'relationship'))
+      .map(entry => `${entry.className}.model_rebuild()`);
+    const body = [
+      ...[...enums.entries()].map(([name, elements]) => this.generateEnum(name, elements)),
+      ...models,
+      ...(rebuilds.length > 0 ? [`\n\n${rebuilds.join('\n')}\n`] : [])
+    ].join('');
+
+    // Only import what the models use
+    const typingImports = ['List', 'Literal', 'Optional', 'Union'].filter(name => body.includes(`${name}[`));
+    const pydanticImports = ['BaseModel', 'ConfigDict', 'Field', 'confloat', 'conint', 'constr']
+      .filter(name => ['BaseModel', 'ConfigDict'].includes(name) || body.includes(`${name}(`));
+
+    const imports = [
+      'from __future__ import annotations',
+      '',
+      ...(body.includes('datetime') ? ['from datetime import datetime'] : []),
+      ...(enums.size > 0 ? ['from enum import Enum'] : []),
+      ...(typingImports.length > 0 ? [`from typing import ${typingImports.join(', ')}`] : []),
+      '',
+      `from pydantic import ${pydanticImports.join(', ')}`
+    ];
+
+    return `\n${imports.join('\n')}\n${body}`;
+  }
+
+  /**
+   * Generates an enum class for an enum attribute
+   *
+   * @param name - Enum name
+   * @param elements - Values stored in Appwrite
+   * @returns Generated enum
+   */
+  private static generateEnum(name: string, elements: string[]): string {
+    const members = this.uniqueNames(elements.map(element => this.toConstantName(element)));
+
+    return `
+
+class ${name}(str, Enum):
+    """Values of ${name}"""
+
+${elements.map((element, index) => `    ${members[index]} = ${this.quote(element)}`).join('\n')}
+`;
+  }
+
+  /**
+   * Generates the Pydantic model of a collection
+   * Fields use snake_case names with the attribute key as alias, so documents validate as returned by Appwrite
+   *
+   * @param entry - Collection with its class and enum names
+   * @param config - Python model generation configuration
+   * @param resolveRelated - Returns the class of a relationship's related collection, if generated
+   * @returns Generated model
+   */
+  private static generateModel(
+    entry: PythonModelEntry,
+    config: Required<PythonGenerationConfig>,
+    resolveRelated: (attribute: AppwriteAttribute) => string | undefined
+  ): string {
+    const metadata = config.includeMetadata
+      ? this.METADATA_FIELDS.map(([key, name, type]) => ({ key, name, type: `Optional[${type}]`, required: false }))
+      : [];
+    const attributes = entry.collection.attributes.map(attr => {
+      // Relationships are only populated when selected, so they are always optional
+      const required = attr.required && attr.type !== 'relationship';
+      const type = this.generateType(entry, attr, config.enumStyle, resolveRelated);
+
+      return { key: attr.key, name: this.toFieldName(attr.key), type: required ? type : `Optional[${type}]`, required };
+    });
+
+    const fields = [...metadata, ...attributes];
+    const names = this.uniqueNames(fields.map(field => field.name));
+
+    const lines = fields.map((field, index) => {
+      const name = names[index];
+      if (name === field.key) {
+        return `    ${name}: ${field.type}${field.required ? '' : ' = None'}`;
+      }
+
+      const args = [...(field.required ? [] : ['default=None']), `alias=${this.quote(field.key)}`];
+      return `    ${name}: ${field.type} = Field(${args.join(', ')})`;
+    });
+
+    return `
+
+class ${entry.className}(BaseModel):
+    """Document of the ${entry.collection.name} collection"""
+
+    model_config = ConfigDict(populate_by_name=True)
+
+${lines.join('\n')}
+`;
+  }
+
+  /**
+   * Generates the type annotation of an attribute, without optionality
+   *
+   * @param entry - Collection the attribute belongs to
+   * @param attribute - Attribute to type
+   * @param enumStyle - Whether enum attributes reference an `Enum` class or a `Literal` type
+   * @param resolveRelated - Returns the class of a relationship's related collection, if generated
+   * @returns Python type annotation
+   */
+  private static generateType(
+    entry: PythonModelEntry,
+    attribute: AppwriteAttribute,
+    enumStyle: PythonGenerationConfig['enumStyle'],
+    resolveRelated: (attribute: AppwriteAttribute) => string | undefined
+  ): string {
+    if (attribute.type === 'relationship') {
+      // Unpopulated relationships hold document IDs
+      const related = resolveRelated(attribute);
+      const type = related ? `Union[str, ${related}]` : 'Union[str, dict]';
+      return TypeConverter.isManyRelationship(attribute) ? `List[${type}]` : type;
+    }
+
+    let type = this.TYPE_MAP[attribute.type] ?? 'str';
+
+    if (attribute.format === 'enum' && attribute.elements?.length) {
+      type = enumStyle === 'enum'
+        ? this.enumName(entry, attribute)
+        : `Literal[${attribute.elements.map(element => this.quote(element)).join(', ')}]`;
+    } else if (attribute.type === 'string' && attribute.size) {
+      type = `constr(max_length=${attribute.size})`;
+    } else if (attribute.type === 'integer' || attribute.type === 'float') {
+      const bounds = [
+        ...(this.isMeaningful(attribute.min) ? [`ge=${attribute.min}`] : []),
+        ...(this.isMeaningful(attribute.max) ? [`le=${attribute.max}`] : [])
+      ];
+      if (bounds.length > 0) {
+        type = `${attribute.type === 'integer' ? 'conint' : 'confloat'}(${bounds.join(', ')})`;
+      }
+    }
+
+    return attribute.array ? `List[${type}]` : type;
+  }
+
+  /**
+   * Names the enum of an enum attribute
+   *
+   * @param entry - Collection the attribute belongs to
+   * @param attribute - Enum attribute
+   * @returns Enum name
+   */
+  private static enumName(entry: PythonModelEntry, attribute: AppwriteAttribute): string {
+    return `${entry.enumPrefix}${EnumGenerator.generateTypeName(entry.collection.name, attribute.key)}`;
+  }
+
+  /**
+   * Converts an attribute key to a snake_case field name
+   *
+   * @param key - Attribute key
+   * @returns Field name that is neither a keyword nor reserved by Pydantic
+   */
+  private static toFieldName(key: string): string {
+    const name = key
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .toLowerCase() || 'field';
+
+    if (/^\d/.test(name)) return `field_${name}`;
+    return this.RESERVED_WORDS.has(name) || name.startsWith('model_') ? `${name}_` : name;
+  }
+
+  /**
+   * Converts a name or value to an UPPER_SNAKE_CASE constant name
+   *
+   * @param name - Name to convert
+   * @returns Constant name
+   */
+  private static toConstantName(name: string): string {
+    const constant = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .toUpperCase() || 'VALUE';
+
+    return /^\d/.test(constant) ? `_${constant}` : constant;
+  }
+
+  /**
+   * Makes identifiers unique by numbering repeated ones
+   *
+   * @param names - Identifiers in order
+   * @returns Unique identifiers in the same order
+   */
+  private static uniqueNames(names: string[]): string[] {
+    const seen = new Map<string, number>();
+
+    return names.map(name => {
+      const count = (seen.get(name) ?? 0) + 1;
+      seen.set(name, count);
+      return count === 1 ? name : `${name}_${count}`;
+    });
+  }
+
+  /**
+   * Checks whether a numeric bound is meaningful
+   * Appwrite's default bounds exceed the safe number range and are ignored
+   *
+   * @param value - Bound to check
+   * @returns True for bounds worth enforcing
+   */
+  private static isMeaningful(value?: number): value is number {
+    return typeof value === 'number' && Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+  }
+
+  /**
+   * Formats a string as a double-quoted Python string literal
+   *
+   * @param value - String to quote
+   * @returns String literal
+   */
+  private static quote(value: string): string {
+    return JSON.stringify(value);
+  }
+}
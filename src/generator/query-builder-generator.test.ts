@@ -0,0 +1,65 @@
+// src/generator/query-builder-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Query } from 'appwrite';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Query builder generation', () => {
+  test('restricts each builder to the queryable attributes of its collection', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { queryConfig: { generateQueryBuilders: true } });
+
+    assert.match(output, /export type PostQueryValues = \{[^}]*"title": string;[^}]*"status": "draft" \| "live";/);
+    assert.match(output, /export const UserQuery = createQueryBuilder</);
+    // Relationships cannot be queried
+    assert.doesNotMatch(output.slice(output.indexOf('export type PostQueryValues')), /"author"/);
+  });
+
+  test('produces the same query strings as the SDK', async () => {
+    const { UserQuery, PostQuery } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { queryConfig: { generateQueryBuilders: true } })
+    );
+
+    assert.equal(PostQuery.equal('status', 'live'), Query.equal('status', 'live'));
+    assert.equal(PostQuery.equal('status', ['draft', 'live']), Query.equal('status', ['draft', 'live']));
+    assert.equal(UserQuery.greaterThan('age', 18), Query.greaterThan('age', 18));
+    assert.equal(UserQuery.between('age', 18, 65), Query.between('age', 18, 65));
+    assert.equal(UserQuery.contains('tags', 'math'), Query.contains('tags', ['math']));
+    assert.equal(UserQuery.startsWith('name', 'A'), Query.startsWith('name', 'A'));
+    assert.equal(PostQuery.orderDesc('$createdAt'), Query.orderDesc('$createdAt'));
+    assert.equal(UserQuery.select(['name', 'email']), Query.select(['name', 'email']));
+  });
+
+  for (const sdkPackage of ['appwrite', 'node-appwrite'] as const) {
+    test(`compiles against ${sdkPackage} and rejects invalid keys and values`, async () => {
+      const output = await generateTypes(BLOG_SCHEMA, {
+        queryConfig: { generateQueryBuilders: true },
+        clientConfig: { sdkPackage }
+      });
+      const usage = `
+import { UserQuery, PostQuery } from './types.js';
+
+UserQuery.equal('role', ['admin', 'member']);
+UserQuery.equal('age', [18, 21]);
+UserQuery.notEqual('active', false);
+UserQuery.contains('tags', ['math', 'physics']);
+UserQuery.contains('name', 'Ann');
+UserQuery.between('lastSeen', '2024-01-01', '2024-12-31');
+PostQuery.lessThan('views', 100);
+
+// @ts-expect-error enum values are checked against their elements
+UserQuery.equal('role', 'owner');
+// @ts-expect-error a list may not mix value types
+UserQuery.equal('age', [18, '21']);
+// @ts-expect-error contains only accepts strings
+UserQuery.contains('age', 18);
+// @ts-expect-error comparisons are limited to numbers and datetimes
+UserQuery.greaterThan('name', 'A');
+// @ts-expect-error relationships cannot be queried
+PostQuery.equal('author', 'user-1');
+`;
+
+      assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+    });
+  }
+});
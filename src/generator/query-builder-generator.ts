@@ -0,0 +1,258 @@
+// src/generator/query-builder-generator.ts
+import { TypeConverter, AppwriteAttribute, AppwriteCollection, GenerationScope } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for type-safe query builder generation
+ */
+export interface QueryBuilderGenerationConfig {
+  /** Whether to generate a query builder per collection */
+  generateQueryBuilders?: boolean;
+
+  /** Suffix to add to generated query builder names */
+  querySuffix?: string;
+}
+
+/**
+ * Attribute keys of a collection grouped by the query operators they support
+ */
+interface QueryableKeys {
+  ordered: string[];
+  text: string[];
+  search: string[];
+  contains: string[];
+}
+
+/**
+ * Type-safe query builder generation utility
+ * Generates per-collection helpers that only accept valid attribute keys and values
+ */
+export class QueryBuilderGenerator {
+  /** Default configuration for query builder generation */
+  private static DEFAULT_CONFIG: Required<QueryBuilderGenerationConfig> = {
+    generateQueryBuilders: false,
+    querySuffix: 'Query'
+  };
+
+  /** Document metadata fields that can be queried like attributes */
+  private static METADATA_VALUES: Record<string, string> = {
+    $id: 'string',
+    $createdAt: 'string',
+    $updatedAt: 'string'
+  };
+
+  /**
+   * Generates query builders for Appwrite collections
+   *
+   * @param collections - Collections to generate query builders for
+   * @param config - Optional configuration for query builder generation
+   * @param interfaceConfig - Interface configuration used to derive builder names
+   * @param scope - Whether to emit the shared query builder factory
+   * @returns Generated query builder definitions
+   */
+  static generateQueryBuilders(
+    collections: AppwriteCollection[],
+    config: QueryBuilderGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {},
+    scope: GenerationScope = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    const builders = collections
+      .map(collection => this.generateCollectionQueryBuilder(collection, fullConfig, interfaceConfig))
+      .join('\n');
+
+    return scope.includeSharedHelpers === false
+      ? builders
+      : `${this.generateQueryBuilderFactory()}\n${builders}`;
+  }
+
+  /**
+   * Generates the generic factory shared by all collection query builders
+   *
+   * @returns Generated factory definition
+   */
+  static generateQueryBuilderFactory(): string {
+    return `
+/**
+ * Creates Appwrite query helpers restricted to the given attribute keys
+ * Every helper produces an ordinary Appwrite query string
+ */
+export function createQueryBuilder<
+  Values extends Record<string, string | number | boolean>,
+  OrderedKey extends keyof Values & string,
+  TextKey extends keyof Values & string,
+  SearchKey extends TextKey,
+  ContainsKey extends keyof Values & string
+>() {
+  type Key = keyof Values & string;
+  /** Keys whose queried values are of type T */
+  type KeyOf<T> = { [K in Key]: Values[K] extends T ? K : never }[Key];
+  /** Values of the attribute K that are of type T */
+  type ValueOf<K extends Key, T> = Extract<Values[K], T>;
+
+  // The SDK only accepts lists of a single primitive type, so each type gets its own overload
+  function equal<K extends KeyOf<string>>(attribute: K, value: ValueOf<K, string> | ValueOf<K, string>[]): string;
+  function equal<K extends KeyOf<number>>(attribute: K, value: ValueOf<K, number> | ValueOf<K, number>[]): string;
+  function equal<K extends KeyOf<boolean>>(attribute: K, value: ValueOf<K, boolean> | ValueOf<K, boolean>[]): string;
+  function equal(attribute: Key, value: string | number | boolean | string[] | number[] | boolean[]): string {
+    return Query.equal(attribute, value);
+  }
+
+  function notEqual<K extends KeyOf<string>>(attribute: K, value: ValueOf<K, string> | ValueOf<K, string>[]): string;
+  function notEqual<K extends KeyOf<number>>(attribute: K, value: ValueOf<K, number> | ValueOf<K, number>[]): string;
+  function notEqual<K extends KeyOf<boolean>>(attribute: K, value: ValueOf<K, boolean> | ValueOf<K, boolean>[]): string;
+  function notEqual(attribute: Key, value: string | number | boolean | string[] | number[] | boolean[]): string {
+    return Query.notEqual(attribute, value);
+  }
+
+  return {
+    equal,
+    notEqual,
+    lessThan: <K extends OrderedKey>(attribute: K, value: Values[K]) => Query.lessThan(attribute, value),
+    lessThanEqual: <K extends OrderedKey>(attribute: K, value: Values[K]) => Query.lessThanEqual(attribute, value),
+    greaterThan: <K extends OrderedKey>(attribute: K, value: Values[K]) => Query.greaterThan(attribute, value),
+    greaterThanEqual: <K extends OrderedKey>(attribute: K, value: Values[K]) => Query.greaterThanEqual(attribute, value),
+    between: <K extends OrderedKey>(attribute: K, start: Values[K] & (string | number), end: Values[K] & (string | number)) => Query.between(attribute, start, end),
+    isNull: (attribute: Key) => Query.isNull(attribute),
+    isNotNull: (attribute: Key) => Query.isNotNull(attribute),
+    startsWith: (attribute: TextKey, value: string) => Query.startsWith(attribute, value),
+    endsWith: (attribute: TextKey, value: string) => Query.endsWith(attribute, value),
+    search: (attribute: SearchKey, value: string) => Query.search(attribute, value),
+    contains: <K extends ContainsKey>(attribute: K, value: ValueOf<K, string> | ValueOf<K, string>[]) => Query.contains(attribute, value),
+    orderAsc: (attribute: Key) => Query.orderAsc(attribute),
+    orderDesc: (attribute: Key) => Query.orderDesc(attribute),
+    select: (attributes: Key[]) => Query.select(attributes)
+  };
+}
+`;
+  }
+
+  /**
+   * Generates the query builder for a specific collection
+   *
+   * @param collection - Collection to generate a query builder for
+   * @param config - Query builder generation configuration
+   * @param interfaceConfig - Interface generation configuration
+   * @returns Generated query builder definition
+   */
+  private static generateCollectionQueryBuilder(
+    collection: AppwriteCollection,
+    config: Required<QueryBuilderGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    const interfaceName = InterfaceGenerator.generateInterfaceName(
+      collection.name,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    );
+    const builderName = `${interfaceName}${config.querySuffix}`;
+
+    // Relationships cannot be filtered with attribute queries
+    const attributes = collection.attributes.filter(attr => attr.type !== 'relationship');
+    const keys = this.groupQueryableKeys(collection, attributes);
+
+    const values = [
+      ...Object.entries(this.METADATA_VALUES).map(([key, type]) => `  ${key}: ${type};`),
+      ...attributes.map(attr => `  ${JSON.stringify(attr.key)}: ${this.getValueType(attr)};`)
+    ];
+
+    return `
+/**
+ * Query value types for each queryable ${collection.name} attribute
+ * Array attributes are queried by their element type
+ */
+export type ${builderName}Values = {
+${values.join('\n')}
+};
+
+/**
+ * Type-safe Appwrite query builder for the ${collection.name} collection
+ */
+export const ${builderName} = createQueryBuilder<
+  ${builderName}Values,
+  ${this.toUnion(keys.ordered)},
+  ${this.toUnion(keys.text)},
+  ${this.toUnion(keys.search)},
+  ${this.toUnion(keys.contains)}
+>();
+`;
+  }
+
+  /**
+   * Groups attribute keys by the query operators they support
+   *
+   * @param collection - Collection providing index definitions
+   * @param attributes - Queryable attributes of the collection
+   * @returns Attribute keys grouped by operator compatibility
+   */
+  private static groupQueryableKeys(
+    collection: AppwriteCollection,
+    attributes: AppwriteAttribute[]
+  ): QueryableKeys {
+    const keys: QueryableKeys = {
+      ordered: ['$createdAt', '$updatedAt'],
+      text: [],
+      search: [],
+      contains: []
+    };
+
+    // Full-text search requires a fulltext index on the attribute
+    const fulltextKeys = new Set(
+      collection.indexes
+        .filter(index => index.type === 'fulltext')
+        .flatMap(index => index.attributes)
+    );
+
+    attributes.forEach(attr => {
+      if (!attr.array && ['integer', 'float', 'datetime'].includes(attr.type)) {
+        keys.ordered.push(attr.key);
+      }
+
+      // The SDK only accepts strings for contains, on string and string array attributes alike
+      if (attr.type === 'string') {
+        keys.contains.push(attr.key);
+
+        if (!attr.array) {
+          keys.text.push(attr.key);
+
+          if (fulltextKeys.has(attr.key)) {
+            keys.search.push(attr.key);
+          }
+        }
+      }
+    });
+
+    return keys;
+  }
+
+  /**
+   * Resolves the TypeScript type of a single queried value
+   *
+   * @param attribute - Attribute to resolve the value type for
+   * @returns TypeScript type of one attribute value
+   */
+  private static getValueType(attribute: AppwriteAttribute): string {
+    return TypeConverter.convertToTSType(
+      // Plugin type overrides describe the whole field rather than one queried value
+      { ...attribute, array: false, typeOverride: undefined },
+      { attributeName: attribute.key }
+    );
+  }
+
+  /**
+   * Formats a list of keys as a string literal union
+   *
+   * @param keys - Keys to format
+   * @returns Union type, or `never` for an empty list
+   */
+  private static toUnion(keys: string[]): string {
+    return keys.length > 0
+      ? keys.map(key => JSON.stringify(key)).join(' | ')
+      : 'never';
+  }
+}
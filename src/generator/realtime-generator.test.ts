@@ -0,0 +1,87 @@
+// src/generator/realtime-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Realtime generation', () => {
+  test('accepts only channels and events of existing resources', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { realtimeConfig: { generateRealtimeTypes: true } });
+    const usage = `
+import type { AppwriteEvent, RealtimeChannel, RealtimePayload } from './types.js';
+
+export const channels: RealtimeChannel[] = [
+  'databases.main.collections.users.documents',
+  'databases.main.collections.posts.documents.hello',
+  'buckets.avatars.files',
+  'functions.send-email',
+  'account'
+];
+// @ts-expect-error misspelled collections are rejected
+export const misspelled: RealtimeChannel = 'databases.main.collections.userz.documents';
+
+export const events: AppwriteEvent[] = [
+  'databases.*.collections.users.documents.*.create',
+  'databases.main.collections.posts.documents.hello.update',
+  'buckets.avatars.files.*.delete',
+  'functions.send-email.executions.*.create'
+];
+// @ts-expect-error events end with an action or *
+export const unfinished: AppwriteEvent = 'databases.main.collections.users.documents.*.publish';
+
+export function email(payload: RealtimePayload<'databases.main.collections.users.documents'>): string {
+  return payload.email + payload.$id;
+}
+
+export function fileName(payload: RealtimePayload<'buckets.avatars.files'>): string {
+  return payload.name;
+}
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('checks function triggers against the project events', async () => {
+    const schema = {
+      ...BLOG_SCHEMA,
+      functions: [{ ...BLOG_SCHEMA.functions[0], events: ['databases.main.collections.userz.documents.*.create'] }]
+    };
+    const config = {
+      realtimeConfig: { generateRealtimeTypes: true },
+      functionConfig: { generateFunctionTypes: true }
+    };
+
+    assert.deepEqual(typeCheck({ 'types.ts': await generateTypes(BLOG_SCHEMA, config) }), []);
+    assert.notDeepEqual(typeCheck({ 'types.ts': await generateTypes(schema, config) }), []);
+  });
+
+  test('emits the subscribe helper only when enabled', async () => {
+    const withoutHelper = await generateTypes(BLOG_SCHEMA, { realtimeConfig: { generateRealtimeTypes: true } });
+    const withHelper = await generateTypes(BLOG_SCHEMA, { realtimeConfig: { generateSubscribeHelper: true } });
+
+    assert.doesNotMatch(withoutHelper, /export function subscribe/);
+    assert.match(withHelper, /export function subscribe<C extends RealtimeChannel>/);
+    assert.match(withHelper, /from 'appwrite'/);
+  });
+
+  test('subscribes through the SDK with typed payloads', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { realtimeConfig: { generateSubscribeHelper: true } });
+    const usage = `
+import { Client } from 'appwrite';
+import { subscribe } from './types.js';
+
+const client = new Client();
+
+export const unsubscribe: () => void = subscribe(client, 'databases.main.collections.users.documents', event => {
+  const email: string = event.payload.email;
+  const receivedAt: Date = new Date(event.timestamp);
+  console.log(email, receivedAt);
+});
+
+// @ts-expect-error payloads are narrowed to the channel's documents
+subscribe(client, 'buckets.avatars.files', ({ payload }) => payload.email);
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+});
@@ -0,0 +1,227 @@
+// src/generator/realtime-generator.ts
+import { AppwriteCollection } from './type-converters.js';
+
+/**
+ * Configuration for realtime generation
+ */
+export interface RealtimeGenerationConfig {
+  /** Whether to generate `RealtimeChannel`, `RealtimePayload` and `AppwriteEvent` types */
+  generateRealtimeTypes?: boolean;
+
+  /** Whether to generate a typed `subscribe` wrapper around `Client.subscribe`; implies realtime types */
+  generateSubscribeHelper?: boolean;
+}
+
+/**
+ * A collection with the name of its generated document type
+ */
+export interface RealtimeCollectionEntry {
+  /** Collection delivering documents */
+  collection: AppwriteCollection;
+
+  /** Type of its documents, qualified with the namespace when databases are namespaced */
+  typeName: string;
+}
+
+/**
+ * Project resources realtime channels and events refer to
+ */
+export interface RealtimeResources {
+  /** Collections with their document types */
+  collections: RealtimeCollectionEntry[];
+
+  /** Database IDs */
+  databaseIds: string[];
+
+  /** Bucket IDs */
+  bucketIds: string[];
+
+  /** Function IDs */
+  functionIds: string[];
+}
+
+/**
+ * Realtime generation utility
+ * Generates template-literal types for realtime channels and event strings, and a typed subscribe wrapper
+ */
+export class RealtimeGenerator {
+  /** Default configuration for realtime generation */
+  private static DEFAULT_CONFIG: Required<RealtimeGenerationConfig> = {
+    generateRealtimeTypes: false,
+    generateSubscribeHelper: false
+  };
+
+  /** Name of the event string type, also used to check function triggers */
+  static EVENT_TYPE = 'AppwriteEvent';
+
+  /** Event roots of resources the schema does not describe */
+  private static OTHER_EVENT_ROOTS = ['users', 'teams', 'sites', 'providers', 'topics', 'messages', 'rules', 'migrations'];
+
+  /**
+   * Generates realtime channel and event types
+   *
+   * @param resources - Collections, databases, buckets and functions of the project
+   * @param config - Optional configuration for realtime generation
+   * @returns Generated realtime definitions, empty when disabled
+   */
+  static generateRealtimeTypes(
+    resources: RealtimeResources,
+    config: RealtimeGenerationConfig = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    if (!fullConfig.generateRealtimeTypes && !fullConfig.generateSubscribeHelper) {
+      return '';
+    }
+
+    const sections = [
+      this.generateChannelTypes(resources),
+      this.generateEventTypes(resources)
+    ];
+
+    if (fullConfig.generateSubscribeHelper) {
+      sections.push(this.generateSubscribeHelper());
+    }
+
+    return sections.join('\n');
+  }
+
+  /**
+   * Generates the channel union and the payload delivered on each channel
+   *
+   * @param resources - Project resources
+   * @returns Generated channel types
+   */
+  private static generateChannelTypes(resources: RealtimeResources): string {
+    const documentChannels = resources.collections.map(({ collection, typeName }) => {
+      const channel = `databases.${collection.databaseId}.collections.${collection.$id}.documents`;
+      return { pattern: `'${channel}' | \`${channel}.\${string}\``, payload: `${typeName} & Models.Document` };
+    });
+    const fileChannels = resources.bucketIds.map(bucketId => `'buckets.${bucketId}.files' | \`buckets.${bucketId}.files.\${string}\``);
+    const functionChannels = resources.functionIds.map(functionId => `'functions.${functionId}'`);
+
+    const channels = [
+      `'account'`,
+      `'documents'`,
+      `'files'`,
+      `'executions'`,
+      `\`executions.\${string}\``,
+      `'teams'`,
+      `\`teams.\${string}\``,
+      `'memberships'`,
+      `\`memberships.\${string}\``,
+      ...documentChannels.map(channel => channel.pattern),
+      ...fileChannels,
+      ...functionChannels
+    ];
+
+    const documentTypes = resources.collections.length > 0
+      ? `(${resources.collections.map(entry => entry.typeName).join(' | ')}) & Models.Document`
+      : 'Models.Document';
+
+    const payloads = [
+      ...documentChannels.map(channel => `  C extends ${channel.pattern} ? ${channel.payload} :`),
+      `  C extends 'documents' ? ${documentTypes} :`,
+      `  C extends 'files' | \`buckets.\${string}\` ? Models.File :`,
+      `  C extends 'executions' | \`executions.\${string}\` | \`functions.\${string}\` ? Models.Execution :`,
+      `  C extends 'teams' | \`teams.\${string}\` ? Models.Team<Models.Preferences> :`,
+      `  C extends 'memberships' | \`memberships.\${string}\` ? Models.Membership :`,
+      `  C extends 'account' ? Models.User<Models.Preferences> :`,
+      '  never;'
+    ];
+
+    return `
+/** Realtime channel of the project; document, file and function channels only accept existing IDs */
+export type RealtimeChannel =
+${channels.map(channel => `  | ${channel}`).join('\n')};
+
+/** Payload delivered on a realtime channel */
+export type RealtimePayload<C extends RealtimeChannel> =
+${payloads.join('\n')}
+`;
+  }
+
+  /**
+   * Generates event string types
+   * Event targets accept `*` wildcards and must end with an action or `*`
+   *
+   * @param resources - Project resources
+   * @returns Generated event types
+   */
+  private static generateEventTypes(resources: RealtimeResources): string {
+    const union = (values: string[]) => [...values.map(value => `'${value}'`), `'*'`].join(' | ');
+
+    const collectionsByDatabase = new Map<string, string[]>();
+    resources.databaseIds.forEach(databaseId => collectionsByDatabase.set(databaseId, []));
+    resources.collections.forEach(({ collection }) => {
+      collectionsByDatabase.set(collection.databaseId, [...(collectionsByDatabase.get(collection.databaseId) ?? []), collection.$id]);
+    });
+    const allCollections = [...new Set(resources.collections.map(({ collection }) => collection.$id))];
+
+    const databaseEvents = [
+      `\`databases.\${${union(resources.databaseIds)}}.\${RealtimeAction | '*'}\``,
+      ...[...collectionsByDatabase.entries()].map(([databaseId, collectionIds]) =>
+        `\`databases.${databaseId}.collections.\${${union(collectionIds)}}.\${EventTail}\``),
+      `\`databases.*.collections.\${${union(allCollections)}}.\${EventTail}\``
+    ];
+
+    return `
+/** Action reported by an event */
+export type RealtimeAction = 'create' | 'update' | 'delete';
+
+/** Remainder of an event after its resource: the action, \`*\`, or a nested resource ending with either */
+export type EventTail = RealtimeAction | '*' | \`\${string}.\${RealtimeAction | '*'}\`;
+
+/** Event of a database, a collection or its documents, attributes and indexes */
+export type DatabaseEvent =
+${databaseEvents.map(event => `  | ${event}`).join('\n')};
+
+/** Event of a bucket or its files */
+export type BucketEvent = \`buckets.\${${union(resources.bucketIds)}}.\${EventTail}\`;
+
+/** Event of a function or its executions and deployments */
+export type FunctionExecutionEvent = \`functions.\${${union(resources.functionIds)}}.\${EventTail}\`;
+
+/** Event string as used by realtime responses, webhooks and function triggers */
+export type ${this.EVENT_TYPE} =
+  | DatabaseEvent
+  | BucketEvent
+  | FunctionExecutionEvent
+  | \`\${${this.OTHER_EVENT_ROOTS.map(root => `'${root}'`).join(' | ')}}.\${string}\`;
+`;
+  }
+
+  /**
+   * Generates the typed subscribe wrapper
+   *
+   * @returns Generated wrapper definitions
+   */
+  private static generateSubscribeHelper(): string {
+    return `
+/** A realtime event with the payload of its channels */
+export interface RealtimeEvent<C extends RealtimeChannel> {
+  events: string[];
+  channels: string[];
+  timestamp: number;
+  payload: RealtimePayload<C>;
+}
+
+/**
+ * Subscribes to realtime channels, narrowing the payload to the channels' documents
+ *
+ * @returns Function that unsubscribes
+ */
+export function subscribe<C extends RealtimeChannel>(
+  client: Client,
+  channels: C | C[],
+  callback: (event: RealtimeEvent<C>) => void
+): () => void {
+  return client.subscribe<RealtimePayload<C>>(channels, callback);
+}
+`;
+  }
+}
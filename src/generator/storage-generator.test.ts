@@ -0,0 +1,59 @@
+// src/generator/storage-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+/** Storage configuration enabling every bucket output */
+const STORAGE_CONFIG = { storageConfig: { generateBucketTypes: true, generateUploadValidators: true } };
+
+describe('Storage bucket generation', () => {
+  test('emits bucket IDs by default and bucket metadata only when enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+    const { BUCKET_IDS } = await importGenerated(output);
+
+    assert.deepEqual(BUCKET_IDS, { AVATARS: 'avatars' });
+    assert.doesNotMatch(output, /BUCKETS|checkBucketFile/);
+  });
+
+  test('types the allowed extensions of each bucket', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, STORAGE_CONFIG);
+    const usage = `
+import type { AllowedExtension, BucketId } from './types.js';
+
+export const bucket: BucketId = 'avatars';
+export const extension: AllowedExtension<'avatars'> = 'png';
+// @ts-expect-error the bucket does not accept gif files
+export const refused: AllowedExtension<'avatars'> = 'gif';
+`;
+
+    assert.deepEqual(typeCheck({ 'types.ts': output, 'usage.ts': usage }), []);
+  });
+
+  test('rejects files the bucket would refuse', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, STORAGE_CONFIG);
+    const { checkBucketFile, assertBucketFile, BUCKETS } = await importGenerated(output);
+
+    assert.equal(BUCKETS.avatars.maximumFileSize, 5000000);
+    assert.equal(checkBucketFile('avatars', { name: 'me.PNG', size: 1000 }), null);
+    assert.equal(checkBucketFile('avatars', { name: 'me.gif', size: 1000 }).reason, 'extension');
+    assert.equal(checkBucketFile('avatars', { name: 'README', size: 1000 }).reason, 'extension');
+    assert.deepEqual(checkBucketFile('avatars', { name: 'me.jpg', size: 5000001 }), {
+      reason: 'size',
+      message: 'File me.jpg is 5000001 bytes, bucket Avatars accepts at most 5000000',
+      size: 5000001,
+      maximum: 5000000
+    });
+    assert.throws(
+      () => assertBucketFile('avatars', { name: 'me.gif', size: 1000 }),
+      (error: any) => error.name === 'BucketFileError' && error.rejection.extension === 'gif'
+    );
+  });
+
+  test('refuses uploads to disabled buckets', async () => {
+    const schema = { ...BLOG_SCHEMA, buckets: [{ ...BLOG_SCHEMA.buckets[0], enabled: false }] };
+    const { checkBucketFile } = await importGenerated(await generateTypes(schema, STORAGE_CONFIG));
+
+    assert.equal(checkBucketFile('avatars', { name: 'me.png', size: 1000 }).reason, 'disabled');
+  });
+});
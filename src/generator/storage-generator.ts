@@ -0,0 +1,213 @@
+// src/generator/storage-generator.ts
+
+/**
+ * Configuration for storage bucket generation
+ */
+export interface StorageGenerationConfig {
+  /** Whether to generate the `BUCKETS` metadata map, `BucketId` and `AllowedExtension` types */
+  generateBucketTypes?: boolean;
+
+  /** Whether to generate `checkBucketFile` and `assertBucketFile` upload checks; implies bucket types */
+  generateUploadValidators?: boolean;
+}
+
+/**
+ * A storage bucket as found in `appwrite.json`
+ */
+export interface AppwriteBucket {
+  $id: string;
+  name: string;
+  enabled?: boolean;
+  fileSecurity?: boolean;
+  maximumFileSize?: number;
+  allowedFileExtensions?: string[];
+  compression?: string;
+  encryption?: boolean;
+  antivirus?: boolean;
+}
+
+/**
+ * Storage bucket generation utility
+ * Generates bucket metadata constants, extension types and client-side upload checks
+ */
+export class StorageGenerator {
+  /** Default configuration for storage bucket generation */
+  private static DEFAULT_CONFIG: Required<StorageGenerationConfig> = {
+    generateBucketTypes: false,
+    generateUploadValidators: false
+  };
+
+  /**
+   * Generates bucket metadata and types from Appwrite buckets
+   *
+   * @param buckets - Buckets of the Appwrite configuration
+   * @param config - Optional configuration for storage bucket generation
+   * @returns Generated bucket definitions, empty when disabled or without buckets
+   */
+  static generateBucketTypes(
+    buckets: AppwriteBucket[],
+    config: StorageGenerationConfig = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    if ((!fullConfig.generateBucketTypes && !fullConfig.generateUploadValidators) || buckets.length === 0) {
+      return '';
+    }
+
+    const entries = buckets.map(bucket => this.generateBucketEntry(bucket)).join('\n');
+
+    const definitions = `
+/**
+ * Upload constraints and settings of a storage bucket
+ */
+export interface BucketMetadata {
+  id: string;
+  name: string;
+  enabled: boolean;
+  fileSecurity: boolean;
+  /** Maximum file size in bytes */
+  maximumFileSize: number;
+  /** Accepted file extensions; any extension when empty */
+  allowedFileExtensions: readonly string[];
+  compression: 'none' | 'gzip' | 'zstd';
+  encryption: boolean;
+  antivirus: boolean;
+}
+
+/** Storage buckets of the project, keyed by bucket ID */
+export const BUCKETS = {
+${entries}
+} as const;
+
+/** ID of a storage bucket */
+export type BucketId = keyof typeof BUCKETS;
+
+/** File extensions a bucket accepts; \`string\` when the bucket accepts any extension */
+export type AllowedExtension<B extends BucketId> =
+  (typeof BUCKETS)[B]['allowedFileExtensions'] extends readonly []
+    ? string
+    : (typeof BUCKETS)[B]['allowedFileExtensions'][number];
+`;
+
+    return fullConfig.generateUploadValidators
+      ? definitions + this.generateUploadValidators()
+      : definitions;
+  }
+
+  /**
+   * Generates the metadata entry of a single bucket
+   *
+   * @param bucket - Bucket to generate the entry for
+   * @returns Generated object property
+   */
+  private static generateBucketEntry(bucket: AppwriteBucket): string {
+    const extensions = (bucket.allowedFileExtensions ?? []).map(extension => `'${extension}'`).join(', ');
+
+    return `  /** ${bucket.name} */
+  ${this.formatPropertyKey(bucket.$id)}: {
+    id: '${bucket.$id}',
+    name: '${bucket.name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}',
+    enabled: ${bucket.enabled ?? true},
+    fileSecurity: ${bucket.fileSecurity ?? false},
+    maximumFileSize: ${bucket.maximumFileSize ?? 0},
+    allowedFileExtensions: [${extensions}],
+    compression: '${bucket.compression || 'none'}',
+    encryption: ${bucket.encryption ?? false},
+    antivirus: ${bucket.antivirus ?? false},
+  },`;
+  }
+
+  /**
+   * Generates the client-side upload checks
+   * They mirror the extension and size checks the server runs when a file is created
+   *
+   * @returns Generated check functions
+   */
+  private static generateUploadValidators(): string {
+    return `
+/** Reason a bucket refuses a file */
+export type BucketFileRejection =
+  | { reason: 'disabled'; message: string }
+  | { reason: 'extension'; message: string; extension: string; allowed: readonly string[] }
+  | { reason: 'size'; message: string; size: number; maximum: number };
+
+/**
+ * Checks a file against the limits of a bucket before uploading it
+ *
+ * @returns Why the bucket would refuse the file, or null when it is accepted
+ */
+export function checkBucketFile(
+  bucketId: BucketId,
+  file: { name: string; size: number }
+): BucketFileRejection | null {
+  const bucket: BucketMetadata = BUCKETS[bucketId];
+
+  if (!bucket.enabled) {
+    return { reason: 'disabled', message: \`Bucket \${bucket.name} is disabled\` };
+  }
+
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot === -1 ? '' : file.name.slice(dot + 1).toLowerCase();
+  if (bucket.allowedFileExtensions.length > 0 && !bucket.allowedFileExtensions.includes(extension)) {
+    return {
+      reason: 'extension',
+      message: \`Bucket \${bucket.name} does not accept \${extension ? \`.\${extension} files\` : 'files without an extension'}, allowed: \${bucket.allowedFileExtensions.join(', ')}\`,
+      extension,
+      allowed: bucket.allowedFileExtensions
+    };
+  }
+
+  if (bucket.maximumFileSize > 0 && file.size > bucket.maximumFileSize) {
+    return {
+      reason: 'size',
+      message: \`File \${file.name} is \${file.size} bytes, bucket \${bucket.name} accepts at most \${bucket.maximumFileSize}\`,
+      size: file.size,
+      maximum: bucket.maximumFileSize
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Error thrown when a bucket would refuse a file
+ */
+export class BucketFileError extends Error {
+  /** Why the bucket refuses the file */
+  readonly rejection: BucketFileRejection;
+
+  constructor(rejection: BucketFileRejection) {
+    super(rejection.message);
+    this.name = 'BucketFileError';
+    this.rejection = rejection;
+  }
+}
+
+/**
+ * Throws when a bucket would refuse a file, so uploads fail before any request is sent
+ *
+ * @throws {BucketFileError} If the file's extension or size is not accepted
+ */
+export function assertBucketFile(bucketId: BucketId, file: { name: string; size: number }): void {
+  const rejection = checkBucketFile(bucketId, file);
+  if (rejection) {
+    throw new BucketFileError(rejection);
+  }
+}
+`;
+  }
+
+  /**
+   * Formats a bucket ID as an object property key, quoting it when it is not an identifier
+   *
+   * @param id - Bucket ID
+   * @returns Property key
+   */
+  private static formatPropertyKey(id: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(id) ? id : `'${id}'`;
+  }
+}
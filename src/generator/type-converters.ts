@@ -23,7 +23,57 @@ export interface AppwriteAttribute {
   size?: number;
   elements?: string[];
   format?: string;
+  min?: number;
+  max?: number;
+  default?: unknown;
   relatedCollection?: string;
+  relationType?: string;
+  twoWay?: boolean;
+  twoWayKey?: string;
+  side?: string;
+  onDelete?: string;
+  /** TypeScript type set by a plugin, used instead of the converted type */
+  typeOverride?: string;
+}
+
+/**
+ * Interface representing an Appwrite index definition
+ */
+export interface AppwriteIndex {
+  key: string;
+  type: 'key' | 'unique' | 'fulltext' | string;
+  attributes: string[];
+  orders?: string[];
+}
+
+/**
+ * Interface representing an Appwrite collection prepared for generation
+ */
+export interface AppwriteCollection {
+  $id: string;
+  databaseId: string;
+  name: string;
+  attributes: AppwriteAttribute[];
+  indexes: AppwriteIndex[];
+  $permissions?: string[];
+  enabled?: boolean;
+  documentSecurity?: boolean;
+}
+
+/**
+ * Controls which part of the schema a generator emits
+ * Lets output for a subset of collections be generated, e.g. one file per collection
+ */
+export interface GenerationScope {
+  /** All collections relationships may point to; defaults to the generated collections */
+  relatedCollections?: Array<{
+    $id?: string;
+    name: string;
+    attributes: AppwriteAttribute[];
+  }>;
+
+  /** Whether to emit helpers shared by all collections (default: true) */
+  includeSharedHelpers?: boolean;
 }
 
 /**
@@ -58,7 +108,7 @@ export class TypeConverter {
    * Handles complex scenarios including enums, arrays, and primitive types
    * 
    * @param attribute - The Appwrite attribute to convert
-   * @param context - Optional context for more detailed error reporting
+   * @param context - Optional context for error reporting and relationship resolution
    * @returns Converted TypeScript type representation
    * @throws {Error} For unsupported or invalid attribute types
    */
@@ -66,12 +116,19 @@ export class TypeConverter {
     attribute: AppwriteAttribute, 
     context?: { 
       collectionName?: string; 
-      attributeName?: string 
+      attributeName?: string;
+      /** Type used for populated related documents; IDs are used when omitted */
+      relatedTypeName?: string;
     }
   ): string {
     // Validate input attribute
     this.validateAttribute(attribute);
 
+    // Types overridden by plugins are used as-is
+    if (attribute.typeOverride) {
+      return attribute.typeOverride;
+    }
+
     // Handle enum types with precise type generation
     if (attribute.format === 'enum' && attribute.elements?.length) {
       return this.handleEnumType(attribute);
@@ -79,34 +136,12 @@ export class TypeConverter {
 
     // Add explicit relationship type handling
     if (attribute.type === 'relationship') {
-      const relationAttr = attribute as RelationshipAttribute;
-      
-      // Convert related collection name to interface name
-      const relatedTypeName = relationAttr.relatedCollection
-        .split(/[-_]/)
-        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-        .join('')
-        .replace(/s$/, '');
-
-      // Handle different relationship types
-      switch (relationAttr.relationType) {
-        case 'oneToMany':
-          return relationAttr.side === 'parent'
-            ? `${relatedTypeName}[]`
-            : `${relatedTypeName} | null`;
-        
-        case 'manyToOne':
-          return relationAttr.side === 'parent'
-            ? `${relatedTypeName} | null`
-            : `${relatedTypeName}[]`;
-        
-        case 'oneToOne':
-        case 'manyToMany':
-          return `${relatedTypeName}[]`;
-        
-        default:
-          return 'string | RelationshipReference';
-      }
+      // Related documents are referenced by ID unless a related type is known
+      const relatedTypeName = context?.relatedTypeName ?? 'string';
+
+      return this.isManyRelationship(attribute)
+        ? `${relatedTypeName}[]`
+        : `${relatedTypeName} | null`;
     }
 
     // Validate primitive type
@@ -147,6 +182,94 @@ export class TypeConverter {
     return this.getPrimitiveTypeGuard(attribute);
   }
 
+  /**
+   * Generates the source code of a type guard check for a given attribute
+   * Mirrors the runtime checks performed by `createTypeGuard`
+   * 
+   * @param attribute - The Appwrite attribute to create a check for
+   * @param valueName - Name of the variable holding the value to check
+   * @param relatedGuardName - Guard function for populated related documents
+   * @returns A boolean TypeScript expression checking the value
+   */
+  static createTypeGuardSource(
+    attribute: AppwriteAttribute,
+    valueName: string,
+    relatedGuardName?: string
+  ): string {
+    const isArray = attribute.type === 'relationship'
+      ? this.isManyRelationship(attribute)
+      : attribute.array;
+
+    if (!isArray) {
+      return this.getValueGuardSource(attribute, valueName, relatedGuardName);
+    }
+
+    const itemCheck = this.getValueGuardSource(attribute, 'item', relatedGuardName);
+    return `Array.isArray(${valueName}) && ${valueName}.every((item) => ${itemCheck})`;
+  }
+
+  /**
+   * Determines whether a relationship attribute holds many related documents
+   * on this side of the relationship
+   * 
+   * @param attribute - The relationship attribute to inspect
+   * @returns True if the attribute resolves to a list of related documents
+   */
+  static isManyRelationship(attribute: AppwriteAttribute): boolean {
+    const relationAttr = attribute as RelationshipAttribute;
+
+    switch (relationAttr.relationType) {
+      case 'oneToMany':
+        return relationAttr.side === 'parent';
+      case 'manyToOne':
+        return relationAttr.side === 'child';
+      case 'manyToMany':
+        return true;
+      // oneToOne relates exactly one document on either side
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Generates the source code checking a single (non-array) attribute value
+   * 
+   * @param attribute - The attribute to create a check for
+   * @param valueName - Name of the variable holding the value to check
+   * @param relatedGuardName - Guard function for populated related documents; document IDs are checked when omitted
+   * @returns A boolean TypeScript expression checking the value
+   */
+  private static getValueGuardSource(
+    attribute: AppwriteAttribute,
+    valueName: string,
+    relatedGuardName?: string
+  ): string {
+    if (attribute.format === 'enum' && attribute.elements?.length) {
+      const elements = attribute.elements.map(e => JSON.stringify(e)).join(', ');
+      return `typeof ${valueName} === 'string' && [${elements}].includes(${valueName})`;
+    }
+
+    switch (attribute.type) {
+      case 'string':
+        return `typeof ${valueName} === 'string'`;
+      case 'integer':
+        return `typeof ${valueName} === 'number' && Number.isInteger(${valueName})`;
+      case 'float':
+        return `typeof ${valueName} === 'number'`;
+      case 'boolean':
+        return `typeof ${valueName} === 'boolean'`;
+      case 'datetime':
+        return `typeof ${valueName} === 'string' && !Number.isNaN(Date.parse(${valueName}))`;
+      case 'relationship':
+        // Mirrors the generated field type: the populated document if its type is known, its ID otherwise
+        return relatedGuardName
+          ? `${relatedGuardName}(${valueName})`
+          : `typeof ${valueName} === 'string'`;
+      default:
+        return 'true';
+    }
+  }
+
   /**
    * Validates the input attribute structure
    * Ensures the attribute meets basic requirements
@@ -246,7 +369,7 @@ export class TypeConverter {
       'integer': (value) => typeof value === 'number' && Number.isInteger(value),
       'float': (value) => typeof value === 'number',
       'boolean': (value) => typeof value === 'boolean',
-      'datetime': (value) => typeof value === 'string'
+      'datetime': (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value))
     };
 
     const typeCheck = primitiveTypeChecks[attribute.type] ?? (() => true);
@@ -0,0 +1,64 @@
+// src/generator/type-guard-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Type guard generation', () => {
+  test('emits document and attribute guards that compile', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { typeGuardConfig: { generateTypeGuards: true } });
+
+    assert.match(output, /export function isUser\(value: unknown\): value is User \{/);
+    assert.match(output, /export function isUserRole\(value: unknown\)/);
+    assert.deepEqual(typeCheck({ 'types.ts': output }), []);
+  });
+
+  test('omits attribute guards when disabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, {
+      typeGuardConfig: { generateTypeGuards: true, generateAttributeGuards: false }
+    });
+
+    assert.match(output, /export function isUser\(/);
+    assert.doesNotMatch(output, /export function isUserRole\(/);
+    assert.deepEqual(typeCheck({ 'types.ts': output }), []);
+  });
+
+  test('checks required attributes, types and enum values at runtime', async () => {
+    const { isUser, isUserRole, isPost } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { typeGuardConfig: { generateTypeGuards: true } })
+    );
+    const user = { $id: 'ada', name: 'Ada', email: 'ada@example.com', active: true };
+
+    assert.equal(isUser(user), true);
+    assert.equal(isUser({ ...user, role: null, age: 36, tags: ['math'] }), true);
+    assert.equal(isUser({ ...user, active: 'yes' }), false);
+    assert.equal(isUser({ ...user, age: 36.5 }), false);
+    assert.equal(isUser({ ...user, lastSeen: 'yesterday' }), false);
+    assert.equal(isUser({ ...user, tags: ['math', 1] }), false);
+    assert.equal(isUser({ name: 'Ada', email: 'ada@example.com' }), false);
+    assert.equal(isUser(null), false);
+    assert.equal(isUserRole('admin'), true);
+    assert.equal(isUserRole('owner'), false);
+    assert.equal(isPost({ title: 'Hello', status: 'live' }), true);
+    assert.equal(isPost({ title: 'Hello', status: 'archived' }), false);
+  });
+
+  test('checks relationships against the configured relationship mode', async () => {
+    const post = { title: 'Hello', status: 'live' };
+    const author = { name: 'Ada', email: 'ada@example.com', active: true };
+
+    const populated = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { typeGuardConfig: { generateTypeGuards: true } })
+    );
+    assert.equal(populated.isPost({ ...post, author }), true);
+    assert.equal(populated.isPost({ ...post, author: 'ada' }), false);
+    assert.equal(populated.isPost({ ...post, author: { name: 'Ada' } }), false);
+
+    const byId = await importGenerated(await generateTypes(BLOG_SCHEMA, {
+      typeGuardConfig: { generateTypeGuards: true },
+      interfaceConfig: { relationshipMode: 'id' }
+    }));
+    assert.equal(byId.isPost({ ...post, author: 'ada' }), true);
+    assert.equal(byId.isPost({ ...post, author }), false);
+  });
+});
@@ -0,0 +1,224 @@
+// src/generator/type-guard-generator.ts
+import { TypeConverter, AppwriteAttribute, GenerationScope } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for runtime type guard generation
+ */
+export interface TypeGuardGenerationConfig {
+  /** Whether to generate document type guards for collections */
+  generateTypeGuards?: boolean;
+
+  /** Whether to generate a guard for every individual attribute */
+  generateAttributeGuards?: boolean;
+
+  /** Prefix for generated guard function names */
+  guardPrefix?: string;
+}
+
+/**
+ * Runtime type guard generation utility
+ * Emits type guards as source code so generated documents can be validated at runtime
+ */
+export class TypeGuardGenerator {
+  /** Default configuration for type guard generation */
+  private static DEFAULT_CONFIG: Required<TypeGuardGenerationConfig> = {
+    generateTypeGuards: false,
+    generateAttributeGuards: true,
+    guardPrefix: 'is'
+  };
+
+  /**
+   * Generates type guard functions for Appwrite collections
+   *
+   * @param collections - Collections to generate guards for
+   * @param config - Optional configuration for guard generation
+   * @param interfaceConfig - Interface configuration used to reference generated interfaces
+   * @param scope - Collections whose guards relationship checks may reference
+   * @returns Generated type guard definitions
+   */
+  static generateTypeGuards(
+    collections: Array<{
+      $id?: string;
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: TypeGuardGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {},
+    scope: GenerationScope = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    // Map collection IDs to their generated guard names for relationship checks
+    // Relationships hold IDs in 'id' mode, so no related guards are referenced
+    const guardNames = new Map<string, string>();
+    const relatedCollections = interfaceConfig.relationshipMode === 'id'
+      ? []
+      : scope.relatedCollections ?? collections;
+    relatedCollections.forEach(collection => {
+      if (collection.$id) {
+        guardNames.set(
+          collection.$id,
+          `${fullConfig.guardPrefix}${this.getInterfaceName(collection.name, interfaceConfig)}`
+        );
+      }
+    });
+
+    return collections
+      .map(collection => this.generateCollectionGuards(
+        collection,
+        fullConfig,
+        interfaceConfig,
+        guardNames
+      ))
+      .join('\n');
+  }
+
+  /**
+   * Generates the document guard and attribute guards for a collection
+   *
+   * @param collection - Collection to generate guards for
+   * @param config - Type guard generation configuration
+   * @param interfaceConfig - Interface generation configuration
+   * @param guardNames - Guard names keyed by collection ID
+   * @returns Generated guard definitions
+   */
+  private static generateCollectionGuards(
+    collection: {
+      name: string;
+      attributes: AppwriteAttribute[];
+    },
+    config: Required<TypeGuardGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>,
+    guardNames: Map<string, string>
+  ): string {
+    const interfaceName = this.getInterfaceName(collection.name, interfaceConfig);
+    const guardName = `${config.guardPrefix}${interfaceName}`;
+
+    const attributeGuards: string[] = [];
+    const documentChecks: string[] = [];
+
+    collection.attributes.forEach(attr => {
+      const accessor = `doc[${JSON.stringify(attr.key)}]`;
+      const relatedGuardName = attr.relatedCollection
+        ? guardNames.get(attr.relatedCollection)
+        : undefined;
+
+      let check: string;
+
+      if (config.generateAttributeGuards) {
+        const attributeGuardName = `${guardName}${this.toPascalCase(attr.key)}`;
+        attributeGuards.push(this.generateAttributeGuard(
+          attr,
+          attributeGuardName,
+          interfaceName,
+          relatedGuardName
+        ));
+        check = `${attributeGuardName}(${accessor})`;
+      } else {
+        check = `(${TypeConverter.createTypeGuardSource(attr, accessor, relatedGuardName)})`;
+      }
+
+      documentChecks.push(attr.required ? check : `(${accessor} == null || ${check})`);
+    });
+
+    if (interfaceConfig.includeMetadata !== false) {
+      documentChecks.push(...this.generateMetadataChecks(interfaceConfig.optionalMetadata !== false));
+    }
+
+    const documentGuard = `
+/**
+ * Checks whether a value is a valid ${collection.name} document
+ */
+export function ${guardName}(value: unknown): value is ${interfaceName} {
+  if (typeof value !== 'object' || value === null) return false;
+  const doc = value as Record<string, unknown>;
+  return ${documentChecks.length > 0 ? documentChecks.join(' &&\n    ') : 'true'};
+}
+`;
+
+    return `${attributeGuards.join('')}${documentGuard}`;
+  }
+
+  /**
+   * Generates a guard function for a single attribute value
+   *
+   * @param attribute - Attribute to generate a guard for
+   * @param guardName - Name of the generated guard function
+   * @param interfaceName - Interface the attribute belongs to
+   * @param relatedGuardName - Guard function for populated related documents
+   * @returns Generated guard definition
+   */
+  private static generateAttributeGuard(
+    attribute: AppwriteAttribute,
+    guardName: string,
+    interfaceName: string,
+    relatedGuardName?: string
+  ): string {
+    const check = TypeConverter.createTypeGuardSource(attribute, 'value', relatedGuardName);
+
+    return `
+/** Checks whether a value is valid for ${interfaceName}.${attribute.key} */
+export function ${guardName}(value: unknown): value is NonNullable<${interfaceName}[${JSON.stringify(attribute.key)}]> {
+  return ${check};
+}
+`;
+  }
+
+  /**
+   * Generates checks for Appwrite document metadata fields
+   *
+   * @param optional - Whether metadata fields may be absent
+   * @returns Metadata check expressions
+   */
+  private static generateMetadataChecks(optional: boolean): string[] {
+    const checks: Array<[string, string]> = [
+      ['$id', `typeof doc.$id === 'string'`],
+      ['$createdAt', `typeof doc.$createdAt === 'string'`],
+      ['$updatedAt', `typeof doc.$updatedAt === 'string'`],
+      ['$databaseId', `typeof doc.$databaseId === 'string'`],
+      ['$collectionId', `typeof doc.$collectionId === 'string'`],
+      ['$permissions', `Array.isArray(doc.$permissions) && doc.$permissions.every((item) => typeof item === 'string')`]
+    ];
+
+    return checks.map(([key, check]) =>
+      optional ? `(doc.${key} === undefined || (${check}))` : `(${check})`
+    );
+  }
+
+  /**
+   * Resolves the generated interface name for a collection
+   *
+   * @param collectionName - Name of the collection
+   * @param interfaceConfig - Interface generation configuration
+   * @returns Interface name
+   */
+  private static getInterfaceName(
+    collectionName: string,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    return InterfaceGenerator.generateInterfaceName(
+      collectionName,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    );
+  }
+
+  /**
+   * Converts an attribute key to PascalCase
+   *
+   * @param value - Attribute key
+   * @returns PascalCase identifier
+   */
+  private static toPascalCase(value: string): string {
+    return value
+      .replace(/[^a-zA-Z0-9_-]/g, '')
+      .split(/[-_]/)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+}
@@ -0,0 +1,37 @@
+// src/generator/zod-schema-generator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateTypes, importGenerated, typeCheck } from '../testing/generated-code.js';
+import { BLOG_SCHEMA } from '../testing/fixtures.js';
+
+describe('Zod schema generation', () => {
+  test('emits nothing unless enabled', async () => {
+    const output = await generateTypes(BLOG_SCHEMA);
+
+    assert.doesNotMatch(output, /from 'zod'/);
+    assert.doesNotMatch(output, /UserSchema/);
+  });
+
+  test('emits a schema and inferred type per collection that compile', async () => {
+    const output = await generateTypes(BLOG_SCHEMA, { zodConfig: { generateSchemas: true } });
+
+    assert.match(output, /export const UserSchema = z\.object\(/);
+    assert.match(output, /export type PostSchemaType = z\.infer<typeof PostSchema>;/);
+    assert.deepEqual(typeCheck({ 'types.ts': output }), []);
+  });
+
+  test('validates documents with the constraints of the attributes', async () => {
+    const { UserSchema } = await importGenerated(
+      await generateTypes(BLOG_SCHEMA, { zodConfig: { generateSchemas: true } })
+    );
+    const user = { name: 'Ada', email: 'ada@example.com', active: true };
+
+    assert.equal(UserSchema.safeParse(user).success, true);
+    assert.equal(UserSchema.safeParse({ ...user, role: null, tags: ['a'], ip: '::1' }).success, true);
+    assert.equal(UserSchema.safeParse({ ...user, email: 'ada' }).success, false);
+    assert.equal(UserSchema.safeParse({ ...user, name: 'x'.repeat(65) }).success, false);
+    assert.equal(UserSchema.safeParse({ ...user, role: 'owner' }).success, false);
+    assert.equal(UserSchema.safeParse({ ...user, age: 1.5 }).success, false);
+    assert.equal(UserSchema.safeParse({ name: 'Ada', email: 'ada@example.com' }).success, false);
+  });
+});
@@ -0,0 +1,234 @@
+// src/generator/zod-schema-generator.ts
+import { TypeConverter, AppwriteAttribute } from './type-converters.js';
+import { InterfaceGenerator, InterfaceGenerationConfig } from './interface-generator.js';
+
+/**
+ * Configuration for Zod schema generation
+ */
+export interface ZodSchemaGenerationConfig {
+  /** Whether to generate Zod schemas for collections */
+  generateSchemas?: boolean;
+
+  /** Whether to generate `z.infer` type aliases for each schema */
+  generateInferredTypes?: boolean;
+
+  /** Whether to include metadata fields like $id, $createdAt, etc. */
+  includeMetadata?: boolean;
+
+  /** Whether generated object schemas should reject unknown keys */
+  strict?: boolean;
+
+  /** Suffix to add to generated schema names */
+  schemaSuffix?: string;
+}
+
+/**
+ * Zod schema generation utility
+ * Generates runtime validation schemas from Appwrite collection configurations
+ */
+export class ZodSchemaGenerator {
+  /** Default configuration for Zod schema generation */
+  private static DEFAULT_CONFIG: Required<ZodSchemaGenerationConfig> = {
+    generateSchemas: false,
+    generateInferredTypes: true,
+    includeMetadata: true,
+    strict: false,
+    schemaSuffix: 'Schema'
+  };
+
+  /**
+   * Generates Zod schemas from Appwrite collections
+   *
+   * @param collections - Collections to generate schemas for
+   * @param config - Optional configuration for schema generation
+   * @param interfaceConfig - Interface configuration used to derive schema names
+   * @returns Generated schema definitions
+   */
+  static generateSchemas(
+    collections: Array<{
+      name: string;
+      attributes: AppwriteAttribute[];
+    }>,
+    config: ZodSchemaGenerationConfig = {},
+    interfaceConfig: Partial<InterfaceGenerationConfig> = {}
+  ): string {
+    // Merge provided config with default configuration
+    const fullConfig = {
+      ...this.DEFAULT_CONFIG,
+      ...config
+    };
+
+    return collections
+      .map(collection => this.generateCollectionSchema(collection, fullConfig, interfaceConfig))
+      .join('\n');
+  }
+
+  /**
+   * Generates a schema for a specific collection
+   *
+   * @param collection - Collection to generate schema for
+   * @param config - Zod schema generation configuration
+   * @param interfaceConfig - Interface configuration used to derive schema names
+   * @returns Generated schema definition
+   */
+  private static generateCollectionSchema(
+    collection: {
+      name: string;
+      attributes: AppwriteAttribute[];
+    },
+    config: Required<ZodSchemaGenerationConfig>,
+    interfaceConfig: Partial<InterfaceGenerationConfig>
+  ): string {
+    const baseName = InterfaceGenerator.generateInterfaceName(
+      collection.name,
+      interfaceConfig.interfacePrefix,
+      interfaceConfig.interfaceSuffix
+    );
+    const schemaName = `${baseName}${config.schemaSuffix}`;
+
+    const fields = collection.attributes.map(attr =>
+      `  ${attr.key}: ${this.generateAttributeSchema(attr)},`
+    );
+
+    if (config.includeMetadata) {
+      fields.unshift(...this.generateMetadataFields());
+    }
+
+    const inferredType = config.generateInferredTypes
+      ? `
+/** Type inferred from ${schemaName} */
+export type ${schemaName}Type = z.infer<typeof ${schemaName}>;
+`
+      : '';
+
+    return `
+/**
+ * Zod schema validating a ${collection.name} document
+ */
+export const ${schemaName} = z.object({
+${fields.join('\n')}
+})${config.strict ? '.strict()' : ''};
+${inferredType}`;
+  }
+
+  /**
+   * Generates the Zod expression for a single attribute
+   *
+   * @param attribute - Attribute to generate a schema for
+   * @returns Zod schema expression
+   */
+  private static generateAttributeSchema(attribute: AppwriteAttribute): string {
+    let schema = this.generateBaseSchema(attribute);
+
+    // Relationships decide their own cardinality
+    const isArray = attribute.type === 'relationship'
+      ? TypeConverter.isManyRelationship(attribute)
+      : attribute.array;
+
+    if (isArray) {
+      schema = `z.array(${schema})`;
+    }
+
+    return attribute.required ? schema : `${schema}.nullish()`;
+  }
+
+  /**
+   * Generates the Zod expression for a single attribute value
+   * Array and optionality modifiers are applied by the caller
+   *
+   * @param attribute - Attribute to generate a schema for
+   * @returns Zod schema expression for one value
+   * @throws {Error} For unsupported attribute types
+   */
+  private static generateBaseSchema(attribute: AppwriteAttribute): string {
+    if (attribute.format === 'enum' && attribute.elements?.length) {
+      return `z.enum([${attribute.elements.map(e => JSON.stringify(e)).join(', ')}])`;
+    }
+
+    switch (attribute.type) {
+      case 'string':
+        return this.generateStringSchema(attribute);
+      case 'integer':
+        return `z.number().int()${this.generateRangeModifiers(attribute)}`;
+      case 'float':
+        return `z.number()${this.generateRangeModifiers(attribute)}`;
+      case 'boolean':
+        return 'z.boolean()';
+      case 'datetime':
+        return 'z.string().datetime({ offset: true })';
+      case 'relationship':
+        // Related documents may be returned populated or as plain IDs
+        return 'z.union([z.string(), z.object({ $id: z.string() }).passthrough()])';
+      default:
+        throw new Error(`Unsupported attribute type: ${attribute.type} for attribute ${attribute.key}`);
+    }
+  }
+
+  /**
+   * Generates a string schema honoring format and size constraints
+   *
+   * @param attribute - String attribute
+   * @returns Zod string schema expression
+   */
+  private static generateStringSchema(attribute: AppwriteAttribute): string {
+    let schema = 'z.string()';
+
+    switch (attribute.format) {
+      case 'email':
+        schema += '.email()';
+        break;
+      case 'url':
+        schema += '.url()';
+        break;
+      case 'ip':
+        schema += '.ip()';
+        break;
+    }
+
+    if (attribute.size) {
+      schema += `.max(${attribute.size})`;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Generates min/max modifiers for numeric attributes
+   * Appwrite's default bounds exceed the safe number range and are omitted
+   *
+   * @param attribute - Numeric attribute
+   * @returns Zod range modifiers
+   */
+  private static generateRangeModifiers(attribute: AppwriteAttribute): string {
+    const isMeaningful = (value?: number): value is number =>
+      typeof value === 'number' && Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+
+    let modifiers = '';
+
+    if (isMeaningful(attribute.min)) {
+      modifiers += `.min(${attribute.min})`;
+    }
+
+    if (isMeaningful(attribute.max)) {
+      modifiers += `.max(${attribute.max})`;
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * Generates optional schema fields for Appwrite document metadata
+   *
+   * @returns Metadata field definitions
+   */
+  private static generateMetadataFields(): string[] {
+    return [
+      '  $id: z.string().optional(),',
+      '  $createdAt: z.string().optional(),',
+      '  $updatedAt: z.string().optional(),',
+      '  $databaseId: z.string().optional(),',
+      '  $collectionId: z.string().optional(),',
+      '  $permissions: z.array(z.string()).optional(),'
+    ];
+  }
+}
@@ -1,7 +1,34 @@
 // src/index.ts
 import { TypesGenerator, TypeGeneratorConfig } from './generator/index.js';
+import { GeneratedFile } from './generator/module-linker.js';
+import { GeneratorPlugin, PluginContext, PluginSchema, PluginSpecifier } from './generator/plugins.js';
+import { defineConfig, UserConfig } from './config.js';
+import { SchemaPuller, SchemaPullConfig } from './pull/schema-puller.js';
 import { FileSystemUtils } from './utils/file-system.js';
 import { GeneratorError } from './utils/errors.js';
+import { SchemaDiffer, SchemaDiff, SchemaChange } from './diff/schema-differ.js';
+import { DocumentValidator, DocumentViolation, DocumentValidationResult } from './validate/document-validator.js';
+import { SchemaEmitter, SchemaEmitConfig, NamedCollectionDefinition, AppwriteProject } from './schema/schema-emitter.js';
+import {
+  defineCollection,
+  string,
+  integer,
+  float,
+  boolean,
+  datetime,
+  email,
+  url,
+  ip,
+  enumAttr,
+  relationship,
+  CollectionDefinition,
+  AttributeDefinition,
+  IndexDefinition,
+  AttributeOptions,
+  StringAttributeOptions,
+  NumberAttributeOptions,
+  RelationshipAttributeOptions
+} from './schema/define-collection.js';
 
 /**
  * Main entry point for the Appwrite Types Generator
@@ -42,7 +69,44 @@ export async function generateTypes(
 // Export key types and utilities for external use
 export { 
   TypesGenerator, 
+  defineConfig,
+  UserConfig,
   TypeGeneratorConfig, 
+  GeneratedFile,
+  GeneratorPlugin,
+  PluginContext,
+  PluginSchema,
+  PluginSpecifier,
   FileSystemUtils, 
-  GeneratorError 
+  GeneratorError,
+  SchemaDiffer,
+  SchemaDiff,
+  SchemaChange,
+  DocumentValidator,
+  DocumentViolation,
+  DocumentValidationResult,
+  SchemaPuller,
+  SchemaPullConfig,
+  SchemaEmitter,
+  SchemaEmitConfig,
+  NamedCollectionDefinition,
+  AppwriteProject,
+  defineCollection,
+  string,
+  integer,
+  float,
+  boolean,
+  datetime,
+  email,
+  url,
+  ip,
+  enumAttr,
+  relationship,
+  CollectionDefinition,
+  AttributeDefinition,
+  IndexDefinition,
+  AttributeOptions,
+  StringAttributeOptions,
+  NumberAttributeOptions,
+  RelationshipAttributeOptions
 };
\ No newline at end of file
@@ -0,0 +1,189 @@
+// src/pull/schema-puller.test.ts
+import { after, afterEach, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { SchemaPuller } from './schema-puller.js';
+import { PullError } from '../utils/errors.js';
+
+/** Resources served by the stub, by list path */
+const RESOURCES: Record<string, { field: string; items: any[] }> = {
+  '/v1/databases': {
+    field: 'databases',
+    items: [{ $id: 'main', name: 'Main', enabled: true }]
+  },
+  '/v1/databases/main/collections': {
+    field: 'collections',
+    items: ['a', 'b', 'c', 'd', 'e'].map($id => ({ $id, name: $id.toUpperCase(), $permissions: [] }))
+  },
+  '/v1/storage/buckets': { field: 'buckets', items: [] }
+};
+
+/** Attributes served for every collection */
+const ATTRIBUTES = [
+  { key: 'title', type: 'string', size: 255, required: true, array: false, status: 'available', error: '', $createdAt: '2024-01-01', $updatedAt: '2024-01-02' },
+  { key: 'score', type: 'double', required: false, array: false, status: 'available', error: '' },
+  { key: 'draft', type: 'boolean', required: false, array: false, status: 'processing', error: '' },
+  { key: 'broken', type: 'integer', required: false, array: false, status: 'failed', error: 'Index too long' }
+];
+
+/** Indexes served for every collection */
+const INDEXES = [
+  { key: 'by_title', type: 'key', attributes: ['title'], orders: ['ASC'], status: 'available', error: '' },
+  { key: 'by_score', type: 'key', attributes: ['score'], orders: ['ASC'], status: 'stuck', error: '' }
+];
+
+/** Largest page the stub returns, whatever limit is requested */
+const MAX_PAGE_SIZE = 2;
+
+describe('SchemaPuller', () => {
+  let server: http.Server;
+  let endpoint: string;
+  let requests: Array<{ path: string; headers: http.IncomingHttpHeaders }>;
+  let workingDir: string;
+  const originalDir = process.cwd();
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      requests.push({ path: url.pathname, headers: req.headers });
+
+      if (req.headers['x-appwrite-key'] !== 'secret') {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Invalid API key' }));
+        return;
+      }
+
+      const queries = url.searchParams.getAll('queries[]').map(query => JSON.parse(query));
+      const offset = queries.find(query => query.method === 'offset')?.values[0] ?? 0;
+      const limit = queries.find(query => query.method === 'limit')?.values[0] ?? 25;
+
+      const resource = RESOURCES[url.pathname]
+        ?? (url.pathname.endsWith('/attributes') ? { field: 'attributes', items: ATTRIBUTES } : undefined)
+        ?? (url.pathname.endsWith('/indexes') ? { field: 'indexes', items: INDEXES } : undefined);
+
+      if (!resource) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not found' }));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        total: resource.items.length,
+        [resource.field]: resource.items.slice(offset, offset + Math.min(limit, MAX_PAGE_SIZE))
+      }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+    // Credentials must come from the test, not from the machine running it
+    delete process.env.APPWRITE_ENDPOINT;
+    delete process.env.APPWRITE_PROJECT_ID;
+    delete process.env.APPWRITE_API_KEY;
+    workingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-puller-'));
+    process.chdir(workingDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.join(workingDir, '.env'), { force: true });
+  });
+
+  after(async () => {
+    process.chdir(originalDir);
+    await fs.rm(workingDir, { recursive: true, force: true });
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('follows pages until the total is reached when the server caps the page size', async () => {
+    requests = [];
+    const schema = await SchemaPuller.pull({ endpoint, projectId: 'demo', apiKey: 'secret' });
+
+    assert.deepEqual(schema.collections.map((collection: any) => collection.$id), ['a', 'b', 'c', 'd', 'e']);
+    assert.equal(requests.filter(request => request.path === '/v1/databases/main/collections').length, 3);
+  });
+
+  test('keeps only available attributes and indexes, without server fields', async () => {
+    requests = [];
+    const schema = await SchemaPuller.pull({ endpoint, projectId: 'demo', apiKey: 'secret' });
+    const [collection] = schema.collections;
+
+    assert.deepEqual(collection.attributes, [
+      { key: 'title', type: 'string', size: 255, required: true, array: false },
+      { key: 'score', type: 'float', required: false, array: false }
+    ]);
+    assert.deepEqual(collection.indexes, [
+      { key: 'by_title', type: 'key', attributes: ['title'], orders: ['ASC'] }
+    ]);
+  });
+
+  test('saves into an existing project file without dropping the sections it does not pull', async () => {
+    const savePath = path.join(workingDir, 'appwrite.json');
+    await fs.writeFile(savePath, JSON.stringify({
+      projectId: 'demo',
+      projectName: 'Demo',
+      settings: { services: { account: true } },
+      databases: [{ $id: 'old', name: 'Old', enabled: true }],
+      collections: [],
+      functions: [{ $id: 'send-email', name: 'Send email' }],
+      teams: [{ $id: 'editors', name: 'Editors' }]
+    }));
+
+    const schema = await SchemaPuller.pull({ endpoint, projectId: 'demo', apiKey: 'secret', savePath });
+    const saved = JSON.parse(await fs.readFile(savePath, 'utf8'));
+
+    assert.deepEqual(Object.keys(saved), ['projectId', 'projectName', 'settings', 'databases', 'collections', 'functions', 'teams', 'buckets']);
+    assert.equal(saved.projectName, 'Demo');
+    assert.deepEqual(saved.settings, { services: { account: true } });
+    assert.deepEqual(saved.functions, [{ $id: 'send-email', name: 'Send email' }]);
+    assert.deepEqual(saved.teams, [{ $id: 'editors', name: 'Editors' }]);
+    assert.deepEqual(saved.databases, schema.databases);
+    assert.deepEqual(saved.collections, schema.collections);
+  });
+
+  test('reads missing credentials from the .env file', async () => {
+    requests = [];
+    await fs.writeFile(path.join(workingDir, '.env'), [
+      '# Appwrite credentials',
+      `APPWRITE_ENDPOINT=${endpoint}/ # trailing slash is dropped`,
+      'export APPWRITE_PROJECT_ID = "demo" # quoted',
+      "APPWRITE_API_KEY='secret'",
+      'UNRELATED'
+    ].join('\r\n'));
+
+    await SchemaPuller.pull();
+
+    assert.ok(requests.length > 0);
+    assert.equal(requests[0].path, '/v1/databases');
+    assert.equal(requests[0].headers['x-appwrite-project'], 'demo');
+    assert.equal(requests[0].headers['x-appwrite-key'], 'secret');
+  });
+
+  test('prefers configured credentials over the .env file', async () => {
+    requests = [];
+    await fs.writeFile(path.join(workingDir, '.env'), `APPWRITE_ENDPOINT=${endpoint}\nAPPWRITE_PROJECT_ID=other\nAPPWRITE_API_KEY=secret\n`);
+
+    await SchemaPuller.pull({ projectId: 'demo' });
+
+    assert.equal(requests[0].headers['x-appwrite-project'], 'demo');
+  });
+
+  test('reports missing credentials by their environment variable', async () => {
+    await assert.rejects(
+      SchemaPuller.pull({ endpoint }),
+      (error: unknown) => error instanceof PullError &&
+        /projectId \(APPWRITE_PROJECT_ID\), apiKey \(APPWRITE_API_KEY\)/.test(error.message)
+    );
+  });
+
+  test('reports error responses with the server message', async () => {
+    await assert.rejects(
+      SchemaPuller.pull({ endpoint, projectId: 'demo', apiKey: 'wrong' }),
+      (error: unknown) => error instanceof PullError && /failed with 401: Invalid API key/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,324 @@
+// src/pull/schema-puller.ts
+import { FileSystemUtils } from '../utils/file-system.js';
+import { PullError } from '../utils/errors.js';
+
+/**
+ * Configuration for pulling the schema from an Appwrite server
+ * Unset credentials fall back to `APPWRITE_ENDPOINT`, `APPWRITE_PROJECT_ID` and `APPWRITE_API_KEY`,
+ * read from the environment or the `.env` file in the working directory
+ */
+export interface SchemaPullConfig {
+  /** API endpoint including the version path, e.g. `https://cloud.appwrite.io/v1` */
+  endpoint?: string;
+
+  /** Project ID */
+  projectId?: string;
+
+  /** API key with the `databases.read`, `collections.read`, `attributes.read`, `indexes.read` and `buckets.read` scopes */
+  apiKey?: string;
+
+  /** Path to save the pulled schema to, in the `appwrite.json` format; sections that are not pulled are kept */
+  savePath?: string;
+}
+
+/**
+ * Resolved server credentials
+ */
+interface PullCredentials {
+  endpoint: string;
+  projectId: string;
+  apiKey: string;
+}
+
+/**
+ * Appwrite schema pulling utility
+ * Reads databases, collections, attributes, indexes and buckets through the REST API
+ * and normalizes them into the shape of `appwrite.json`
+ */
+export class SchemaPuller {
+  /** Number of resources requested per page */
+  private static PAGE_SIZE = 100;
+
+  /** Environment variables credentials fall back to */
+  private static ENV_KEYS: Record<keyof PullCredentials, string> = {
+    endpoint: 'APPWRITE_ENDPOINT',
+    projectId: 'APPWRITE_PROJECT_ID',
+    apiKey: 'APPWRITE_API_KEY'
+  };
+
+  /**
+   * Pulls the project schema from an Appwrite server
+   * Attributes and indexes that are not `available` yet (or failed) are skipped
+   *
+   * @param config - Server credentials and save options
+   * @returns Schema in the shape of `appwrite.json`
+   * @throws {PullError} If credentials are missing or a request fails
+   */
+  static async pull(config: SchemaPullConfig = {}): Promise<any> {
+    const credentials = await this.resolveCredentials(config);
+
+    const databases = await this.listAll(credentials, '/databases', 'databases');
+    const collections: any[] = [];
+
+    for (const database of databases) {
+      const databasePath = `/databases/${encodeURIComponent(database.$id)}/collections`;
+
+      for (const collection of await this.listAll(credentials, databasePath, 'collections')) {
+        const collectionPath = `${databasePath}/${encodeURIComponent(collection.$id)}`;
+        const [attributes, indexes] = await Promise.all([
+          this.listAll(credentials, `${collectionPath}/attributes`, 'attributes'),
+          this.listAll(credentials, `${collectionPath}/indexes`, 'indexes')
+        ]);
+
+        collections.push(this.normalizeCollection(collection, database.$id, attributes, indexes));
+      }
+    }
+
+    const buckets = await this.listAll(credentials, '/storage/buckets', 'buckets');
+
+    const schema = {
+      projectId: credentials.projectId,
+      databases: databases.map(database => ({
+        $id: database.$id,
+        name: database.name,
+        enabled: database.enabled ?? true
+      })),
+      collections,
+      buckets: buckets.map(bucket => this.normalizeBucket(bucket))
+    };
+
+    if (config.savePath) {
+      await this.saveSchema(config.savePath, schema);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Saves a pulled schema, replacing only the pulled sections of an existing project file
+   * Functions, teams, settings and other sections the puller does not read are kept
+   *
+   * @param savePath - Path of the `appwrite.json` file to write
+   * @param schema - Pulled schema
+   * @throws {PullError} If the existing file is not valid JSON
+   */
+  private static async saveSchema(savePath: string, schema: Record<string, any>): Promise<void> {
+    let project: Record<string, any> = {};
+
+    if (await FileSystemUtils.fileExists(savePath)) {
+      try {
+        project = JSON.parse(await FileSystemUtils.readFile(savePath));
+      } catch (error) {
+        throw new PullError(`Unable to parse ${savePath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    await FileSystemUtils.writeFileIfChanged(savePath, `${JSON.stringify({ ...project, ...schema }, null, 2)}\n`);
+  }
+
+  /**
+   * Resolves credentials from the configuration, the environment and the `.env` file, in that order
+   *
+   * @param config - Pull configuration
+   * @returns Complete credentials
+   * @throws {PullError} If a credential is missing
+   */
+  private static async resolveCredentials(config: SchemaPullConfig): Promise<PullCredentials> {
+    const envFile = await this.readEnvFile('.env');
+    const resolve = (key: keyof PullCredentials) =>
+      config[key] || process.env[this.ENV_KEYS[key]] || envFile[this.ENV_KEYS[key]];
+
+    const credentials = {
+      endpoint: resolve('endpoint')?.replace(/\/+$/, ''),
+      projectId: resolve('projectId'),
+      apiKey: resolve('apiKey')
+    };
+
+    const missing = (Object.keys(credentials) as Array<keyof PullCredentials>)
+      .filter(key => !credentials[key])
+      .map(key => `${key} (${this.ENV_KEYS[key]})`);
+
+    if (missing.length > 0) {
+      throw new PullError(`Missing Appwrite credentials: ${missing.join(', ')}`);
+    }
+
+    return credentials as PullCredentials;
+  }
+
+  /**
+   * Reads variables from a dotenv file
+   * Supports `KEY=value` lines, `export` prefixes, quoted values and comments
+   *
+   * @param filePath - Path to the dotenv file
+   * @returns Variables by name, empty when the file does not exist
+   */
+  private static async readEnvFile(filePath: string): Promise<Record<string, string>> {
+    let content: string;
+    try {
+      content = await FileSystemUtils.readFile(filePath);
+    } catch {
+      return {};
+    }
+
+    const variables: Record<string, string> = {};
+
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+      if (!match) continue;
+
+      const [, key, rawValue] = match;
+      const quoted = rawValue.match(/^(['"])(.*?)\1(?:\s+#.*)?$/);
+      variables[key] = quoted ? quoted[2] : rawValue.replace(/\s+#.*$/, '');
+    }
+
+    return variables;
+  }
+
+  /**
+   * Lists every resource of a paginated endpoint
+   *
+   * @param credentials - Server credentials
+   * @param resourcePath - Path of the list endpoint
+   * @param field - Response field holding the resources
+   * @returns All resources
+   * @throws {PullError} If a request fails
+   */
+  private static async listAll(
+    credentials: PullCredentials,
+    resourcePath: string,
+    field: string
+  ): Promise<any[]> {
+    const resources: any[] = [];
+
+    while (true) {
+      const page = await this.request(credentials, resourcePath, [
+        { method: 'limit', values: [this.PAGE_SIZE] },
+        { method: 'offset', values: [resources.length] }
+      ]);
+      const items: any[] = Array.isArray(page[field]) ? page[field] : [];
+
+      resources.push(...items);
+
+      // Servers may cap the page size, so only the total tells whether more pages exist
+      if (items.length === 0 || resources.length >= (page.total ?? 0)) {
+        return resources;
+      }
+    }
+  }
+
+  /**
+   * Sends an authenticated GET request to the Appwrite API
+   *
+   * @param credentials - Server credentials
+   * @param resourcePath - Path relative to the endpoint
+   * @param queries - Appwrite queries appended as `queries[]` parameters
+   * @returns Parsed response body
+   * @throws {PullError} If the request fails or returns an error status
+   */
+  private static async request(
+    credentials: PullCredentials,
+    resourcePath: string,
+    queries: Array<{ method: string; values: unknown[] }>
+  ): Promise<any> {
+    const url = new URL(`${credentials.endpoint}${resourcePath}`);
+    queries.forEach(query => url.searchParams.append('queries[]', JSON.stringify(query)));
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          'X-Appwrite-Project': credentials.projectId,
+          'X-Appwrite-Key': credentials.apiKey,
+          'Accept': 'application/json'
+        }
+      });
+    } catch (error) {
+      throw new PullError(
+        `Unable to reach ${credentials.endpoint}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const body = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      throw new PullError(
+        `GET ${resourcePath} failed with ${response.status}${body?.message ? `: ${body.message}` : ''}`
+      );
+    }
+
+    return body ?? {};
+  }
+
+  /**
+   * Normalizes a collection and its available attributes and indexes
+   *
+   * @param collection - Collection returned by the API
+   * @param databaseId - Database the collection belongs to
+   * @param attributes - Attributes returned by the API
+   * @param indexes - Indexes returned by the API
+   * @returns Collection in the shape of `appwrite.json`
+   */
+  private static normalizeCollection(
+    collection: any,
+    databaseId: string,
+    attributes: any[],
+    indexes: any[]
+  ): any {
+    const isAvailable = (resource: any) => resource.status === undefined || resource.status === 'available';
+
+    return {
+      $id: collection.$id,
+      $permissions: collection.$permissions ?? [],
+      databaseId,
+      name: collection.name,
+      enabled: collection.enabled ?? true,
+      documentSecurity: collection.documentSecurity ?? false,
+      attributes: attributes.filter(isAvailable).map(attribute => this.normalizeAttribute(attribute)),
+      indexes: indexes.filter(isAvailable).map(index => this.omitServerFields(index))
+    };
+  }
+
+  /**
+   * Normalizes an attribute
+   * The API reports float attributes as `double`, which `appwrite.json` and the generators call `float`
+   *
+   * @param attribute - Attribute returned by the API
+   * @returns Attribute in the shape of `appwrite.json`
+   */
+  private static normalizeAttribute(attribute: any): any {
+    const normalized = this.omitServerFields(attribute);
+    return normalized.type === 'double' ? { ...normalized, type: 'float' } : normalized;
+  }
+
+  /**
+   * Normalizes a storage bucket
+   *
+   * @param bucket - Bucket returned by the API
+   * @returns Bucket in the shape of `appwrite.json`
+   */
+  private static normalizeBucket(bucket: any): any {
+    return {
+      $id: bucket.$id,
+      $permissions: bucket.$permissions ?? [],
+      fileSecurity: bucket.fileSecurity ?? false,
+      name: bucket.name,
+      enabled: bucket.enabled ?? true,
+      maximumFileSize: bucket.maximumFileSize,
+      allowedFileExtensions: bucket.allowedFileExtensions ?? [],
+      compression: bucket.compression,
+      encryption: bucket.encryption,
+      antivirus: bucket.antivirus
+    };
+  }
+
+  /**
+   * Removes server timestamps and processing state, which would make the saved schema change on every pull
+   *
+   * @param resource - Resource returned by the API
+   * @returns Resource without `$createdAt`, `$updatedAt`, `status` and `error`
+   */
+  private static omitServerFields(resource: any): any {
+    const { $createdAt, $updatedAt, status, error, ...rest } = resource;
+    return rest;
+  }
+}
@@ -0,0 +1,283 @@
+// src/schema/define-collection.ts
+import { AppwriteAttribute } from '../generator/type-converters.js';
+import { ConfigurationError } from '../utils/errors.js';
+
+/**
+ * An attribute declared in a collection definition, keyed by the `attributes` object
+ */
+export type AttributeDefinition = Omit<AppwriteAttribute, 'key' | 'typeOverride'>;
+
+/**
+ * An index declared in a collection definition
+ */
+export interface IndexDefinition {
+  key: string;
+  type: 'key' | 'unique' | 'fulltext';
+  attributes: string[];
+  orders?: Array<'ASC' | 'DESC'>;
+}
+
+/**
+ * A collection declared in TypeScript, emitted into `appwrite.json` by the emit-schema command
+ */
+export interface CollectionDefinition {
+  /** Collection ID; defaults to the name the definition is exported as */
+  $id?: string;
+
+  /** Database ID; defaults to the `--database` option or the only database of the project */
+  databaseId?: string;
+
+  /** Display name; defaults to the collection ID */
+  name?: string;
+
+  /** Whether the collection is enabled (default: true) */
+  enabled?: boolean;
+
+  /** Whether documents carry their own permissions (default: false) */
+  documentSecurity?: boolean;
+
+  /** Collection permissions, e.g. `read("any")` */
+  permissions?: string[];
+
+  /** Attributes by key */
+  attributes: Record<string, AttributeDefinition>;
+
+  /** Indexes of the collection */
+  indexes?: IndexDefinition[];
+}
+
+/**
+ * Options shared by all non-relationship attributes
+ */
+export interface AttributeOptions<T> {
+  /** Whether a value is required; required attributes cannot have a default */
+  required?: boolean;
+
+  /** Whether the attribute holds a list of values */
+  array?: boolean;
+
+  /** Default value of optional attributes */
+  default?: T;
+}
+
+/**
+ * Options of string attributes
+ */
+export interface StringAttributeOptions extends AttributeOptions<string> {
+  /** Maximum number of characters */
+  size: number;
+}
+
+/**
+ * Options of integer and float attributes
+ */
+export interface NumberAttributeOptions extends AttributeOptions<number> {
+  /** Smallest allowed value */
+  min?: number;
+
+  /** Largest allowed value */
+  max?: number;
+}
+
+/**
+ * Options of relationship attributes
+ */
+export interface RelationshipAttributeOptions {
+  /** ID of the related collection in the same database */
+  relatedCollection: string;
+
+  /** Cardinality, seen from this collection */
+  relationType: 'oneToOne' | 'oneToMany' | 'manyToOne' | 'manyToMany';
+
+  /** Whether the related collection gets an attribute pointing back */
+  twoWay?: boolean;
+
+  /** Key of the attribute in the related collection; defaults to this collection's ID */
+  twoWayKey?: string;
+
+  /** What happens to related documents when a document is deleted (default: restrict) */
+  onDelete?: 'restrict' | 'cascade' | 'setNull';
+}
+
+/**
+ * Declares a string attribute
+ * @param options Size and attribute options
+ * @returns Attribute definition
+ */
+export function string(options: StringAttributeOptions): AttributeDefinition {
+  return { type: 'string', ...baseAttribute(options), size: options.size };
+}
+
+/**
+ * Declares an integer attribute
+ * @param options Bounds and attribute options
+ * @returns Attribute definition
+ */
+export function integer(options: NumberAttributeOptions = {}): AttributeDefinition {
+  return { type: 'integer', ...baseAttribute(options), ...bounds(options) };
+}
+
+/**
+ * Declares a float attribute
+ * @param options Bounds and attribute options
+ * @returns Attribute definition
+ */
+export function float(options: NumberAttributeOptions = {}): AttributeDefinition {
+  return { type: 'float', ...baseAttribute(options), ...bounds(options) };
+}
+
+/**
+ * Declares a boolean attribute
+ * @param options Attribute options
+ * @returns Attribute definition
+ */
+export function boolean(options: AttributeOptions<boolean> = {}): AttributeDefinition {
+  return { type: 'boolean', ...baseAttribute(options) };
+}
+
+/**
+ * Declares a datetime attribute holding ISO 8601 strings
+ * @param options Attribute options
+ * @returns Attribute definition
+ */
+export function datetime(options: AttributeOptions<string> = {}): AttributeDefinition {
+  return { type: 'datetime', ...baseAttribute(options) };
+}
+
+/**
+ * Declares an email attribute
+ * @param options Attribute options
+ * @returns Attribute definition
+ */
+export function email(options: AttributeOptions<string> = {}): AttributeDefinition {
+  return { type: 'string', ...baseAttribute(options), format: 'email' };
+}
+
+/**
+ * Declares a URL attribute
+ * @param options Attribute options
+ * @returns Attribute definition
+ */
+export function url(options: AttributeOptions<string> = {}): AttributeDefinition {
+  return { type: 'string', ...baseAttribute(options), format: 'url' };
+}
+
+/**
+ * Declares an IP address attribute
+ * @param options Attribute options
+ * @returns Attribute definition
+ */
+export function ip(options: AttributeOptions<string> = {}): AttributeDefinition {
+  return { type: 'string', ...baseAttribute(options), format: 'ip' };
+}
+
+/**
+ * Declares an enum attribute
+ * @param elements Allowed values
+ * @param options Attribute options
+ * @returns Attribute definition
+ * @example
+ * status: enumAttr(['draft', 'live'], { default: 'draft' })
+ */
+export function enumAttr<const T extends string>(
+  elements: readonly T[],
+  options: AttributeOptions<NoInfer<T>> = {}
+): AttributeDefinition {
+  return { type: 'string', ...baseAttribute(options), elements: [...elements], format: 'enum' };
+}
+
+/**
+ * Declares a relationship attribute
+ * Two-way relationships also add the attribute pointing back to the related collection when emitted
+ * @param options Related collection and relationship options
+ * @returns Attribute definition
+ */
+export function relationship(options: RelationshipAttributeOptions): AttributeDefinition {
+  return {
+    type: 'relationship',
+    required: false,
+    array: false,
+    relatedCollection: options.relatedCollection,
+    relationType: options.relationType,
+    twoWay: options.twoWay ?? false,
+    ...(options.twoWayKey !== undefined && { twoWayKey: options.twoWayKey }),
+    onDelete: options.onDelete ?? 'restrict',
+    side: 'parent'
+  };
+}
+
+/**
+ * Declares a collection with type checking and editor completion
+ * @param definition Collection attributes, indexes and settings
+ * @returns The same definition
+ * @throws {ConfigurationError} If an attribute or index is inconsistent
+ * @example
+ * // schema.ts
+ * export const posts = defineCollection({
+ *   attributes: {
+ *     title: string({ size: 255, required: true }),
+ *     status: enumAttr(['draft', 'live'])
+ *   }
+ * });
+ */
+export function defineCollection<T extends CollectionDefinition>(definition: T): T {
+  const name = definition.$id ?? definition.name;
+  const label = name ? ` of ${name}` : '';
+
+  Object.entries(definition.attributes).forEach(([key, attribute]) => {
+    const fail = (message: string) => {
+      throw new ConfigurationError(`Attribute "${key}"${label} ${message}`);
+    };
+
+    if (attribute.required && attribute.default !== undefined) {
+      fail('is required and cannot have a default value');
+    }
+    if (attribute.array && attribute.default !== undefined) {
+      fail('is an array and cannot have a default value');
+    }
+    if (attribute.format === 'enum' && !attribute.elements?.length) {
+      fail('needs at least one enum element');
+    }
+    if (attribute.format === 'enum' && attribute.default !== undefined && !attribute.elements?.includes(attribute.default as string)) {
+      fail(`has a default value that is not one of its elements: ${attribute.elements?.join(', ')}`);
+    }
+    if (attribute.min !== undefined && attribute.max !== undefined && attribute.min > attribute.max) {
+      fail(`has a min of ${attribute.min} greater than its max of ${attribute.max}`);
+    }
+  });
+
+  (definition.indexes ?? []).forEach(index => {
+    if (index.orders && index.orders.length !== index.attributes.length) {
+      throw new ConfigurationError(
+        `Index "${index.key}"${label} needs one order per attribute, got ${index.orders.length} for ${index.attributes.length}`
+      );
+    }
+  });
+
+  return definition;
+}
+
+/**
+ * Reads the options shared by all non-relationship attributes
+ * @param options Attribute options
+ * @returns Required flag, array flag and default value
+ */
+function baseAttribute<T>(options: AttributeOptions<T>): Pick<AttributeDefinition, 'required' | 'array' | 'default'> {
+  return {
+    required: options.required ?? false,
+    array: options.array ?? false,
+    ...(options.default !== undefined && { default: options.default })
+  };
+}
+
+/**
+ * Reads the bounds of number attributes
+ * @param options Number attribute options
+ * @returns Bounds that are set
+ */
+function bounds(options: NumberAttributeOptions): Pick<AttributeDefinition, 'min' | 'max'> {
+  return {
+    ...(options.min !== undefined && { min: options.min }),
+    ...(options.max !== undefined && { max: options.max })
+  };
+}
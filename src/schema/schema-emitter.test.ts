@@ -0,0 +1,234 @@
+// src/schema/schema-emitter.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SchemaEmitter } from './schema-emitter.js';
+import { defineCollection, enumAttr, integer, relationship, string } from './define-collection.js';
+import { ConfigurationError } from '../utils/errors.js';
+
+/**
+ * Builds an existing `appwrite.json` collection of the `main` database
+ * @param $id - Collection ID
+ * @param attributes - Attributes of the collection
+ * @returns Collection
+ */
+function existingCollection($id: string, attributes: any[] = []): any {
+  return { $id, databaseId: 'main', name: $id, attributes, indexes: [] };
+}
+
+/**
+ * Lists the attribute keys of each collection
+ * @param collections - Collections
+ * @returns Attribute keys by collection ID
+ */
+function attributeKeys(collections: any[]): Record<string, string[]> {
+  return Object.fromEntries(collections.map(collection => [
+    collection.$id,
+    collection.attributes.map((attribute: any) => attribute.key)
+  ]));
+}
+
+describe('SchemaEmitter.emitCollections', () => {
+  test('emits collections in the shape of appwrite.json', () => {
+    const posts = defineCollection({
+      name: 'Blog posts',
+      permissions: ['read("any")'],
+      attributes: {
+        title: string({ size: 255, required: true }),
+        status: enumAttr(['draft', 'live'], { default: 'draft' }),
+        views: integer({ min: 0 })
+      },
+      indexes: [{ key: 'by_title', type: 'fulltext', attributes: ['title'] }]
+    });
+
+    const [collection] = SchemaEmitter.emitCollections([{ exportName: 'posts', definition: posts }], { databaseId: 'main' });
+
+    assert.deepEqual(collection, {
+      $id: 'posts',
+      $permissions: ['read("any")'],
+      databaseId: 'main',
+      name: 'Blog posts',
+      enabled: true,
+      documentSecurity: false,
+      attributes: [
+        { key: 'title', type: 'string', required: true, array: false, size: 255, default: null },
+        { key: 'status', type: 'string', required: false, array: false, elements: ['draft', 'live'], format: 'enum', default: 'draft' },
+        { key: 'views', type: 'integer', required: false, array: false, min: 0, default: null }
+      ],
+      indexes: [{ key: 'by_title', type: 'fulltext', attributes: ['title'], orders: ['ASC'] }]
+    });
+  });
+
+  test('adds the attribute pointing back to the related collection of two-way relationships', () => {
+    const users = defineCollection({ attributes: { name: string({ size: 64 }) } });
+    const posts = defineCollection({
+      attributes: {
+        author: relationship({ relatedCollection: 'users', relationType: 'manyToOne', twoWay: true, twoWayKey: 'posts' })
+      }
+    });
+
+    const collections = SchemaEmitter.emitCollections(
+      [{ exportName: 'users', definition: users }, { exportName: 'posts', definition: posts }],
+      { databaseId: 'main' }
+    );
+
+    assert.deepEqual(collections[0].attributes[1], {
+      key: 'posts',
+      type: 'relationship',
+      required: false,
+      array: false,
+      relatedCollection: 'posts',
+      relationType: 'manyToOne',
+      twoWay: true,
+      twoWayKey: 'author',
+      onDelete: 'restrict',
+      side: 'child'
+    });
+  });
+
+  test('rejects inconsistent definitions', () => {
+    const emit = (definitions: Record<string, any>) => () => SchemaEmitter.emitCollections(
+      Object.entries(definitions).map(([exportName, definition]) => ({ exportName, definition })),
+      { databaseId: 'main' }
+    );
+
+    assert.throws(
+      emit({ posts: defineCollection({ attributes: { author: relationship({ relatedCollection: 'users', relationType: 'manyToOne' }) } }) }),
+      (error: unknown) => error instanceof ConfigurationError && /unknown collection main\/users/.test(error.message)
+    );
+    assert.throws(
+      emit({ posts: defineCollection({ attributes: {}, indexes: [{ key: 'by_title', type: 'key', attributes: ['title'] }] }) }),
+      (error: unknown) => error instanceof ConfigurationError && /unknown attributes: title/.test(error.message)
+    );
+    assert.throws(
+      emit({ a: defineCollection({ $id: 'posts', attributes: {} }), b: defineCollection({ $id: 'posts', attributes: {} }) }),
+      (error: unknown) => error instanceof ConfigurationError && /main\/posts is defined more than once/.test(error.message)
+    );
+    assert.throws(
+      emit({ '-posts': defineCollection({ attributes: {} }) }),
+      (error: unknown) => error instanceof ConfigurationError && /Invalid collection ID "-posts"/.test(error.message)
+    );
+  });
+
+  test('requires a database for every collection', () => {
+    assert.throws(
+      () => SchemaEmitter.emitCollections([{ exportName: 'posts', definition: defineCollection({ attributes: {} }) }]),
+      (error: unknown) => error instanceof ConfigurationError && /posts has no databaseId/.test(error.message)
+    );
+  });
+
+  test('resolves relationships to collections that only exist in appwrite.json', () => {
+    const comments = defineCollection({
+      attributes: { post: relationship({ relatedCollection: 'posts', relationType: 'manyToOne' }) }
+    });
+
+    assert.throws(
+      () => SchemaEmitter.emitCollections([{ exportName: 'comments', definition: comments }], { databaseId: 'main' }),
+      ConfigurationError
+    );
+
+    const collections = SchemaEmitter.emitCollections(
+      [{ exportName: 'comments', definition: comments }],
+      { databaseId: 'main', existingCollections: [existingCollection('posts')] }
+    );
+
+    assert.deepEqual(attributeKeys(collections), { comments: ['post'] });
+  });
+
+  test('adds the attribute pointing back to a copy of an existing collection', () => {
+    const users = existingCollection('users', [{ key: 'name', type: 'string', required: true, array: false }]);
+    const posts = defineCollection({
+      attributes: {
+        author: relationship({ relatedCollection: 'users', relationType: 'manyToOne', twoWay: true, twoWayKey: 'posts' })
+      }
+    });
+
+    const collections = SchemaEmitter.emitCollections(
+      [{ exportName: 'posts', definition: posts }],
+      { databaseId: 'main', existingCollections: [users] }
+    );
+
+    assert.deepEqual(attributeKeys(collections), { posts: ['author'], users: ['name', 'posts'] });
+    assert.deepEqual(users.attributes.map((attribute: any) => attribute.key), ['name']);
+  });
+});
+
+describe('SchemaEmitter.applyToProject', () => {
+  test('replaces defined collections, keeps the others and reports removals', () => {
+    const project = {
+      projectId: 'blog',
+      databases: [{ $id: 'main', name: 'Main', enabled: true }],
+      collections: [
+        existingCollection('users'),
+        {
+          ...existingCollection('posts', [
+            { key: 'title', type: 'string', required: true, array: false },
+            { key: 'legacy', type: 'string', required: false, array: false }
+          ]),
+          indexes: [{ key: 'by_legacy', type: 'key', attributes: ['legacy'], orders: ['ASC'] }]
+        }
+      ]
+    };
+    const posts = defineCollection({ attributes: { title: string({ size: 255, required: true }) } });
+    const tags = defineCollection({ databaseId: 'blog', attributes: { label: string({ size: 32 }) } });
+    const collections = SchemaEmitter.emitCollections(
+      [{ exportName: 'posts', definition: posts }, { exportName: 'tags', definition: tags }],
+      { databaseId: 'main' }
+    );
+
+    const { project: updated, removed } = SchemaEmitter.applyToProject(project, collections);
+
+    assert.deepEqual(
+      updated.collections.map((collection: any) => `${collection.databaseId}/${collection.$id}`),
+      ['main/users', 'main/posts', 'blog/tags']
+    );
+    assert.deepEqual(updated.databases.map((database: any) => database.$id), ['main', 'blog']);
+    assert.equal(updated.projectId, 'blog');
+    assert.deepEqual(removed, ['attribute main/posts.legacy', 'index main/posts.by_legacy']);
+  });
+
+  test('drops attributes pointing back to relationships removed from code and keeps the others', () => {
+    const project = {
+      collections: [
+        existingCollection('users', [
+          { key: 'posts', type: 'relationship', relatedCollection: 'posts', twoWay: true, twoWayKey: 'author', side: 'child' }
+        ]),
+        existingCollection('tags', [
+          { key: 'featured', type: 'relationship', relatedCollection: 'posts', twoWay: true, twoWayKey: 'tag', side: 'parent' }
+        ]),
+        existingCollection('posts', [
+          { key: 'author', type: 'relationship', relatedCollection: 'users', twoWay: true, twoWayKey: 'posts', side: 'parent' },
+          { key: 'tag', type: 'relationship', relatedCollection: 'tags', twoWay: true, twoWayKey: 'featured', side: 'child' }
+        ])
+      ]
+    };
+    const posts = defineCollection({ attributes: { title: string({ size: 255 }) } });
+    const collections = SchemaEmitter.emitCollections([{ exportName: 'posts', definition: posts }], { databaseId: 'main' });
+
+    const { project: updated, removed } = SchemaEmitter.applyToProject(project, collections);
+
+    assert.deepEqual(attributeKeys(updated.collections), {
+      users: [],
+      tags: ['featured'],
+      posts: ['title', 'tag']
+    });
+    assert.deepEqual(removed, ['attribute main/users.posts', 'attribute main/posts.author']);
+  });
+
+  test('is stable when the emitted collections are applied again', () => {
+    const posts = defineCollection({
+      attributes: {
+        author: relationship({ relatedCollection: 'users', relationType: 'manyToOne', twoWay: true })
+      }
+    });
+    const emit = (project: any) => SchemaEmitter.applyToProject(project, SchemaEmitter.emitCollections(
+      [{ exportName: 'posts', definition: posts }],
+      { databaseId: 'main', existingCollections: project.collections }
+    ));
+
+    const first = emit({ collections: [existingCollection('users')] });
+    const second = emit(first.project);
+
+    assert.deepEqual(second.project, first.project);
+    assert.deepEqual(second.removed, []);
+  });
+});
@@ -0,0 +1,425 @@
+// src/schema/schema-emitter.ts
+import * as path from 'path';
+import { ModuleLoader } from '../utils/module-loader.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { AppwriteAttribute, AppwriteCollection } from '../generator/type-converters.js';
+import { AttributeDefinition, CollectionDefinition } from './define-collection.js';
+
+/**
+ * A database entry of `appwrite.json`
+ */
+export interface AppwriteDatabase {
+  $id: string;
+  name: string;
+  enabled?: boolean;
+}
+
+/**
+ * The sections of `appwrite.json` the emitter reads and writes
+ * Other sections, such as functions and settings, are carried over unchanged
+ */
+export interface AppwriteProject {
+  databases?: AppwriteDatabase[];
+  collections?: AppwriteCollection[];
+  [section: string]: unknown;
+}
+
+/**
+ * Configuration for emitting collection definitions
+ */
+export interface SchemaEmitConfig {
+  /** Database of definitions without a `databaseId` */
+  databaseId?: string;
+
+  /** Collections already in `appwrite.json`, which relationships may point to */
+  existingCollections?: AppwriteCollection[];
+}
+
+/**
+ * Result of merging emitted collections into an `appwrite.json` project
+ */
+export interface SchemaApplyResult {
+  /** Updated project */
+  project: AppwriteProject;
+
+  /** Attributes and indexes of existing collections that the merge removes, e.g. `attribute main/posts.subtitle` */
+  removed: string[];
+}
+
+/**
+ * A collection definition with the name it was exported as
+ */
+export interface NamedCollectionDefinition {
+  /** Export name, used as the collection ID when the definition has none */
+  exportName: string;
+
+  /** Collection definition */
+  definition: CollectionDefinition;
+}
+
+/**
+ * Schema-as-code emitting utility
+ * Turns `defineCollection` definitions into the `collections` section of `appwrite.json`,
+ * in the shape the generators read
+ */
+export class SchemaEmitter {
+  /** Pattern of collection IDs and attribute keys accepted by Appwrite */
+  private static ID_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9._-]{0,35}$/;
+
+  /** Document metadata attributes indexes may refer to */
+  private static METADATA_ATTRIBUTES = ['$id', '$createdAt', '$updatedAt'];
+
+  /**
+   * Imports a schema module and collects its collection definitions
+   * Named exports and a default export holding a definition, an array or an object of definitions are read
+   *
+   * @param schemaPath - Path to a TypeScript or JavaScript module
+   * @returns Definitions ordered by export name
+   * @throws {ConfigurationError} If the module cannot be imported or exports no definitions
+   */
+  static async loadDefinitions(schemaPath: string): Promise<NamedCollectionDefinition[]> {
+    let module: Record<string, unknown>;
+    try {
+      module = await ModuleLoader.importFile(path.resolve(process.cwd(), schemaPath));
+    } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw error;
+      }
+      throw new ConfigurationError(
+        `Unable to load ${schemaPath}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const definitions: NamedCollectionDefinition[] = [];
+    const seen = new Set<CollectionDefinition>();
+    const add = (exportName: string, value: unknown) => {
+      if (this.isCollectionDefinition(value) && !seen.has(value)) {
+        seen.add(value);
+        definitions.push({ exportName, definition: value });
+      }
+    };
+
+    Object.entries(module).forEach(([exportName, value]) => {
+      if (exportName !== 'default') add(exportName, value);
+    });
+
+    const exported = module.default;
+    if (Array.isArray(exported)) {
+      exported.forEach((value, index) => add(`default[${index}]`, value));
+    } else if (this.isCollectionDefinition(exported)) {
+      add('default', exported);
+    } else if (typeof exported === 'object' && exported !== null) {
+      Object.entries(exported).forEach(([exportName, value]) => add(exportName, value));
+    }
+
+    if (definitions.length === 0) {
+      throw new ConfigurationError(`No collections defined with defineCollection found in ${schemaPath}`);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Emits collection definitions as `appwrite.json` collections
+   * Relationships may point to defined or existing collections. Two-way relationships add the attribute
+   * pointing back to the related collection, so existing collections they point to are emitted as well.
+   *
+   * @param definitions - Definitions with their export names
+   * @param config - Optional emit configuration
+   * @returns Defined collections, followed by existing collections that gained an attribute, in the shape of `appwrite.json`
+   * @throws {ConfigurationError} If IDs are invalid or duplicated, or relationships and indexes are inconsistent
+   */
+  static emitCollections(
+    definitions: NamedCollectionDefinition[],
+    config: SchemaEmitConfig = {}
+  ): AppwriteCollection[] {
+    const collections = definitions.map(({ exportName, definition }): AppwriteCollection => {
+      const $id = definition.$id ?? exportName;
+      const databaseId = definition.databaseId ?? config.databaseId;
+
+      if (!this.ID_PATTERN.test($id)) {
+        throw new ConfigurationError(
+          `Invalid collection ID "${$id}", set $id to at most 36 letters, digits, ".", "-" or "_" not starting with a special character`
+        );
+      }
+      if (!databaseId) {
+        throw new ConfigurationError(`Collection ${$id} has no databaseId, set it or pass --database`);
+      }
+
+      return {
+        $id,
+        $permissions: definition.permissions ?? [],
+        databaseId,
+        name: definition.name ?? $id,
+        enabled: definition.enabled ?? true,
+        documentSecurity: definition.documentSecurity ?? false,
+        attributes: Object.entries(definition.attributes).map(([key, attribute]) => {
+          if (!this.ID_PATTERN.test(key)) {
+            throw new ConfigurationError(`Invalid attribute key "${key}" in collection ${$id}`);
+          }
+          return this.emitAttribute(key, attribute, $id);
+        }),
+        indexes: (definition.indexes ?? []).map(index => ({
+          key: index.key,
+          type: index.type,
+          attributes: index.attributes,
+          orders: index.orders ?? index.attributes.map(() => 'ASC')
+        }))
+      };
+    });
+
+    const existingById = new Map((config.existingCollections ?? [])
+      .map(collection => [`${collection.databaseId}/${collection.$id}`, collection]));
+    const updatedById = new Map<string, AppwriteCollection>();
+    const byId = new Map<string, AppwriteCollection>();
+    collections.forEach(collection => {
+      const id = `${collection.databaseId}/${collection.$id}`;
+      if (byId.has(id)) {
+        throw new ConfigurationError(`Collection ${id} is defined more than once`);
+      }
+      byId.set(id, collection);
+    });
+
+    collections.forEach(collection => {
+      collection.attributes
+        .filter(attribute => attribute.type === 'relationship' && attribute.side === 'parent')
+        .forEach(attribute => {
+          const relatedId = `${collection.databaseId}/${attribute.relatedCollection}`;
+          const existing = existingById.get(relatedId);
+
+          // Existing collections are copied before gaining the attribute pointing back
+          const related = byId.get(relatedId) ?? updatedById.get(relatedId) ??
+            (existing && { ...existing, attributes: [...(existing.attributes ?? [])] });
+          if (!related) {
+            throw new ConfigurationError(
+              `Relationship ${collection.$id}.${attribute.key} refers to unknown collection ${relatedId}`
+            );
+          }
+          if (!attribute.twoWay) {
+            return;
+          }
+
+          if (!byId.has(relatedId)) {
+            updatedById.set(relatedId, related);
+          }
+          this.addChildAttribute(collection, attribute, related);
+        });
+    });
+
+    collections.forEach(collection => this.validateIndexes(collection));
+
+    return [...collections, ...updatedById.values()];
+  }
+
+  /**
+   * Merges emitted collections into an `appwrite.json` project by database and collection ID
+   * Emitted collections replace their existing version and other collections are kept. Attributes pointing back to
+   * an emitted collection are dropped from kept collections when it no longer declares their two-way relationship.
+   * Databases the collections belong to are added when missing; other settings are kept.
+   *
+   * @param project - Parsed `appwrite.json`, or an empty object for a new file
+   * @param collections - Emitted collections
+   * @returns Updated project and the attributes and indexes it no longer has
+   */
+  static applyToProject(project: AppwriteProject, collections: AppwriteCollection[]): SchemaApplyResult {
+    const databases = [...(project.databases ?? [])];
+    collections.forEach(collection => {
+      if (!databases.some(database => database.$id === collection.databaseId)) {
+        databases.push({ $id: collection.databaseId, name: collection.databaseId, enabled: true });
+      }
+    });
+
+    const keyOf = (collection: AppwriteCollection) => `${collection.databaseId}/${collection.$id}`;
+    const emitted = new Map(collections.map(collection => [keyOf(collection), collection]));
+    const existing = project.collections ?? [];
+
+    const merged = [
+      ...existing.map(collection => this.replaceCollection(collection, emitted.get(keyOf(collection)), emitted)),
+      ...collections.filter(collection => !existing.some(previous => keyOf(previous) === keyOf(collection)))
+    ].map(collection => {
+      const attributes = (collection.attributes ?? []).filter(attribute => !this.isStaleChild(collection, attribute, emitted));
+      return attributes.length === (collection.attributes ?? []).length ? collection : { ...collection, attributes };
+    });
+
+    const mergedByKey = new Map(merged.map(collection => [keyOf(collection), collection]));
+    const removed = existing.flatMap(previous => {
+      const current = mergedByKey.get(keyOf(previous));
+      const missing = (kind: 'attributes' | 'indexes', label: string) => (previous[kind] ?? [])
+        .filter(item => !(current?.[kind] ?? []).some(kept => kept.key === item.key))
+        .map(item => `${label} ${keyOf(previous)}.${item.key}`);
+      return [...missing('attributes', 'attribute'), ...missing('indexes', 'index')];
+    });
+
+    return { project: { ...project, databases, collections: merged }, removed };
+  }
+
+  /**
+   * Replaces an existing collection with its emitted version
+   * Attributes pointing back from kept collections are not declared in code, so they are carried over
+   *
+   * @param previous - Collection in `appwrite.json`
+   * @param collection - Emitted version of the collection, if any
+   * @param emitted - Emitted collections, keyed by `databaseId/$id`
+   * @returns Collection to keep in `appwrite.json`
+   */
+  private static replaceCollection(
+    previous: AppwriteCollection,
+    collection: AppwriteCollection | undefined,
+    emitted: Map<string, AppwriteCollection>
+  ): AppwriteCollection {
+    if (!collection) {
+      return previous;
+    }
+
+    const carried = (previous.attributes ?? []).filter(attribute =>
+      attribute.type === 'relationship' && attribute.side === 'child' &&
+      !emitted.has(`${previous.databaseId}/${attribute.relatedCollection}`) &&
+      !collection.attributes.some(declared => declared.key === attribute.key)
+    );
+
+    return carried.length > 0 ? { ...collection, attributes: [...collection.attributes, ...carried] } : collection;
+  }
+
+  /**
+   * Emits an attribute in the shape of `appwrite.json`
+   *
+   * @param key - Attribute key
+   * @param attribute - Attribute definition
+   * @param collectionId - ID of the collection the attribute belongs to
+   * @returns Attribute with its key
+   */
+  private static emitAttribute(key: string, attribute: AttributeDefinition, collectionId: string): AppwriteAttribute {
+    if (attribute.type === 'relationship') {
+      return {
+        key,
+        type: attribute.type,
+        required: false,
+        array: false,
+        relatedCollection: attribute.relatedCollection,
+        relationType: attribute.relationType,
+        twoWay: attribute.twoWay ?? false,
+        twoWayKey: attribute.twoWayKey ?? collectionId,
+        onDelete: attribute.onDelete ?? 'restrict',
+        side: attribute.side ?? 'parent'
+      };
+    }
+
+    return {
+      key,
+      type: attribute.type,
+      required: attribute.required,
+      array: attribute.array,
+      ...(attribute.size !== undefined && { size: attribute.size }),
+      ...(attribute.elements !== undefined && { elements: attribute.elements }),
+      ...(attribute.format !== undefined && { format: attribute.format }),
+      ...(attribute.min !== undefined && { min: attribute.min }),
+      ...(attribute.max !== undefined && { max: attribute.max }),
+      default: attribute.default ?? null
+    };
+  }
+
+  /**
+   * Adds the attribute pointing back from the related collection of a two-way relationship
+   * Appwrite stores both sides with the same relation type, told apart by `side`
+   *
+   * @param collection - Emitted collection declaring the relationship
+   * @param attribute - Emitted parent side of the relationship
+   * @param related - Related collection, emitted or a copy of an existing one
+   * @throws {ConfigurationError} If the related collection has another attribute with the back-pointing key
+   */
+  private static addChildAttribute(
+    collection: AppwriteCollection,
+    attribute: AppwriteAttribute,
+    related: AppwriteCollection
+  ): void {
+    const twoWayKey = attribute.twoWayKey ?? collection.$id;
+    const index = related.attributes.findIndex(existing => existing.key === twoWayKey);
+    const current = related.attributes[index];
+
+    // An earlier emit of the same relationship is replaced
+    const isSameRelationship = current?.type === 'relationship' && current.side === 'child' &&
+      current.relatedCollection === collection.$id && current.twoWayKey === attribute.key;
+    if (current && !isSameRelationship) {
+      throw new ConfigurationError(
+        `Relationship ${collection.$id}.${attribute.key} adds ${related.$id}.${twoWayKey}, which is already defined; remove it or set another twoWayKey`
+      );
+    }
+
+    const child: AppwriteAttribute = {
+      ...attribute,
+      key: twoWayKey,
+      relatedCollection: collection.$id,
+      twoWayKey: attribute.key,
+      side: 'child'
+    };
+    if (current) {
+      related.attributes[index] = child;
+    } else {
+      related.attributes.push(child);
+    }
+  }
+
+  /**
+   * Determines whether an attribute points back from a two-way relationship an emitted collection no longer declares
+   *
+   * @param collection - Collection the attribute belongs to
+   * @param attribute - Attribute to check
+   * @param emitted - Emitted collections, keyed by `databaseId/$id`
+   * @returns Whether the attribute is the child side of a relationship that was removed from its emitted parent
+   */
+  private static isStaleChild(
+    collection: AppwriteCollection,
+    attribute: AppwriteAttribute,
+    emitted: Map<string, AppwriteCollection>
+  ): boolean {
+    const parent = emitted.get(`${collection.databaseId}/${attribute.relatedCollection}`);
+    if (attribute.type !== 'relationship' || attribute.side !== 'child' || !parent) {
+      return false;
+    }
+
+    return !(parent.attributes ?? []).some(candidate =>
+      candidate.key === attribute.twoWayKey && candidate.side === 'parent' && candidate.twoWay &&
+      candidate.relatedCollection === collection.$id
+    );
+  }
+
+  /**
+   * Checks that indexes refer to attributes of their collection
+   *
+   * @param collection - Emitted collection
+   * @throws {ConfigurationError} If an index refers to an unknown attribute or is defined twice
+   */
+  private static validateIndexes(collection: AppwriteCollection): void {
+    const keys = new Set([...this.METADATA_ATTRIBUTES, ...collection.attributes.map(attribute => attribute.key)]);
+    const indexKeys = new Set<string>();
+
+    collection.indexes.forEach(index => {
+      if (indexKeys.has(index.key)) {
+        throw new ConfigurationError(`Index ${collection.$id}.${index.key} is defined more than once`);
+      }
+      indexKeys.add(index.key);
+
+      const unknown = index.attributes.filter(key => !keys.has(key));
+      if (unknown.length > 0) {
+        throw new ConfigurationError(
+          `Index ${collection.$id}.${index.key} refers to unknown attributes: ${unknown.join(', ')}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Determines whether an exported value is a collection definition
+   *
+   * @param value - Exported value
+   * @returns Whether the value has an attributes object
+   */
+  private static isCollectionDefinition(value: unknown): value is CollectionDefinition {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      typeof (value as CollectionDefinition).attributes === 'object' &&
+      (value as CollectionDefinition).attributes !== null &&
+      Object.values((value as CollectionDefinition).attributes).every(
+        attribute => typeof attribute === 'object' && attribute !== null && typeof attribute.type === 'string'
+      );
+  }
+}
@@ -0,0 +1,105 @@
+// src/testing/fixtures.ts
+
+/**
+ * A blog project with one database, covering every attribute type and a two-way relationship
+ */
+export const BLOG_SCHEMA = {
+  projectId: 'blog',
+  projectName: 'Blog',
+  databases: [{ $id: 'main', name: 'Main', enabled: true }],
+  collections: [
+    {
+      $id: 'users',
+      $permissions: ['read("any")'],
+      databaseId: 'main',
+      name: 'Users',
+      enabled: true,
+      documentSecurity: false,
+      attributes: [
+        { key: 'name', type: 'string', required: true, array: false, size: 64, default: null },
+        { key: 'email', type: 'string', required: true, array: false, format: 'email', size: 254, default: null },
+        { key: 'role', type: 'string', required: false, array: false, format: 'enum', elements: ['admin', 'member'], size: 6, default: 'member' },
+        { key: 'age', type: 'integer', required: false, array: false, min: 0, max: 150, default: null },
+        { key: 'score', type: 'float', required: false, array: false, min: -1.7976931348623157e+308, max: 1.7976931348623157e+308, default: null },
+        { key: 'active', type: 'boolean', required: true, array: false, default: null },
+        { key: 'lastSeen', type: 'datetime', required: false, array: false, format: '', default: null },
+        { key: 'website', type: 'string', required: false, array: false, format: 'url', size: 2000, default: null },
+        { key: 'ip', type: 'string', required: false, array: false, format: 'ip', size: 39, default: null },
+        { key: 'tags', type: 'string', required: false, array: true, size: 32, default: null },
+        { key: 'posts', type: 'relationship', required: false, array: false, relatedCollection: 'posts', relationType: 'oneToMany', twoWay: true, twoWayKey: 'author', onDelete: 'setNull', side: 'parent' }
+      ],
+      indexes: [{ key: 'by_email', type: 'unique', attributes: ['email'], orders: ['ASC'] }]
+    },
+    {
+      $id: 'posts',
+      $permissions: [],
+      databaseId: 'main',
+      name: 'Posts',
+      enabled: true,
+      documentSecurity: true,
+      attributes: [
+        { key: 'title', type: 'string', required: true, array: false, size: 255, default: null },
+        { key: 'status', type: 'string', required: true, array: false, format: 'enum', elements: ['draft', 'live'], size: 5, default: null },
+        { key: 'views', type: 'integer', required: false, array: false, min: 0, max: 9223372036854775807, default: 0 },
+        { key: 'author', type: 'relationship', required: false, array: false, relatedCollection: 'users', relationType: 'oneToMany', twoWay: true, twoWayKey: 'posts', onDelete: 'setNull', side: 'child' }
+      ],
+      indexes: []
+    }
+  ],
+  buckets: [
+    {
+      $id: 'avatars',
+      $permissions: ['read("any")'],
+      fileSecurity: false,
+      name: 'Avatars',
+      enabled: true,
+      maximumFileSize: 5000000,
+      allowedFileExtensions: ['png', 'jpg'],
+      compression: 'gzip',
+      encryption: true,
+      antivirus: true
+    }
+  ],
+  functions: [
+    {
+      $id: 'send-email',
+      name: 'Send email',
+      runtime: 'node-18.0',
+      execute: ['users'],
+      events: ['databases.main.collections.users.documents.*.create'],
+      schedule: '',
+      timeout: 15,
+      enabled: true,
+      logging: true,
+      entrypoint: 'src/main.js',
+      commands: 'npm install',
+      path: 'functions/send-email',
+      vars: [{ key: 'SMTP_HOST', value: 'smtp.example.com' }]
+    }
+  ],
+  teams: [{ $id: 'editors', name: 'Editors' }]
+};
+
+/**
+ * The blog project with a second database whose collection shares a name with the first one
+ */
+export const MULTI_DATABASE_SCHEMA = {
+  ...BLOG_SCHEMA,
+  databases: [...BLOG_SCHEMA.databases, { $id: 'analytics', name: 'Analytics', enabled: true }],
+  collections: [
+    ...BLOG_SCHEMA.collections,
+    {
+      $id: 'users',
+      $permissions: [],
+      databaseId: 'analytics',
+      name: 'Users',
+      enabled: true,
+      documentSecurity: false,
+      attributes: [
+        { key: 'visits', type: 'integer', required: true, array: false, min: 0, max: 1000000, default: null },
+        { key: 'country', type: 'string', required: false, array: false, format: 'enum', elements: ['ch', 'de'], size: 2, default: null }
+      ],
+      indexes: []
+    }
+  ]
+};
@@ -0,0 +1,123 @@
+// src/testing/generated-code.ts
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { TypesGenerator, TypeGeneratorConfig } from '../generator/index.js';
+
+/** Repository root, so generated files resolve the installed SDK and Zod */
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+/** Directory generated files are type-checked in; they are never written there */
+const VIRTUAL_DIR = path.join(ROOT_DIR, 'src', 'testing', '__generated__');
+
+/** Compiler options generated code has to satisfy */
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  lib: ['lib.es2022.d.ts', 'lib.dom.d.ts']
+};
+
+/**
+ * Writes a schema to a temporary `appwrite.json` and runs a generator against it
+ * @param schema - Content of `appwrite.json`
+ * @param generate - Receives the input path and the temporary directory
+ * @returns Result of the generator
+ */
+async function withSchemaFile<T>(
+  schema: object,
+  generate: (inputPath: string, directory: string) => Promise<T>
+): Promise<T> {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'appwrite-types-'));
+  try {
+    const inputPath = path.join(directory, 'appwrite.json');
+    await fs.writeFile(inputPath, JSON.stringify(schema));
+    return await generate(inputPath, directory);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Generates types for a schema with the given configuration
+ * @param schema - Content of `appwrite.json`
+ * @param config - Generator configuration besides the input path
+ * @returns Generated types
+ */
+export async function generateTypes(
+  schema: object,
+  config: Partial<TypeGeneratorConfig> = {}
+): Promise<string> {
+  return withSchemaFile(schema, (inputPath, directory) =>
+    new TypesGenerator({ outputPath: path.join(directory, 'types.ts'), ...config, inputPath }).generate()
+  );
+}
+
+/**
+ * Generates multi-file output for a schema with the given configuration
+ * @param schema - Content of `appwrite.json`
+ * @param config - Generator configuration besides the input path
+ * @returns File contents by path relative to the output directory
+ */
+export async function generateModules(
+  schema: object,
+  config: Partial<TypeGeneratorConfig> = {}
+): Promise<Record<string, string>> {
+  const files = await withSchemaFile(schema, (inputPath, directory) =>
+    new TypesGenerator({ outputDir: path.join(directory, 'types'), ...config, inputPath }).generateFiles()
+  );
+  return Object.fromEntries(files.map(file => [file.path, file.content]));
+}
+
+/**
+ * Type-checks generated files in strict mode against the installed packages
+ * @param files - File contents by path relative to the output directory
+ * @returns Formatted diagnostics, empty when the files compile
+ */
+export function typeCheck(files: Record<string, string>): string[] {
+  const sources = new Map(Object.entries(files).map(([filePath, content]) => [path.join(VIRTUAL_DIR, filePath), content]));
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const { fileExists, directoryExists, readFile, getSourceFile } = host;
+
+  host.fileExists = fileName => sources.has(fileName) || fileExists.call(host, fileName);
+  host.directoryExists = directoryName => [...sources.keys()].some(fileName => fileName.startsWith(`${directoryName}${path.sep}`)) ||
+    (directoryExists?.call(host, directoryName) ?? true);
+  host.readFile = fileName => sources.get(fileName) ?? readFile.call(host, fileName);
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const content = sources.get(fileName);
+    return content === undefined
+      ? getSourceFile.call(host, fileName, languageVersion, ...rest)
+      : ts.createSourceFile(fileName, content, languageVersion, true);
+  };
+
+  const program = ts.createProgram([...sources.keys()], COMPILER_OPTIONS, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) {
+      return message;
+    }
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `${path.relative(VIRTUAL_DIR, diagnostic.file.fileName)}:${line + 1}: ${message}`;
+  });
+}
+
+/**
+ * Runs a generated module and returns its exports
+ * Package imports resolve against the installed packages
+ * @param source - Generated TypeScript module
+ * @returns Module exports
+ */
+export async function importGenerated(source: string): Promise<Record<string, any>> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext }
+  });
+  const resolved = outputText.replace(/from '([^'.][^']*)'/g, (_, specifier: string) =>
+    `from '${import.meta.resolve(specifier)}'`
+  );
+  return import(`data:text/javascript;base64,${Buffer.from(resolved).toString('base64')}`);
+}
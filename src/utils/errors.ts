@@ -26,4 +26,24 @@ export class FileSystemError extends GeneratorError {
     super(`File System Error: ${message}`);
     this.name = 'FileSystemError';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Error for plugin loading and plugin hook failures
+ */
+export class PluginError extends GeneratorError {
+  constructor(message: string) {
+    super(`Plugin Error: ${message}`);
+    this.name = 'PluginError';
+  }
+}
+
+/**
+ * Error for failures while pulling the schema from an Appwrite server
+ */
+export class PullError extends GeneratorError {
+  constructor(message: string) {
+    super(`Pull Error: ${message}`);
+    this.name = 'PullError';
+  }
+}
@@ -65,6 +65,85 @@ export class FileSystemUtils {
     }
   }
 
+  /**
+   * Writes content to a file only when it differs from the current content
+   * @param filePath - Destination file path
+   * @param content - Content to write
+   * @param normalize - Maps content before comparison, e.g. to ignore volatile lines
+   * @returns Whether the file was written
+   * @throws {FileSystemError} For any file writing issues
+   */
+  static async writeFileIfChanged(
+    filePath: string, 
+    content: string, 
+    normalize: (content: string) => string = (value) => value
+  ): Promise<boolean> {
+    try {
+      const resolvedPath = path.resolve(process.cwd(), filePath);
+      const existingContent = await fs.readFile(resolvedPath, { encoding: 'utf8' });
+
+      if (normalize(existingContent) === normalize(content)) {
+        return false;
+      }
+    } catch {
+      // Missing or unreadable files are (re)written below
+    }
+
+    await this.writeFile(filePath, content);
+    return true;
+  }
+
+  /**
+   * Lists files in a directory and its subdirectories
+   * @param dirPath - Directory to list
+   * @param extension - Optional extension files must end with
+   * @returns File paths joined onto `dirPath`, or an empty list if the directory does not exist
+   */
+  static async listFiles(dirPath: string, extension?: string): Promise<string[]> {
+    const resolvedPath = path.resolve(process.cwd(), dirPath);
+
+    let entries;
+    try {
+      entries = await fs.readdir(resolvedPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(entryPath, extension));
+      } else if (!extension || entry.name.endsWith(extension)) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Removes a file and its directory if that leaves the directory empty
+   * @param filePath - File to remove
+   * @throws {FileSystemError} If the file cannot be removed
+   */
+  static async removeFile(filePath: string): Promise<void> {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    try {
+      await fs.rm(resolvedPath, { force: true });
+    } catch (error) {
+      throw new FileSystemError(`Unable to remove file: ${filePath}`);
+    }
+
+    try {
+      await fs.rmdir(path.dirname(resolvedPath));
+    } catch {
+      // Directory still contains other files
+    }
+  }
+
   /**
    * Safely creates a directory with recursive option
    * @param dirPath - Directory path to create
@@ -94,6 +173,21 @@ export class FileSystemUtils {
     }
   }
 
+  /**
+   * Checks if a path is a file
+   * @param filePath - Path to check
+   * @returns Boolean indicating if path is a file
+   */
+  static async fileExists(filePath: string): Promise<boolean> {
+    try {
+      const resolvedPath = path.resolve(process.cwd(), filePath);
+      const stats = await fs.stat(resolvedPath);
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
     /**
      * Performs a deep merge of two JSON objects.
      * @param target - Target object to merge into.
@@ -0,0 +1,116 @@
+// src/utils/file-watcher.ts
+import { watch, FSWatcher } from 'fs';
+import * as path from 'path';
+
+/**
+ * Watches a set of files and runs a callback after they change
+ * Changes are debounced and callbacks never overlap
+ */
+export class FileWatcher {
+  /** Active directory watchers */
+  private watchers: FSWatcher[] = [];
+
+  /** Absolute paths of the watched files */
+  private watchedPaths: string[] = [];
+
+  /** Pending debounce timer */
+  private timer?: NodeJS.Timeout;
+
+  /** Whether the change callback is currently running */
+  private running = false;
+
+  /** Whether another change arrived while the callback was running */
+  private pending = false;
+
+  /**
+   * Creates a new file watcher
+   * @param onChange - Callback invoked after watched files changed
+   * @param debounceMs - Quiet period to wait for before invoking the callback
+   */
+  constructor(
+    private readonly onChange: () => Promise<void>,
+    private readonly debounceMs: number = 200
+  ) {}
+
+  /**
+   * Starts watching the given files, replacing any previously watched files
+   * Parent directories are watched so files replaced by editors keep being tracked
+   * @param filePaths - Paths of the files to watch
+   */
+  watch(filePaths: string[]): void {
+    const resolvedPaths = [...new Set(filePaths.map(filePath => path.resolve(process.cwd(), filePath)))].sort();
+
+    if (resolvedPaths.join('\n') === this.watchedPaths.join('\n')) {
+      return;
+    }
+
+    this.closeWatchers();
+    this.watchedPaths = resolvedPaths;
+
+    // Group watched file names by their directory
+    const filesByDirectory = new Map<string, Set<string>>();
+    resolvedPaths.forEach(filePath => {
+      const directory = path.dirname(filePath);
+      const names = filesByDirectory.get(directory) ?? new Set<string>();
+      names.add(path.basename(filePath));
+      filesByDirectory.set(directory, names);
+    });
+
+    filesByDirectory.forEach((names, directory) => {
+      const watcher = watch(directory, (_event, filename) => {
+        if (!filename || names.has(filename.toString())) {
+          this.schedule();
+        }
+      });
+      this.watchers.push(watcher);
+    });
+  }
+
+  /**
+   * Stops watching all files
+   */
+  close(): void {
+    clearTimeout(this.timer);
+    this.closeWatchers();
+    this.watchedPaths = [];
+  }
+
+  /**
+   * Closes all active directory watchers
+   */
+  private closeWatchers(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  /**
+   * Restarts the debounce timer
+   */
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Runs the change callback, deferring changes that arrive while it runs
+   */
+  private async flush(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      await this.onChange();
+    } finally {
+      this.running = false;
+
+      if (this.pending) {
+        this.pending = false;
+        this.schedule();
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+// src/utils/module-loader.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+
+/**
+ * Utility class for importing user modules such as configuration and schema files
+ * TypeScript modules are transpiled with the project's TypeScript compiler
+ */
+export class ModuleLoader {
+  /**
+   * Import a JavaScript or TypeScript module according to its extension
+   * @param modulePath Absolute module path
+   * @returns Module namespace
+   * @throws {Error} If the module cannot be transpiled or imported
+   */
+  static async importFile(modulePath: string): Promise<any> {
+    return ['.ts', '.mts'].includes(path.extname(modulePath))
+      ? this.importTypeScript(modulePath)
+      : this.importModule(modulePath);
+  }
+
+  /**
+   * Import a JavaScript module, bypassing the module cache so edits are picked up
+   * @param modulePath Absolute module path
+   * @returns Module namespace
+   */
+  private static async importModule(modulePath: string): Promise<any> {
+    const { mtimeMs } = await fs.stat(modulePath);
+    return import(`${pathToFileURL(modulePath).href}?t=${mtimeMs}`);
+  }
+
+  /**
+   * Import a TypeScript module by transpiling it with the project's TypeScript compiler
+   * The transpiled module is written next to the source so relative imports keep working
+   * @param modulePath Absolute module path
+   * @returns Module namespace
+   */
+  private static async importTypeScript(modulePath: string): Promise<any> {
+    let ts: typeof import('typescript');
+    try {
+      ts = createRequire(path.join(process.cwd(), 'package.json'))('typescript');
+    } catch {
+      throw new Error('TypeScript modules require the "typescript" package to be installed');
+    }
+
+    const { outputText } = ts.transpileModule(await fs.readFile(modulePath, 'utf8'), {
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022
+      },
+      fileName: modulePath
+    });
+
+    const tempPath = path.join(
+      path.dirname(modulePath),
+      `.${path.basename(modulePath, path.extname(modulePath))}.${process.pid}.${Date.now()}.mjs`
+    );
+
+    await fs.writeFile(tempPath, outputText, 'utf8');
+    try {
+      return await import(pathToFileURL(tempPath).href);
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// src/utils/text-diff.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextDiff } from './text-diff.js';
+
+/**
+ * Builds numbered lines
+ * @param count - Number of lines
+ * @returns Lines `line 1` to `line <count>`
+ */
+function numberedLines(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+}
+
+describe('TextDiff.unified', () => {
+  test('returns an empty string for equal texts', () => {
+    assert.equal(TextDiff.unified('a\nb\n', 'a\nb\n'), '');
+    assert.equal(TextDiff.unified('', ''), '');
+  });
+
+  test('ignores a missing final line break', () => {
+    assert.equal(TextDiff.unified('a\nb', 'a\nb\n'), '');
+  });
+
+  test('shows a changed line with its context', () => {
+    const oldLines = numberedLines(10);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed';
+
+    assert.equal(
+      TextDiff.unified(oldLines.join('\n'), newLines.join('\n'), { oldLabel: 'old.json', newLabel: 'new.json' }),
+      [
+        '--- old.json',
+        '+++ new.json',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        ''
+      ].join('\n')
+    );
+  });
+
+  test('splits changes further apart than twice the context into hunks', () => {
+    const oldLines = numberedLines(20);
+    const newLines = oldLines.filter(line => line !== 'line 2' && line !== 'line 18');
+
+    const hunks = TextDiff.unified(oldLines.join('\n'), newLines.join('\n'), { context: 1 })
+      .split('\n')
+      .filter(line => line.startsWith('@@'));
+
+    assert.deepEqual(hunks, ['@@ -1,3 +1,2 @@', '@@ -17,3 +16,2 @@']);
+  });
+
+  test('merges changes within twice the context into one hunk', () => {
+    const oldLines = numberedLines(10);
+    const newLines = [...oldLines];
+    newLines[2] = 'three';
+    newLines[5] = 'six';
+
+    const hunks = TextDiff.unified(oldLines.join('\n'), newLines.join('\n'), { context: 1 })
+      .split('\n')
+      .filter(line => line.startsWith('@@'));
+
+    assert.deepEqual(hunks, ['@@ -2,6 +2,6 @@']);
+  });
+
+  test('numbers hunks of added and removed files from zero', () => {
+    assert.equal(TextDiff.unified('', 'a\nb\n'), '--- a\n+++ b\n@@ -0,0 +1,2 @@\n+a\n+b\n');
+    assert.equal(TextDiff.unified('a\n', ''), '--- a\n+++ b\n@@ -1,1 +0,0 @@\n-a\n');
+  });
+
+  test('keeps common lines between insertions and deletions', () => {
+    const diff = TextDiff.unified('a\nb\nc\nd\n', 'b\nc\ne\nd\n');
+
+    assert.equal(diff, '--- a\n+++ b\n@@ -1,4 +1,4 @@\n-a\n b\n c\n+e\n d\n');
+  });
+});
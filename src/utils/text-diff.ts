@@ -0,0 +1,224 @@
+// src/utils/text-diff.ts
+
+/**
+ * A single line of a line-based edit script
+ */
+interface DiffLine {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+/**
+ * Options for unified diff formatting
+ */
+export interface UnifiedDiffOptions {
+  /** Label of the original text */
+  oldLabel?: string;
+
+  /** Label of the updated text */
+  newLabel?: string;
+
+  /** Number of unchanged lines shown around each change */
+  context?: number;
+}
+
+/**
+ * Line-based text comparison utility
+ * Produces unified diffs using the Myers difference algorithm
+ */
+export class TextDiff {
+  /**
+   * Creates a unified diff between two texts
+   * @param oldText - Original text
+   * @param newText - Updated text
+   * @param options - Labels and context size
+   * @returns Unified diff, or an empty string when the texts are equal
+   */
+  static unified(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    const { oldLabel = 'a', newLabel = 'b', context = 3 } = options;
+    const lines = this.diffLines(this.splitLines(oldText), this.splitLines(newText));
+
+    if (lines.every(line => line.type === 'equal')) {
+      return '';
+    }
+
+    return [
+      `--- ${oldLabel}`,
+      `+++ ${newLabel}`,
+      ...this.formatHunks(lines, context)
+    ].join('\n') + '\n';
+  }
+
+  /**
+   * Splits text into lines, ignoring the final line break
+   * @param text - Text to split
+   * @returns Lines of the text
+   */
+  private static splitLines(text: string): string[] {
+    if (text === '') {
+      return [];
+    }
+
+    return text.replace(/\n$/, '').split('\n');
+  }
+
+  /**
+   * Computes a minimal line edit script
+   * Common leading and trailing lines are skipped before running Myers' algorithm
+   * @param a - Original lines
+   * @param b - Updated lines
+   * @returns Edit script turning `a` into `b`
+   */
+  private static diffLines(a: string[], b: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const equal = (line: string): DiffLine => ({ type: 'equal', line });
+
+    return [
+      ...a.slice(0, prefix).map(equal),
+      ...this.myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+      ...a.slice(a.length - suffix).map(equal)
+    ];
+  }
+
+  /**
+   * Runs Myers' O(ND) difference algorithm
+   * @param a - Original lines
+   * @param b - Updated lines
+   * @returns Edit script turning `a` into `b`
+   */
+  private static myers(a: string[], b: string[]): DiffLine[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const trace: Int32Array[] = [];
+    let v = new Int32Array(2 * max + 3);
+
+    search:
+    for (let d = 0; d <= max; d++) {
+      trace.push(v.slice());
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+
+        v[offset + k] = x;
+
+        if (x >= n && y >= m) {
+          break search;
+        }
+      }
+    }
+
+    // Walk the recorded frontiers backwards to recover the edit script
+    const result: DiffLine[] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+      v = trace[d];
+      const k = x - y;
+      const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+      const prevX = v[offset + prevK];
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        result.push({ type: 'equal', line: a[x - 1] });
+        x--;
+        y--;
+      }
+
+      if (d > 0) {
+        if (x === prevX) {
+          result.push({ type: 'insert', line: b[y - 1] });
+        } else {
+          result.push({ type: 'delete', line: a[x - 1] });
+        }
+      }
+
+      x = prevX;
+      y = prevY;
+    }
+
+    return result.reverse();
+  }
+
+  /**
+   * Groups an edit script into unified diff hunks
+   * @param lines - Edit script
+   * @param context - Number of unchanged lines shown around each change
+   * @returns Formatted hunk lines
+   */
+  private static formatHunks(lines: DiffLine[], context: number): string[] {
+    const output: string[] = [];
+    let index = 0;
+    let oldLine = 0;
+    let newLine = 0;
+
+    while (index < lines.length) {
+      if (lines[index].type === 'equal') {
+        index++;
+        oldLine++;
+        newLine++;
+        continue;
+      }
+
+      // Extend the hunk while the next change is close enough to share context
+      let end = index;
+      while (true) {
+        let next = end + 1;
+        while (next < lines.length && lines[next].type === 'equal') {
+          next++;
+        }
+
+        if (next < lines.length && next - end - 1 <= context * 2) {
+          end = next;
+        } else {
+          break;
+        }
+      }
+
+      const leading = Math.min(context, index);
+      const start = index - leading;
+      const stop = Math.min(lines.length, end + context + 1);
+      const hunk = lines.slice(start, stop);
+
+      const oldStart = oldLine - leading;
+      const newStart = newLine - leading;
+      const oldCount = hunk.filter(line => line.type !== 'insert').length;
+      const newCount = hunk.filter(line => line.type !== 'delete').length;
+
+      output.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`);
+      hunk.forEach(line => {
+        const marker = line.type === 'equal' ? ' ' : line.type === 'delete' ? '-' : '+';
+        output.push(`${marker}${line.line}`);
+      });
+
+      oldLine = oldStart + oldCount;
+      newLine = newStart + newCount;
+      index = stop;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,85 @@
+// src/validate/document-validator.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentValidator } from './document-validator.js';
+import { AppwriteCollection } from '../generator/type-converters.js';
+
+/** Collection the documents are validated against */
+const POSTS: AppwriteCollection = {
+  $id: 'posts',
+  databaseId: 'main',
+  name: 'Post',
+  attributes: [
+    { key: 'title', type: 'string', required: true, array: false, size: 20 },
+    { key: 'views', type: 'integer', required: false, array: false, min: 0 }
+  ],
+  indexes: []
+};
+
+describe('DocumentValidator.parseDocuments', () => {
+  test('reads a document, an array of documents or a documents property from JSON', () => {
+    assert.deepEqual(DocumentValidator.parseDocuments('{"title":"a"}', 'json').documents, [{ title: 'a' }]);
+    assert.deepEqual(DocumentValidator.parseDocuments('[{"title":"a"},{"title":"b"}]', 'json').documents, [
+      { title: 'a' },
+      { title: 'b' }
+    ]);
+    assert.deepEqual(DocumentValidator.parseDocuments('{"total":1,"documents":[{"title":"a"}]}', 'json').documents, [
+      { title: 'a' }
+    ]);
+  });
+
+  test('reports invalid JSON input as a whole', () => {
+    const { documents, violations } = DocumentValidator.parseDocuments('{"title":', 'json');
+
+    assert.deepEqual(documents, []);
+    assert.equal(violations.length, 1);
+    assert.match(violations[0].message, /^is not valid JSON/);
+  });
+
+  test('skips blank NDJSON lines and reports invalid lines without counting them as documents', () => {
+    const { documents, violations } = DocumentValidator.parseDocuments(
+      '{"title":"first"}\r\n\nnot json\n{"title":"third"}\n',
+      'ndjson'
+    );
+
+    assert.deepEqual(documents, [{ title: 'first' }, { title: 'third' }]);
+    assert.deepEqual(violations.map(({ line, message }) => ({ line, message: message.split(':')[0] })), [
+      { line: 3, message: 'is not valid JSON' }
+    ]);
+  });
+
+  test('reports invalid lines apart from the documents around them', () => {
+    const { documents, violations: parseViolations } = DocumentValidator.parseDocuments(
+      '{"title":"ok"}\n{oops\n{"views":-1}\n',
+      'ndjson'
+    );
+    const violations = [...parseViolations, ...DocumentValidator.validate(POSTS, documents)]
+      .map(violation => ({ source: 'posts.ndjson', ...violation }));
+
+    assert.deepEqual(violations.map(({ index, line, path }) => ({ index, line, path })), [
+      { index: 1, line: 2, path: '' },
+      { index: 1, line: undefined, path: 'title' },
+      { index: 1, line: undefined, path: 'views' }
+    ]);
+
+    const report = DocumentValidator.formatReport({ documents: documents.length, violations });
+    assert.match(report, /✖ posts\.ndjson:2: is not valid JSON/);
+    assert.match(report, /✖ posts\.ndjson\[1\] title: /);
+    assert.match(report, /❌ 3 violations in 1 of 2 documents and 1 unparsable line$/);
+  });
+});
+
+describe('DocumentValidator.validate', () => {
+  test('reports unknown keys and invalid values by path', () => {
+    const violations = DocumentValidator.validate(POSTS, [
+      { $id: 'a', title: 'Hello' },
+      { title: 'x'.repeat(21), views: 1.5, extra: true }
+    ]);
+
+    assert.deepEqual(violations.map(({ index, path }) => ({ index, path })), [
+      { index: 1, path: 'extra' },
+      { index: 1, path: 'title' },
+      { index: 1, path: 'views' }
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+// src/validate/document-validator.ts
+import { isIP } from 'net';
+import { TypeConverter, AppwriteAttribute, AppwriteCollection } from '../generator/type-converters.js';
+
+/**
+ * A single schema violation found in a document
+ */
+export interface DocumentViolation {
+  /** File the document was read from, if any */
+  source?: string;
+
+  /** Position of the document within its source; for unparsable lines, the number of documents before them */
+  index: number;
+
+  /** Line of NDJSON input that is not valid JSON; set for parse errors only, which belong to no document */
+  line?: number;
+
+  /** Path of the offending value, e.g. `tags[2]` or `author.name`; empty for the whole document */
+  path: string;
+
+  /** Human-readable description of the violation */
+  message: string;
+}
+
+/**
+ * Result of validating a set of documents
+ */
+export interface DocumentValidationResult {
+  /** Number of documents checked */
+  documents: number;
+
+  /** All violations found */
+  violations: DocumentViolation[];
+}
+
+/**
+ * Document validation utility
+ * Checks documents against a collection's attributes with the same runtime checks as the generated type guards
+ */
+export class DocumentValidator {
+  /** Document metadata fields that may appear next to attributes */
+  private static METADATA_KEYS = new Set([
+    '$id',
+    '$createdAt',
+    '$updatedAt',
+    '$databaseId',
+    '$collectionId',
+    '$permissions'
+  ]);
+
+  /** Expected value descriptions by attribute type */
+  private static TYPE_DESCRIPTIONS: Record<string, string> = {
+    string: 'a string',
+    integer: 'an integer',
+    float: 'a number',
+    boolean: 'a boolean',
+    datetime: 'an ISO 8601 date'
+  };
+
+  /** Loose email address pattern */
+  private static EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+  /**
+   * Validates documents against a collection
+   *
+   * @param collection - Collection the documents belong to
+   * @param documents - Documents to validate
+   * @param relatedCollections - Collections populated related documents are validated against
+   * @returns Violations, with the index of the offending document
+   */
+  static validate(
+    collection: AppwriteCollection,
+    documents: unknown[],
+    relatedCollections: AppwriteCollection[] = []
+  ): DocumentViolation[] {
+    const collectionsById = new Map(relatedCollections
+      .filter(related => related.databaseId === collection.databaseId)
+      .map(related => [related.$id, related]));
+
+    return documents.flatMap((document, index) =>
+      this.validateDocument(collection, document, '', collectionsById)
+        .map(violation => ({ index, ...violation }))
+    );
+  }
+
+  /**
+   * Parses JSON or NDJSON input into documents
+   * JSON input may be a single document, an array of documents or an object with a `documents` array
+   *
+   * @param content - File content
+   * @param format - Input format
+   * @returns Parsed documents, and violations for lines or files that are not valid JSON
+   */
+  static parseDocuments(
+    content: string,
+    format: 'json' | 'ndjson'
+  ): { documents: unknown[]; violations: DocumentViolation[] } {
+    if (format === 'json') {
+      try {
+        const parsed = JSON.parse(content);
+        const documents = Array.isArray(parsed)
+          ? parsed
+          : Array.isArray(parsed?.documents) ? parsed.documents : [parsed];
+        return { documents, violations: [] };
+      } catch (error) {
+        return {
+          documents: [],
+          violations: [{ index: 0, path: '', message: `is not valid JSON: ${error instanceof Error ? error.message : error}` }]
+        };
+      }
+    }
+
+    const documents: unknown[] = [];
+    const violations: DocumentViolation[] = [];
+
+    content.split(/\r?\n/).forEach((line, lineIndex) => {
+      if (!line.trim()) return;
+
+      try {
+        documents.push(JSON.parse(line));
+      } catch (error) {
+        // Unparsable lines are not documents, so they are neither counted nor validated
+        violations.push({
+          index: documents.length,
+          line: lineIndex + 1,
+          path: '',
+          message: `is not valid JSON: ${error instanceof Error ? error.message : error}`
+        });
+      }
+    });
+
+    return { documents, violations };
+  }
+
+  /**
+   * Formats a validation result as a human-readable report
+   *
+   * @param result - Validation result to format
+   * @returns Report text
+   */
+  static formatReport(result: DocumentValidationResult): string {
+    const { documents, violations } = result;
+
+    if (violations.length === 0) {
+      return `✅ ${documents} document${documents === 1 ? '' : 's'} valid`;
+    }
+
+    const parseErrors = violations.filter(violation => violation.line !== undefined).length;
+    const invalidDocuments = new Set(violations
+      .filter(violation => violation.line === undefined)
+      .map(violation => `${violation.source ?? ''}#${violation.index}`)).size;
+    const lines = violations.map(violation => {
+      const location = violation.line !== undefined
+        ? `${violation.source ?? ''}:${violation.line}`
+        : `${violation.source ?? ''}[${violation.index}]`;
+      return `  ✖ ${location}${violation.path ? ` ${violation.path}` : ''}: ${violation.message}`;
+    });
+    const unparsable = parseErrors > 0 ? ` and ${parseErrors} unparsable line${parseErrors === 1 ? '' : 's'}` : '';
+
+    return `${lines.join('\n')}\n\n❌ ${violations.length} violation${violations.length === 1 ? '' : 's'} in ${invalidDocuments} of ${documents} documents${unparsable}`;
+  }
+
+  /**
+   * Validates a single document
+   *
+   * @param collection - Collection the document belongs to
+   * @param document - Document to validate
+   * @param prefix - Path of the document within its parent, for nested related documents
+   * @param collectionsById - Collections of the same database, keyed by ID
+   * @returns Violations without document index
+   */
+  private static validateDocument(
+    collection: AppwriteCollection,
+    document: unknown,
+    prefix: string,
+    collectionsById: Map<string, AppwriteCollection>
+  ): Array<Omit<DocumentViolation, 'index'>> {
+    if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+      return [{ path: prefix, message: `must be a ${collection.name} document object` }];
+    }
+
+    const violations: Array<Omit<DocumentViolation, 'index'>> = [];
+    const values = document as Record<string, unknown>;
+    const attributeKeys = new Set(collection.attributes.map(attr => attr.key));
+    const join = (key: string) => prefix ? `${prefix}.${key}` : key;
+
+    Object.keys(values)
+      .filter(key => !attributeKeys.has(key) && !this.METADATA_KEYS.has(key))
+      .forEach(key => violations.push({ path: join(key), message: `is not an attribute of ${collection.name}` }));
+
+    collection.attributes.forEach(attr => {
+      const value = values[attr.key];
+      const attrPath = join(attr.key);
+
+      if (value === undefined || value === null) {
+        if (attr.required) {
+          violations.push({ path: attrPath, message: 'is required' });
+        }
+        return;
+      }
+
+      const isArray = attr.type === 'relationship'
+        ? TypeConverter.isManyRelationship(attr)
+        : attr.array;
+
+      if (!isArray) {
+        violations.push(...this.validateValue(attr, value, attrPath, collectionsById));
+        return;
+      }
+
+      if (!Array.isArray(value)) {
+        violations.push({ path: attrPath, message: 'must be an array' });
+        return;
+      }
+
+      value.forEach((item, itemIndex) => {
+        violations.push(...this.validateValue(attr, item, `${attrPath}[${itemIndex}]`, collectionsById));
+      });
+    });
+
+    return violations;
+  }
+
+  /**
+   * Validates a single (non-array) attribute value
+   *
+   * @param attribute - Attribute the value belongs to
+   * @param value - Value to validate
+   * @param valuePath - Path of the value
+   * @param collectionsById - Collections of the same database, keyed by ID
+   * @returns Violations without document index
+   */
+  private static validateValue(
+    attribute: AppwriteAttribute,
+    value: unknown,
+    valuePath: string,
+    collectionsById: Map<string, AppwriteCollection>
+  ): Array<Omit<DocumentViolation, 'index'>> {
+    const violation = (message: string) => [{ path: valuePath, message }];
+
+    if (attribute.type === 'relationship') {
+      const related = attribute.relatedCollection ? collectionsById.get(attribute.relatedCollection) : undefined;
+
+      if (typeof value === 'string') {
+        return [];
+      }
+
+      // Populated related documents are validated against their own collection
+      if (related && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return this.validateDocument(related, value, valuePath, collectionsById);
+      }
+
+      return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? []
+        : violation('must be a document ID or a related document');
+    }
+
+    // Reuse the runtime checks behind the generated type guards
+    const isValid = TypeConverter.createTypeGuard({ ...attribute, array: false });
+
+    if (!isValid(value)) {
+      return attribute.format === 'enum' && attribute.elements
+        ? violation(`must be one of ${attribute.elements.join(', ')} (received ${JSON.stringify(value)})`)
+        : violation(`must be ${this.TYPE_DESCRIPTIONS[attribute.type] ?? attribute.type} (received ${this.describe(value)})`);
+    }
+
+    if (typeof value === 'string') {
+      return this.validateString(attribute, value, valuePath);
+    }
+
+    if (typeof value === 'number') {
+      if (this.isMeaningful(attribute.min) && value < attribute.min) {
+        return violation(`must be at least ${attribute.min} (received ${value})`);
+      }
+      if (this.isMeaningful(attribute.max) && value > attribute.max) {
+        return violation(`must be at most ${attribute.max} (received ${value})`);
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Validates the size and format of a string value
+   *
+   * @param attribute - Attribute the value belongs to
+   * @param value - String value
+   * @param valuePath - Path of the value
+   * @returns Violations without document index
+   */
+  private static validateString(
+    attribute: AppwriteAttribute,
+    value: string,
+    valuePath: string
+  ): Array<Omit<DocumentViolation, 'index'>> {
+    if (attribute.type === 'string' && attribute.size && value.length > attribute.size) {
+      return [{
+        path: valuePath,
+        message: `must be at most ${attribute.size} characters (received ${value.length})`
+      }];
+    }
+
+    const formatChecks: Record<string, [(value: string) => boolean, string]> = {
+      email: [text => this.EMAIL_PATTERN.test(text), 'an email address'],
+      url: [text => this.isUrl(text), 'a URL'],
+      ip: [text => isIP(text) !== 0, 'an IP address']
+    };
+    const formatCheck = attribute.format ? formatChecks[attribute.format] : undefined;
+
+    if (formatCheck && !formatCheck[0](value)) {
+      return [{ path: valuePath, message: `must be ${formatCheck[1]} (received ${JSON.stringify(value)})` }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Checks whether a string is an absolute URL
+   *
+   * @param value - String to check
+   * @returns True for absolute URLs
+   */
+  private static isUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks whether a numeric bound is meaningful
+   * Appwrite's default bounds exceed the safe number range and are ignored
+   *
+   * @param value - Bound to check
+   * @returns True for bounds worth enforcing
+   */
+  private static isMeaningful(value?: number): value is number {
+    return typeof value === 'number' && Math.abs(value) <= Number.MAX_SAFE_INTEGER;
+  }
+
+  /**
+   * Describes a value's type for error messages
+   *
+   * @param value - Value to describe
+   * @returns Short description
+   */
+  private static describe(value: unknown): string {
+    if (Array.isArray(value)) return 'an array';
+    if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+  }
+}